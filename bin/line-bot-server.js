@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+const { Cli } = require('../dist/lib/cli');
+
+new Cli().run(process.argv.slice(2)).then((code) => {
+  if (code) {
+    process.exit(code);
+  }
+});
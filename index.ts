@@ -1,2 +1,59 @@
+export { AcmeClient, AcmeClientOptions, AcmeDirectory } from './lib/acme-client';
+export { AcmeEmulator, AcmeEmulatorOptions } from './lib/acme-emulator';
+export { ApiCall, ApiContent, ApiEmulator, ApiEmulatorOptions, ApiFailure, ApiIssuedToken } from './lib/api-emulator';
 export { BotServer } from './lib/bot-server';
-export { BotServerOptions } from './lib/bot-server-options';
+export { BotServerAcmeOptions, BotServerLifecycleEvent, BotServerOptions, BotServerQueuedEvent, BotServerSSLOptions,
+  BotServerTransport } from './lib/bot-server-options';
+export { ButtonsTemplateBuilder, TemplateImageOptions } from './lib/buttons-template-builder';
+export { CarouselTemplateBuilder } from './lib/carousel-template-builder';
+export { CertificateWatcher, CertificateWatcherOptions } from './lib/certificate-watcher';
+export { Channel, ChannelOptions } from './lib/channel';
+export { ChannelRegistry } from './lib/channel-registry';
+export { ChannelToken, ChannelTokenManager, ChannelTokenOptions } from './lib/channel-token-manager';
+export { Cli, CliArguments, CliOutput } from './lib/cli';
+export { ConfigEnv, ConfigError, ConfigField, ConfigFieldType, ConfigLoader, ConfigSources } from './lib/config-loader';
+export { ConfirmTemplateBuilder } from './lib/confirm-template-builder';
+export { ContentEvent, ContentHandler, ContentManager, ContentMessageType, ContentOptions,
+  StoredContent } from './lib/content-manager';
+export { ContentStorage } from './lib/content-storage';
+export { ContextStorage } from './lib/context-storage';
+export { ConfirmPrompt, Dialog, DialogDefinition, DialogInput, DialogPrompt, DialogStep, DialogValidator, DialogValues,
+  QuickReplyPrompt, TextPrompt } from './lib/dialog';
+export { DialogManager, DialogOptions, DialogState } from './lib/dialog-manager';
+export { EventContext } from './lib/event-context';
+export { DeduplicationOptions, EventDeduplicator, RedeliveryAction } from './lib/event-deduplicator';
+export { EventErrorMiddleware, EventMiddleware, EventNext, EventPipeline } from './lib/event-pipeline';
+export { EventErrorHandler, EventHandler, EventRouter } from './lib/event-router';
+export * from './lib/event-types';
+export { FileContentStorage } from './lib/file-content-storage';
+export { FileStore } from './lib/file-store';
+export { Flex, FlexOptions } from './lib/flex';
+export { FlexBlock, FlexBubbleBuilder } from './lib/flex-bubble-builder';
+export { FlexCarouselBuilder } from './lib/flex-carousel-builder';
+export { HealthCheck, HealthCheckResult, HealthOptions, HealthReport, HealthStatus } from './lib/health-check';
+export { ImagemapBuilder } from './lib/imagemap-builder';
+export { Job, JobQueue, JobQueueOptions, JobWorker } from './lib/job-queue';
+export { JsonLogger } from './lib/json-logger';
+export { LINEBotInfo, LINEClient, LINEClientConfig, LINEClientHook, LINEClientMethod,
+  LINEClientRequest } from './lib/line-client';
+export { LogFields, Logger, LogLevel } from './lib/logger';
+export { MemoryStore } from './lib/memory-store';
+export { MessageBuilder } from './lib/message-builder';
+export { MessageValidator } from './lib/message-validator';
+export { Messages } from './lib/messages';
+export { MetricLabels, Metrics, MetricType } from './lib/metrics';
+export { OutboundResult, OutboundSender, OutboundSenderOptions } from './lib/outbound-sender';
+export { DatetimePickerOptions, Postback, PostbackActionOptions, PostbackData } from './lib/postback';
+export { PostbackHandler, PostbackMatch, PostbackRouter } from './lib/postback-router';
+export { ProfileManager, ProfileOptions } from './lib/profile-manager';
+export { QuickReplyBuilder } from './lib/quick-reply-builder';
+export { Responder, ResponderOptions } from './lib/responder';
+export { RichMenuDefinition, RichMenuManager, RichMenuOptions, RichMenuSyncResult } from './lib/rich-menu-manager';
+export { RsaJwk, RsaKey } from './lib/rsa-key';
+export { Session, SessionData } from './lib/session';
+export { SessionManager, SessionOptions } from './lib/session-manager';
+export { Store } from './lib/store';
+export { CommandOptions, TextEvent, TextHandler, TextMatch, TextMatcher, TextMatcherOptions } from './lib/text-matcher';
+export { LoggingLevel, LoggingOptions, TraceLogger } from './lib/trace-logger';
+export { WebhookEventOptions, WebhookEvents } from './lib/webhook-events';
+export { SimulatedCall, SimulatorOptions, SimulatorResult, WebhookSimulator } from './lib/webhook-simulator';
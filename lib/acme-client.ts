@@ -0,0 +1,312 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as https from 'https';
+import * as pem from 'pem';
+import * as url from 'url';
+import { RsaJwk, RsaKey } from './rsa-key';
+
+export interface AcmeClientOptions {
+  directoryURL: string;
+  accountKey: string | Buffer;
+  email?: string;
+  pollInterval?: number;
+  pollTimeout?: number;
+}
+
+export interface AcmeDirectory {
+  newNonce: string;
+  newAccount: string;
+  newOrder: string;
+  [name: string]: any;
+}
+
+interface AcmeResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export class AcmeClient extends EventEmitter {
+  public static challengePath = '/.well-known/acme-challenge/';
+  public static letsEncryptDirectoryURL = 'https://acme-v02.api.letsencrypt.org/directory';
+  public static letsEncryptStagingDirectoryURL = 'https://acme-staging-v02.api.letsencrypt.org/directory';
+
+  public static base64url(value: string | Buffer) {
+    return (Buffer.isBuffer(value) ? value : new Buffer(value)).toString('base64')
+      .replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  }
+
+  public static generateKey() {
+    return RsaKey.generate();
+  }
+
+  public static getJwk(key: string | Buffer) {
+    return RsaKey.toJwk(key);
+  }
+
+  public static getThumbprint(jwk: RsaJwk) {
+    const json = JSON.stringify({ e: jwk.e, kty: jwk.kty, n: jwk.n });
+
+    return AcmeClient.base64url(crypto.createHash('sha256').update(json).digest());
+  }
+
+  public static createCSR(domains: string[], key: string | Buffer) {
+    return new Promise<string>((resolve, reject) => {
+      pem.createCSR({ altNames: domains, clientKey: key.toString(), commonName: domains[0] }, (err, result) => {
+        if (err) {
+          return reject(err);
+        }
+
+        const der = result.csr.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+
+        resolve(AcmeClient.base64url(new Buffer(der, 'base64')));
+      });
+    });
+  }
+
+  public options: AcmeClientOptions;
+  public jwk: RsaJwk;
+  public accountURL?: string;
+  public challenges: { [token: string]: string } = {};
+  private directory?: AcmeDirectory;
+  private nonce?: string;
+
+  constructor(options: AcmeClientOptions) {
+    super();
+
+    if (!options.directoryURL) {
+      throw new Error('Missing options.directoryURL\nPlease set ACME_DIRECTORY_URL environment variable.');
+    }
+
+    if (!options.accountKey) {
+      throw new Error('Missing options.accountKey\nPlease set ACME_ACCOUNT_KEY environment variable.');
+    }
+
+    const accountKey = options.accountKey;
+    const isKey = Buffer.isBuffer(accountKey) || /-----BEGIN /.test(accountKey);
+
+    this.options = Object.assign({}, options, { accountKey: isKey ? accountKey : fs.readFileSync(accountKey) });
+    this.jwk = AcmeClient.getJwk(this.options.accountKey);
+  }
+
+  public get thumbprint() {
+    return AcmeClient.getThumbprint(this.jwk);
+  }
+
+  public getKeyAuthorization(token: string) {
+    return token + '.' + this.thumbprint;
+  }
+
+  public challengeHandler() {
+    return (req: http.IncomingMessage, res: http.ServerResponse, next?: () => void) => {
+      const pathname = url.parse(req.url || '').pathname || '';
+      const token = pathname.indexOf(AcmeClient.challengePath) === 0
+        ? pathname.substr(AcmeClient.challengePath.length)
+        : undefined;
+
+      if (token && this.challenges[token]) {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        return res.end(this.challenges[token]);
+      }
+
+      if (next) {
+        return next();
+      }
+
+      res.writeHead(404);
+      res.end();
+    };
+  }
+
+  public async obtainCertificate(domains: string[], certificateKey: string | Buffer) {
+    const accountURL = await this.register();
+    const order = await this.signedRequest((await this.getDirectory()).newOrder, {
+      identifiers: domains.map((value) => ({ type: 'dns', value }))
+    }, accountURL);
+    const orderURL = order.headers.location as string;
+
+    for (const authorizationURL of order.body.authorizations as string[]) {
+      await this.authorize(authorizationURL, accountURL);
+    }
+
+    await this.signedRequest(order.body.finalize, { csr: await AcmeClient.createCSR(domains, certificateKey) },
+      accountURL);
+
+    const finalized = await this.poll(orderURL, accountURL, ['valid'], ['invalid']);
+    const certificate = await this.signedRequest(finalized.certificate, undefined, accountURL);
+
+    this.emit('certificate', domains);
+
+    return certificate.body as string;
+  }
+
+  public async register() {
+    if (this.accountURL) {
+      return this.accountURL;
+    }
+
+    const directory = await this.getDirectory();
+    const response = await this.signedRequest(directory.newAccount, {
+      contact: this.options.email ? ['mailto:' + this.options.email] : undefined,
+      termsOfServiceAgreed: true
+    });
+
+    this.accountURL = response.headers.location as string;
+
+    return this.accountURL;
+  }
+
+  public async getDirectory() {
+    if (!this.directory) {
+      this.directory = (await this.request('GET', this.options.directoryURL)).body as AcmeDirectory;
+    }
+
+    return this.directory;
+  }
+
+  private async authorize(authorizationURL: string, accountURL: string) {
+    const authorization = (await this.signedRequest(authorizationURL, undefined, accountURL)).body;
+
+    if (authorization.status === 'valid') {
+      return;
+    }
+
+    const challenge = (authorization.challenges as Array<{ type: string, url: string, token: string }>)
+      .find((item) => item.type === 'http-01');
+
+    if (!challenge) {
+      throw new Error('Cannot authorize ' + authorization.identifier.value + '\nThe ACME server offered no http-01 ' +
+        'challenge.');
+    }
+
+    this.challenges[challenge.token] = this.getKeyAuthorization(challenge.token);
+
+    try {
+      await this.signedRequest(challenge.url, {}, accountURL);
+      await this.poll(authorizationURL, accountURL, ['valid'], ['invalid', 'deactivated', 'expired', 'revoked']);
+    } finally {
+      delete this.challenges[challenge.token];
+    }
+  }
+
+  private async poll(target: string, accountURL: string, done: string[], failed: string[]) {
+    const interval = this.options.pollInterval !== undefined ? this.options.pollInterval : 1000;
+    const deadline = Date.now() + (this.options.pollTimeout || 60000);
+
+    while (true) {
+      const body = (await this.signedRequest(target, undefined, accountURL)).body;
+
+      if (done.indexOf(body.status) >= 0) {
+        return body;
+      }
+
+      if (failed.indexOf(body.status) >= 0) {
+        throw new Error('ACME request failed for ' + target + ' (' + body.status + ')' +
+          (body.error ? '\n' + (body.error.detail || body.error.type) : ''));
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error('ACME request timed out for ' + target);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  private async getNonce() {
+    if (this.nonce) {
+      const nonce = this.nonce;
+
+      this.nonce = undefined;
+      return nonce;
+    }
+
+    const directory = await this.getDirectory();
+
+    const response = await this.request('HEAD', directory.newNonce);
+
+    this.nonce = undefined;
+    return response.headers['replay-nonce'] as string;
+  }
+
+  private async signedRequest(target: string, payload?: object, accountURL?: string,
+                              retried: boolean = false): Promise<AcmeResponse> {
+    const header = accountURL
+      ? { alg: 'RS256', kid: accountURL, nonce: await this.getNonce(), url: target }
+      : { alg: 'RS256', jwk: this.jwk, nonce: await this.getNonce(), url: target };
+    const encodedHeader = AcmeClient.base64url(JSON.stringify(header));
+    const encodedPayload = payload === undefined ? '' : AcmeClient.base64url(JSON.stringify(payload));
+    const signature = crypto.createSign('RSA-SHA256').update(encodedHeader + '.' + encodedPayload)
+      .sign(this.options.accountKey.toString());
+
+    try {
+      return await this.request('POST', target, JSON.stringify({
+        payload: encodedPayload,
+        protected: encodedHeader,
+        signature: AcmeClient.base64url(signature)
+      }));
+    } catch (err) {
+      if (!retried && err.type === 'urn:ietf:params:acme:error:badNonce') {
+        return this.signedRequest(target, payload, accountURL, true);
+      }
+
+      throw err;
+    }
+  }
+
+  private request(method: string, target: string, body?: string) {
+    const parsed = url.parse(target);
+    const send = parsed.protocol === 'http:' ? http.request : https.request as typeof http.request;
+
+    return new Promise<AcmeResponse>((resolve, reject) => {
+      const request = send({
+        headers: body ? {
+          'Content-Length': Buffer.byteLength(body),
+          'Content-Type': 'application/jose+json'
+        } : {},
+        hostname: parsed.hostname,
+        method,
+        path: parsed.path,
+        port: parsed.port
+      }, (res) => {
+        const chunks: Buffer[] = [];
+
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString();
+          const json = /json/.test(res.headers['content-type'] || '');
+          const response: AcmeResponse = {
+            body: text,
+            headers: res.headers,
+            status: res.statusCode || 0
+          };
+
+          if (res.headers['replay-nonce']) {
+            this.nonce = res.headers['replay-nonce'] as string;
+          }
+
+          try {
+            response.body = json && text ? JSON.parse(text) : text;
+          } catch (err) {
+            if (response.status < 400) {
+              return reject(new Error('Invalid ACME response from ' + target + '\n' + text));
+            }
+          }
+
+          if (response.status >= 400) {
+            return reject(Object.assign(new Error('ACME request failed for ' + target + ' (' + response.status + ')\n' +
+              (response.body.detail || response.body.type || text)), { type: response.body.type as string }));
+          }
+
+          resolve(response);
+        });
+      });
+
+      request.once('error', reject);
+      request.end(body);
+    });
+  }
+
+}
@@ -0,0 +1,374 @@
+import * as crypto from 'crypto';
+import * as express from 'express';
+import { Express, NextFunction, Request, Response } from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as pem from 'pem';
+import * as url from 'url';
+import { AcmeClient } from './acme-client';
+import { RsaKey } from './rsa-key';
+
+export interface AcmeEmulatorOptions {
+  challengeBaseURL?: string;
+  certificateDays?: number;
+}
+
+interface AcmeJwk {
+  e: string;
+  kty: string;
+  n: string;
+}
+
+interface AcmeEmulatorAccount {
+  id: number;
+  jwk: AcmeJwk;
+}
+
+interface AcmeEmulatorAuthorization {
+  id: number;
+  account: number;
+  domain: string;
+  status: string;
+  token: string;
+}
+
+interface AcmeEmulatorOrder {
+  id: number;
+  account: number;
+  domains: string[];
+  authorizations: number[];
+  status: string;
+  certificate?: string;
+}
+
+export class AcmeEmulator {
+  public static errorPrefix = 'urn:ietf:params:acme:error:';
+
+  public app: Express;
+  public server?: http.Server;
+  public accounts: AcmeEmulatorAccount[] = [];
+  public authorizations: AcmeEmulatorAuthorization[] = [];
+  public orders: AcmeEmulatorOrder[] = [];
+  public validations: Array<{ domain: string, token: string, valid: boolean }> = [];
+  private nonces: string[] = [];
+  private caKey: string;
+  private caCert?: Promise<string>;
+
+  constructor(public options: AcmeEmulatorOptions = {}) {
+    this.caKey = AcmeClient.generateKey();
+    this.app = express();
+    this.app.use(express.json({ type: ['application/jose+json', 'application/json'] }));
+    this.route();
+  }
+
+  public get baseURL() {
+    if (!this.server) {
+      throw new Error('AcmeEmulator is not started\nPlease call start() first.');
+    }
+
+    return 'http://127.0.0.1:' + (this.server.address() as AddressInfo).port;
+  }
+
+  public get directoryURL() {
+    return this.baseURL + '/directory';
+  }
+
+  public start(port: number = 0) {
+    return new Promise<string>((resolve, reject) => {
+      const server = http.createServer(this.app);
+
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        this.server = server;
+        resolve(this.directoryURL);
+      });
+    });
+  }
+
+  public stop() {
+    return new Promise<void>((resolve, reject) => {
+      if (!this.server) {
+        return resolve();
+      }
+
+      this.server.close((err?: Error) => err ? reject(err) : resolve());
+      this.server = undefined;
+    });
+  }
+
+  private nonce() {
+    const nonce = AcmeClient.base64url(crypto.randomBytes(16));
+
+    this.nonces.push(nonce);
+    return nonce;
+  }
+
+  private problem(res: Response, status: number, type: string, detail: string) {
+    res.status(status).type('application/problem+json').send(JSON.stringify({
+      detail,
+      status,
+      type: AcmeEmulator.errorPrefix + type
+    }));
+  }
+
+  private verify(req: Request, res: Response, next: NextFunction) {
+    const body = req.body || {};
+    let header: any;
+    let payload: any;
+
+    res.setHeader('Replay-Nonce', this.nonce());
+
+    try {
+      header = JSON.parse(new Buffer(body.protected, 'base64').toString());
+      payload = body.payload ? JSON.parse(new Buffer(body.payload, 'base64').toString()) : undefined;
+    } catch (err) {
+      return this.problem(res, 400, 'malformed', 'Request is not a valid JWS');
+    }
+
+    const nonceIndex = this.nonces.indexOf(header.nonce);
+
+    if (nonceIndex < 0) {
+      return this.problem(res, 400, 'badNonce', 'Nonce is invalid or already used');
+    }
+
+    this.nonces.splice(nonceIndex, 1);
+
+    if (header.url !== this.baseURL + req.originalUrl) {
+      return this.problem(res, 401, 'unauthorized', 'JWS url does not match the request URL');
+    }
+
+    const account = header.kid
+      ? this.accounts.find((item) => this.baseURL + '/account/' + item.id === header.kid)
+      : undefined;
+    const jwk: AcmeJwk | undefined = header.jwk || (account && account.jwk);
+
+    if (!jwk) {
+      return this.problem(res, 400, 'accountDoesNotExist', 'Account does not exist');
+    }
+
+    const key = RsaKey.fromJwk(jwk);
+    const signed = body.protected + '.' + (body.payload || '');
+    const signature = new Buffer(body.signature, 'base64');
+
+    if (!crypto.createVerify('RSA-SHA256').update(signed).verify(key, signature)) {
+      return this.problem(res, 401, 'unauthorized', 'JWS signature is invalid');
+    }
+
+    res.locals.jwk = jwk;
+    res.locals.account = account;
+    res.locals.payload = payload;
+    next();
+  }
+
+  private authorizationBody(authorization: AcmeEmulatorAuthorization) {
+    const settled = authorization.status === 'valid' || authorization.status === 'invalid';
+
+    return {
+      challenges: [{
+        status: settled ? authorization.status : 'pending',
+        token: authorization.token,
+        type: 'http-01',
+        url: this.baseURL + '/chall/' + authorization.id
+      }],
+      identifier: { type: 'dns', value: authorization.domain },
+      status: authorization.status
+    };
+  }
+
+  private orderBody(order: AcmeEmulatorOrder) {
+    return {
+      authorizations: order.authorizations.map((id) => this.baseURL + '/authz/' + id),
+      certificate: order.certificate ? this.baseURL + '/cert/' + order.id : undefined,
+      finalize: this.baseURL + '/finalize/' + order.id,
+      identifiers: order.domains.map((value) => ({ type: 'dns', value })),
+      status: order.status
+    };
+  }
+
+  private validate(authorization: AcmeEmulatorAuthorization, jwk: AcmeJwk) {
+    const base = this.options.challengeBaseURL || 'http://' + authorization.domain;
+    const target = url.parse(base.replace(/\/$/, '') + AcmeClient.challengePath + authorization.token);
+    const expected = authorization.token + '.' + AcmeClient.getThumbprint(jwk);
+
+    authorization.status = 'processing';
+
+    const finish = (valid: boolean) => {
+      authorization.status = valid ? 'valid' : 'invalid';
+      this.validations.push({ domain: authorization.domain, token: authorization.token, valid });
+      this.orders.filter((order) => order.authorizations.indexOf(authorization.id) >= 0).forEach((order) => {
+        const statuses = order.authorizations.map((id) => this.authorizations[id - 1].status);
+
+        if (statuses.indexOf('invalid') >= 0) {
+          order.status = 'invalid';
+        } else if (statuses.every((status) => status === 'valid')) {
+          order.status = 'ready';
+        }
+      });
+    };
+
+    http.get({ hostname: target.hostname, path: target.path, port: target.port }, (res) => {
+      const chunks: Buffer[] = [];
+
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => finish(res.statusCode === 200 && Buffer.concat(chunks).toString().trim() === expected));
+    }).once('error', () => finish(false));
+  }
+
+  private getCACertificate() {
+    if (!this.caCert) {
+      this.caCert = new Promise<string>((resolve, reject) => {
+        pem.createCSR({ clientKey: this.caKey, commonName: 'AcmeEmulator CA' }, (csrErr, result) => {
+          if (csrErr) {
+            return reject(csrErr);
+          }
+
+          pem.createCertificate({ csr: result.csr, days: 3650, selfSigned: true, serviceKey: this.caKey },
+            (err, keys) => err ? reject(err) : resolve(keys.certificate));
+        });
+      });
+    }
+
+    return this.caCert;
+  }
+
+  private async sign(csr: string) {
+    const der = new Buffer(csr, 'base64');
+    const csrPem = '-----BEGIN CERTIFICATE REQUEST-----\n' +
+      (der.toString('base64').match(/.{1,64}/g) as string[]).join('\n') + '\n-----END CERTIFICATE REQUEST-----\n';
+    const caCert = await this.getCACertificate();
+
+    return new Promise<string>((resolve, reject) => {
+      pem.createCertificate({
+        csr: csrPem,
+        days: this.options.certificateDays || 90,
+        serviceCertificate: caCert,
+        serviceKey: this.caKey
+      }, (err, result) => err ? reject(err) : resolve(result.certificate + '\n' + caCert));
+    });
+  }
+
+  private route() {
+    const verify = (req: Request, res: Response, next: NextFunction) => this.verify(req, res, next);
+    const notFound = (res: Response) => this.problem(res, 404, 'malformed', 'Resource not found');
+
+    this.app.get('/directory', (req, res) => {
+      res.json({
+        newAccount: this.baseURL + '/new-account',
+        newNonce: this.baseURL + '/new-nonce',
+        newOrder: this.baseURL + '/new-order'
+      });
+    });
+
+    this.app.get('/new-nonce', (req, res) => {
+      res.setHeader('Replay-Nonce', this.nonce());
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).end();
+    });
+
+    this.app.post('/new-account', verify, (req, res) => {
+      const jwk = res.locals.jwk as AcmeJwk;
+      const thumbprint = AcmeClient.getThumbprint(jwk);
+      let account = this.accounts.find((item) => AcmeClient.getThumbprint(item.jwk) === thumbprint);
+      const created = !account;
+
+      if (!account) {
+        account = { id: this.accounts.length + 1, jwk };
+        this.accounts.push(account);
+      }
+
+      res.setHeader('Location', this.baseURL + '/account/' + account.id);
+      res.status(created ? 201 : 200).json({ status: 'valid' });
+    });
+
+    this.app.post('/new-order', verify, (req, res) => {
+      const account = res.locals.account as AcmeEmulatorAccount | undefined;
+      const identifiers = ((res.locals.payload || {}).identifiers || []) as Array<{ value: string }>;
+
+      if (!account || !identifiers.length) {
+        return this.problem(res, 400, 'malformed', 'Order must have an account and identifiers');
+      }
+
+      const order: AcmeEmulatorOrder = {
+        account: account.id,
+        authorizations: identifiers.map((identifier) => {
+          const authorization = {
+            account: account.id,
+            domain: identifier.value,
+            id: this.authorizations.length + 1,
+            status: 'pending',
+            token: AcmeClient.base64url(crypto.randomBytes(16))
+          };
+
+          this.authorizations.push(authorization);
+          return authorization.id;
+        }),
+        domains: identifiers.map((identifier) => identifier.value),
+        id: this.orders.length + 1,
+        status: 'pending'
+      };
+
+      this.orders.push(order);
+      res.setHeader('Location', this.baseURL + '/order/' + order.id);
+      res.status(201).json(this.orderBody(order));
+    });
+
+    this.app.post('/authz/:id', verify, (req, res) => {
+      const authorization = this.authorizations[Number(req.params.id) - 1];
+
+      return authorization ? res.json(this.authorizationBody(authorization)) : notFound(res);
+    });
+
+    this.app.post('/chall/:id', verify, (req, res) => {
+      const authorization = this.authorizations[Number(req.params.id) - 1];
+
+      if (!authorization) {
+        return notFound(res);
+      }
+
+      if (authorization.status === 'pending') {
+        this.validate(authorization, res.locals.jwk);
+      }
+
+      res.json(this.authorizationBody(authorization).challenges[0]);
+    });
+
+    this.app.post('/order/:id', verify, (req, res) => {
+      const order = this.orders[Number(req.params.id) - 1];
+
+      return order ? res.json(this.orderBody(order)) : notFound(res);
+    });
+
+    this.app.post('/finalize/:id', verify, (req, res) => {
+      const order = this.orders[Number(req.params.id) - 1];
+
+      if (!order) {
+        return notFound(res);
+      }
+
+      if (order.status !== 'ready') {
+        return this.problem(res, 403, 'orderNotReady', 'Order is ' + order.status);
+      }
+
+      order.status = 'processing';
+      this.sign((res.locals.payload || {}).csr).then((certificate) => {
+        order.certificate = certificate;
+        order.status = 'valid';
+        res.json(this.orderBody(order));
+      }, (err) => {
+        order.status = 'invalid';
+        this.problem(res, 400, 'badCSR', err.message);
+      });
+    });
+
+    this.app.post('/cert/:id', verify, (req, res) => {
+      const order = this.orders[Number(req.params.id) - 1];
+
+      if (!order || !order.certificate) {
+        return notFound(res);
+      }
+
+      res.type('application/pem-certificate-chain').send(order.certificate);
+    });
+  }
+
+}
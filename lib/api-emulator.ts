@@ -0,0 +1,449 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as express from 'express';
+import { Express, NextFunction, Request, Response } from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LINEBotInfo } from './line-client';
+
+export interface ApiCall {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  status: number;
+  timestamp: number;
+}
+
+export interface ApiFailure {
+  method?: string;
+  path?: string | RegExp;
+  status: number;
+  body?: any;
+  times: number;
+}
+
+export interface ApiContent {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ApiEmulatorOptions {
+  channelAccessToken?: string;
+}
+
+export interface ApiIssuedToken {
+  channelId: string;
+  expiresAt: number;
+  keyId?: string;
+  revoked: boolean;
+}
+
+export class ApiEmulator {
+  public static basePath = '/v2/bot/';
+
+  public app: Express;
+  public server?: http.Server;
+  public calls: ApiCall[] = [];
+  public profiles: { [userId: string]: LINEBot.Profile } = {};
+  public members: { [groupOrRoomId: string]: string[] } = {};
+  public contents: { [messageId: string]: ApiContent } = {};
+  public richMenus: { [richMenuId: string]: LINEBot.RichMenuResponse } = {};
+  public richMenuImages: { [richMenuId: string]: ApiContent } = {};
+  public userRichMenus: { [userId: string]: string } = {};
+  public defaultRichMenuId?: string;
+  public usedReplyTokens: string[] = [];
+  public issuedTokens: { [accessToken: string]: ApiIssuedToken } = {};
+  public botInfo: LINEBotInfo = {
+    basicId: '@emulator',
+    chatMode: 'bot',
+    displayName: 'Emulator',
+    markAsReadMode: 'manual',
+    userId: 'Uemulator'
+  };
+  private failures: ApiFailure[] = [];
+  private lastRichMenuId = 0;
+  private lastTokenId = 0;
+
+  constructor(public options: ApiEmulatorOptions = {}) {
+    this.app = express();
+    this.app.use((req, res, next) => this.record(req, res, next));
+    this.app.use((req, res, next) => this.authorize(req, res, next));
+    this.app.use((req, res, next) => this.injectFailure(req, res, next));
+    this.app.use(express.json());
+    this.app.use(express.urlencoded({ extended: false }));
+    this.routeOAuth();
+    this.route();
+  }
+
+  public get baseURL() {
+    if (!this.server) {
+      throw new Error('ApiEmulator is not started\nPlease call start() first.');
+    }
+
+    return 'http://127.0.0.1:' + (this.server.address() as AddressInfo).port + ApiEmulator.basePath;
+  }
+
+  public get oauthBaseURL() {
+    return this.baseURL.substr(0, this.baseURL.length - ApiEmulator.basePath.length) + '/';
+  }
+
+  public start(port: number = 0) {
+    return new Promise<string>((resolve, reject) => {
+      const server = http.createServer(this.app);
+
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        this.server = server;
+        resolve(this.baseURL);
+      });
+    });
+  }
+
+  public stop() {
+    return new Promise<void>((resolve, reject) => {
+      if (!this.server) {
+        return resolve();
+      }
+
+      this.server.close((err?: Error) => err ? reject(err) : resolve());
+      this.server = undefined;
+    });
+  }
+
+  public reset() {
+    this.calls = [];
+    this.failures = [];
+    this.usedReplyTokens = [];
+  }
+
+  public fail(failure: Partial<ApiFailure> & { status: number }) {
+    this.failures.push(Object.assign({ times: 1 }, failure));
+    return this;
+  }
+
+  public setProfile(profile: LINEBot.Profile) {
+    this.profiles[profile.userId] = profile;
+    return this;
+  }
+
+  public setMembers(groupOrRoomId: string, userIds: string[]) {
+    this.members[groupOrRoomId] = userIds;
+    return this;
+  }
+
+  public setContent(messageId: string, data: Buffer, contentType: string = 'application/octet-stream') {
+    this.contents[messageId] = { contentType, data };
+    return this;
+  }
+
+  public callsTo(path: string | RegExp, method?: string) {
+    return this.calls.filter((call) => {
+      const pathMatched = typeof path === 'string' ? call.path === path : path.test(call.path);
+
+      return pathMatched && (!method || call.method === method.toUpperCase());
+    });
+  }
+
+  public get replies() {
+    return this.callsTo('message/reply', 'POST').map((call) => call.body as { replyToken: string, messages: any[] });
+  }
+
+  public get pushes() {
+    return this.callsTo('message/push', 'POST').map((call) => call.body as { to: string, messages: any[] });
+  }
+
+  public get multicasts() {
+    return this.callsTo('message/multicast', 'POST').map((call) => call.body as { to: string[], messages: any[] });
+  }
+
+  private getPath(req: Request) {
+    return req.path.indexOf(ApiEmulator.basePath) === 0 ? req.path.substr(ApiEmulator.basePath.length) : req.path;
+  }
+
+  private record(req: Request, res: Response, next: NextFunction) {
+    const call: ApiCall = {
+      body: undefined,
+      headers: req.headers,
+      method: req.method,
+      path: this.getPath(req),
+      status: 0,
+      timestamp: Date.now()
+    };
+
+    this.calls.push(call);
+    res.on('finish', () => {
+      call.body = req.body;
+      call.status = res.statusCode;
+    });
+    next();
+  }
+
+  private authorize(req: Request, res: Response, next: NextFunction) {
+    const authorization = req.headers.authorization || '';
+    const token = authorization.replace(/^Bearer /, '');
+    const issued = this.issuedTokens[token];
+
+    if (/^\/(v2\/oauth|oauth2)\//.test(req.path)) {
+      return next();
+    }
+
+    if (issued ? issued.revoked || issued.expiresAt <= Date.now()
+      : !token || (this.options.channelAccessToken && token !== this.options.channelAccessToken)) {
+      return res.status(401).json({ message: 'Authentication failed due to the following reason: invalid token.' });
+    }
+
+    next();
+  }
+
+  private injectFailure(req: Request, res: Response, next: NextFunction) {
+    const path = this.getPath(req);
+    const failure = this.failures.find((item) => {
+      const pathMatched = !item.path || (typeof item.path === 'string' ? item.path === path : item.path.test(path));
+
+      return pathMatched && (!item.method || item.method.toUpperCase() === req.method);
+    });
+
+    if (!failure) {
+      return next();
+    }
+
+    if (--failure.times <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1);
+    }
+
+    res.status(failure.status).json(failure.body || { message: 'Emulated failure' });
+  }
+
+  private readBinary(req: Request) {
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  private profile(userId: string): LINEBot.Profile {
+    return this.profiles[userId] || {
+      displayName: 'User ' + userId,
+      pictureUrl: 'https://profile.line-scdn.net/' + userId,
+      statusMessage: '',
+      userId
+    };
+  }
+
+  private issueToken(channelId: string, expiresIn: number, keyId?: string) {
+    const accessToken = 'emulated-token-' + (++this.lastTokenId);
+
+    this.issuedTokens[accessToken] = { channelId, expiresAt: Date.now() + expiresIn * 1000, keyId, revoked: false };
+
+    return { access_token: accessToken, expires_in: expiresIn, key_id: keyId, token_type: 'Bearer' };
+  }
+
+  private revokeToken(accessToken: string) {
+    if (this.issuedTokens[accessToken]) {
+      this.issuedTokens[accessToken].revoked = true;
+    }
+  }
+
+  private routeOAuth() {
+    const invalidRequest = (res: Response) => res.status(400).json({ error: 'invalid_request' });
+
+    this.app.post('/v2/oauth/accessToken', (req, res) => {
+      const body = req.body || {};
+
+      if (body.grant_type !== 'client_credentials' || !body.client_id || !body.client_secret) {
+        return invalidRequest(res);
+      }
+
+      res.json(this.issueToken(body.client_id, 30 * 24 * 60 * 60));
+    });
+
+    this.app.post('/v2/oauth/revoke', (req, res) => {
+      this.revokeToken((req.body || {}).access_token);
+      res.end();
+    });
+
+    this.app.post('/oauth2/v2.1/token', (req, res) => {
+      const body = req.body || {};
+      const parts = String(body.client_assertion || '').split('.');
+      let header: any;
+      let payload: any;
+
+      try {
+        header = JSON.parse(new Buffer(parts[0], 'base64').toString());
+        payload = JSON.parse(new Buffer(parts[1], 'base64').toString());
+      } catch (err) {
+        return invalidRequest(res);
+      }
+
+      if (body.grant_type !== 'client_credentials' || parts.length !== 3 || !payload.iss) {
+        return invalidRequest(res);
+      }
+
+      res.json(this.issueToken(payload.iss, payload.token_exp || 30 * 24 * 60 * 60, header.kid));
+    });
+
+    this.app.post('/oauth2/v2.1/revoke', (req, res) => {
+      this.revokeToken((req.body || {}).access_token);
+      res.end();
+    });
+  }
+
+  private route() {
+    const router = express.Router();
+    const notFound = (res: Response) => res.status(404).json({ message: 'Not found' });
+
+    router.post('/message/reply', (req, res) => {
+      const body = req.body || {};
+
+      if (!body.replyToken || !Array.isArray(body.messages)) {
+        return res.status(400).json({ message: 'The request body has 1 error(s)' });
+      }
+
+      if (this.usedReplyTokens.indexOf(body.replyToken) >= 0) {
+        return res.status(400).json({ message: 'Invalid reply token' });
+      }
+
+      this.usedReplyTokens.push(body.replyToken);
+      res.json({});
+    });
+
+    router.post('/message/push', (req, res) => {
+      const body = req.body || {};
+
+      if (!body.to || !Array.isArray(body.messages)) {
+        return res.status(400).json({ message: 'The request body has 1 error(s)' });
+      }
+
+      res.json({});
+    });
+
+    router.post('/message/multicast', (req, res) => {
+      const body = req.body || {};
+
+      if (!Array.isArray(body.to) || !Array.isArray(body.messages)) {
+        return res.status(400).json({ message: 'The request body has 1 error(s)' });
+      }
+
+      res.json({});
+    });
+
+    router.get('/message/:messageId/content', (req, res) => {
+      const content = this.contents[req.params.messageId];
+
+      if (!content) {
+        return notFound(res);
+      }
+
+      res.type(content.contentType).send(content.data);
+    });
+
+    router.get('/info', (req, res) => res.json(this.botInfo));
+
+    router.get('/profile/:userId', (req, res) => res.json(this.profile(req.params.userId)));
+
+    router.get('/:type(group|room)/:id/member/:userId', (req, res) => {
+      const members = this.members[req.params.id];
+
+      if (members && members.indexOf(req.params.userId) < 0) {
+        return notFound(res);
+      }
+
+      res.json(this.profile(req.params.userId));
+    });
+
+    router.get('/:type(group|room)/:id/members/ids', (req, res) => {
+      res.json({ memberIds: this.members[req.params.id] || [] });
+    });
+
+    router.post('/:type(group|room)/:id/leave', (req, res) => res.json({}));
+
+    router.post('/richmenu', (req, res) => {
+      const richMenuId = 'richmenu-' + (++this.lastRichMenuId);
+
+      this.richMenus[richMenuId] = Object.assign({}, req.body, { richMenuId });
+      res.json({ richMenuId });
+    });
+
+    router.get('/richmenu/list', (req, res) => {
+      res.json({ richmenus: Object.keys(this.richMenus).map((richMenuId) => this.richMenus[richMenuId]) });
+    });
+
+    router.get('/richmenu/:richMenuId', (req, res) => {
+      const richMenu = this.richMenus[req.params.richMenuId];
+
+      return richMenu ? res.json(richMenu) : notFound(res);
+    });
+
+    router.delete('/richmenu/:richMenuId', (req, res) => {
+      if (!this.richMenus[req.params.richMenuId]) {
+        return notFound(res);
+      }
+
+      delete this.richMenus[req.params.richMenuId];
+      delete this.richMenuImages[req.params.richMenuId];
+      res.json({});
+    });
+
+    router.post('/richmenu/:richMenuId/content', (req, res, next) => {
+      if (!this.richMenus[req.params.richMenuId]) {
+        return notFound(res);
+      }
+
+      this.readBinary(req).then((data) => {
+        this.richMenuImages[req.params.richMenuId] = { contentType: req.headers['content-type'] || '', data };
+        res.json({});
+      }, next);
+    });
+
+    router.get('/richmenu/:richMenuId/content', (req, res) => {
+      const image = this.richMenuImages[req.params.richMenuId];
+
+      return image ? res.type(image.contentType).send(image.data) : notFound(res);
+    });
+
+    router.get('/user/all/richmenu', (req, res) => {
+      return this.defaultRichMenuId ? res.json({ richMenuId: this.defaultRichMenuId }) : notFound(res);
+    });
+
+    router.post('/user/all/richmenu/:richMenuId', (req, res) => {
+      if (!this.richMenus[req.params.richMenuId]) {
+        return notFound(res);
+      }
+
+      this.defaultRichMenuId = req.params.richMenuId;
+      res.json({});
+    });
+
+    router.delete('/user/all/richmenu', (req, res) => {
+      this.defaultRichMenuId = undefined;
+      res.json({});
+    });
+
+    router.get('/user/:userId/richmenu', (req, res) => {
+      const richMenuId = this.userRichMenus[req.params.userId];
+
+      return richMenuId ? res.json({ richMenuId }) : notFound(res);
+    });
+
+    router.post('/user/:userId/richmenu/:richMenuId', (req, res) => {
+      if (!this.richMenus[req.params.richMenuId]) {
+        return notFound(res);
+      }
+
+      this.userRichMenus[req.params.userId] = req.params.richMenuId;
+      res.json({});
+    });
+
+    router.delete('/user/:userId/richmenu', (req, res) => {
+      delete this.userRichMenus[req.params.userId];
+      res.json({});
+    });
+
+    this.app.use(ApiEmulator.basePath.replace(/\/$/, ''), router);
+    this.app.use((req, res) => notFound(res));
+  }
+
+}
@@ -1,7 +1,64 @@
 import { ClientConfig } from '@line/bot-sdk';
+import * as http from 'http';
+import * as https from 'https';
+import { AcmeClientOptions } from './acme-client';
+import { ChannelOptions } from './channel';
+import { ChannelTokenOptions } from './channel-token-manager';
+import { ContentOptions } from './content-manager';
+import { DeduplicationOptions } from './event-deduplicator';
+import { BotEvent } from './event-types';
+import { JobQueueOptions } from './job-queue';
+import { LogFields } from './logger';
+import { OutboundSenderOptions } from './outbound-sender';
+import { ProfileOptions } from './profile-manager';
+import { RichMenuOptions } from './rich-menu-manager';
+import { LoggingOptions } from './trace-logger';
+
+export type BotServerTransport = 'https' | 'http' | 'external';
+
+export type BotServerLifecycleEvent = 'listening' | 'stopping' | 'stopped' | 'error';
+
+export interface BotServerAcmeOptions extends AcmeClientOptions {
+  domains: string[];
+  challengePort?: number;
+}
+
+export interface BotServerQueuedEvent {
+  event: BotEvent;
+  destination?: string;
+  endpoint?: string;
+  channelId: string;
+  trace?: LogFields;
+}
+
+export interface BotServerSSLOptions {
+  commonName?: string;
+  altNames?: string[];
+  force?: boolean;
+}
 
 export interface BotServerOptions extends ClientConfig {
-  port: number;
-  key: string | Buffer;
-  cert: string | Buffer;
+  port?: number;
+  host?: string;
+  key?: string | Buffer;
+  cert?: string | Buffer;
+  transport?: BotServerTransport;
+  server?: http.Server | https.Server;
+  trustProxy?: boolean | number | string | string[];
+  apiBaseURL?: string;
+  channels?: ChannelOptions[];
+  channelsFile?: string;
+  token?: ChannelTokenOptions;
+  watchCertificates?: boolean;
+  acme?: BotServerAcmeOptions;
+  outbound?: OutboundSenderOptions;
+  replyTokenTtl?: number;
+  stopTimeout?: number;
+  handleSignals?: boolean;
+  richMenus?: RichMenuOptions;
+  content?: ContentOptions;
+  profiles?: ProfileOptions;
+  deduplication?: DeduplicationOptions;
+  queue?: JobQueueOptions;
+  logging?: LoggingOptions;
 }
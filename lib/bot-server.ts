@@ -1,110 +1,463 @@
 import * as LINEBot from '@line/bot-sdk';
-import * as Dotenv from 'dotenv';
-import { DotenvConfigOptions } from 'dotenv';
+import { EventEmitter } from 'events';
 import * as express from 'express';
-import { ErrorRequestHandler, Express, RequestHandler } from 'express';
+import { ErrorRequestHandler, Express, NextFunction, Request, RequestHandler, Response, Router } from 'express';
 import * as fs from 'fs-extra';
+import * as http from 'http';
 import * as https from 'https';
+import * as net from 'net';
 import * as path from 'path';
 import * as pem from 'pem';
-import { BotServerOptions } from './bot-server-options';
+import * as tls from 'tls';
+import { AcmeClient } from './acme-client';
+import { BotServerAcmeOptions, BotServerLifecycleEvent, BotServerOptions, BotServerQueuedEvent, BotServerSSLOptions,
+  BotServerTransport } from './bot-server-options';
+import { CertificateWatcher, CertificateWatcherOptions } from './certificate-watcher';
+import { Channel, ChannelOptions } from './channel';
+import { ChannelRegistry } from './channel-registry';
+import { ConfigLoader } from './config-loader';
+import { ContentEvent, ContentHandler, ContentManager, ContentMessageType, ContentOptions } from './content-manager';
+import { DialogDefinition, DialogValues } from './dialog';
+import { DialogManager, DialogOptions } from './dialog-manager';
+import { EventContext } from './event-context';
+import { DeduplicationOptions, EventDeduplicator } from './event-deduplicator';
+import { EventErrorMiddleware, EventMiddleware, EventPipeline } from './event-pipeline';
+import { EventErrorHandler, EventHandler, EventRouter } from './event-router';
+import { AccountLinkEvent, BotEvent, BotEventOf, BotEventType, EventMessageType, MemberJoinedEvent,
+  MemberLeftEvent, MessageEventOf, WebhookEventMetadata, WebhookRequestBody } from './event-types';
+import { HealthCheck, HealthCheckResult, HealthOptions, HealthReport } from './health-check';
+import { Job, JobQueue, JobQueueOptions } from './job-queue';
+import { LINEClient } from './line-client';
+import { Metrics } from './metrics';
+import { OutboundSender } from './outbound-sender';
+import { PostbackHandler, PostbackRouter } from './postback-router';
+import { ProfileManager, ProfileOptions } from './profile-manager';
+import { Responder } from './responder';
+import { RichMenuManager, RichMenuOptions, RichMenuSyncResult } from './rich-menu-manager';
+import { RsaKey } from './rsa-key';
+import { SessionManager, SessionOptions } from './session-manager';
+import { CommandOptions, TextHandler, TextMatcher, TextMatcherOptions } from './text-matcher';
+import { TraceLogger } from './trace-logger';
 
 export class BotServer {
   public static defaultSSLKey = 'ssl/localhost.key';
   public static defaultSSLCert = 'ssl/localhost.crt';
+  public static defaultChannelId = 'default';
+  public static transports: BotServerTransport[] = ['https', 'http', 'external'];
+  public static signals = ['SIGTERM', 'SIGINT'];
+  public static defaultStopTimeout = 10000;
+  public static defaultHealthOptions: Required<HealthOptions> = {
+    livenessPath: '/health/live',
+    maxBacklog: 1000,
+    readinessPath: '/health/ready',
+    timeout: 5000,
+    tokenCheckTtl: 10000
+  };
 
-  public static async generateDefaultSSLAsync(sslDir: string, days: number = 9999, selfSigned: boolean = true) {
+  public static async generateDefaultSSLAsync(sslDir: string, days: number = 9999, selfSigned: boolean = true,
+                                              options: BotServerSSLOptions = {}) {
     await fs.ensureDir(sslDir);
 
     BotServer.defaultSSLKey = path.resolve(sslDir, 'localhost.key');
     BotServer.defaultSSLCert = path.resolve(sslDir, 'localhost.crt');
 
+    return BotServer.generateSSLAsync(BotServer.defaultSSLKey, BotServer.defaultSSLCert, days, selfSigned, options);
+  }
+
+  public static generateSSLAsync(keyFile: string, certFile: string, days: number = 9999, selfSigned: boolean = true,
+                                 options: BotServerSSLOptions = {}) {
     return new Promise((resolve, reject) => {
-      if (!fs.existsSync(BotServer.defaultSSLKey) || !fs.existsSync(BotServer.defaultSSLCert)) {
-        pem.createCertificate({ days, selfSigned }, (err, keys) => {
+      const exists = fs.existsSync(keyFile) && fs.existsSync(certFile);
+
+      if (!exists || options.force) {
+        const create = (clientKey?: string): void => pem.createCertificate({
+          altNames: options.altNames,
+          clientKey,
+          commonName: options.commonName || 'localhost',
+          days,
+          selfSigned
+        }, (err, keys) => {
+          if (err && !clientKey && /PRIVATE KEY not found/.test(err.message) && RsaKey.canGenerate()) {
+            return create(RsaKey.generate());
+          }
+
           if (err) {
             return reject(err);
           }
 
-          fs.writeFileSync(BotServer.defaultSSLKey, keys.serviceKey);
-          fs.writeFileSync(BotServer.defaultSSLCert, keys.certificate);
+          fs.writeFileSync(keyFile, keys.serviceKey);
+          fs.writeFileSync(certFile, keys.certificate);
 
           return resolve(true);
         });
+
+        create();
       } else {
         return resolve(true);
       }
     });
   }
 
-  public static getEnvOptions(options?: DotenvConfigOptions): BotServerOptions {
-    Dotenv.config(options);
+  public static parseTrustProxy(value?: string): BotServerOptions['trustProxy'] {
+    return ConfigLoader.parseTrustProxy(value);
+  }
 
-    return {
-      cert: process.env.SSL_CERT || '',
-      channelAccessToken: process.env.CHANNEL_ACCESS_TOKEN || '',
-      channelSecret: process.env.CHANNEL_SECRET || '',
-      key: process.env.SSL_KEY || '',
-      port: (process.env.PORT) ? Number(process.env.PORT) : 443
-    };
+  public static getEnvOptions(options?: { path?: string }): BotServerOptions {
+    return ConfigLoader.load({ envFile: options && options.path });
   }
 
   public static generateEnvFile(fileName: string, options: BotServerOptions = {} as BotServerOptions) {
-    const buffer = new Buffer(
-      'CHANNEL_ACCESS_TOKEN=' + (options.channelAccessToken || '') + '\n' +
-      'CHANNEL_SECRET=' + (options.channelSecret || '') + '\n' +
-      'PORT=' + (options.port || '') + '\n' +
-      'SSL_KEY=' + (options.key || '') + '\n' +
-      'SSL_CERT=' + (options.cert || '') + '\n'
-    );
+    fs.writeFileSync(fileName, ConfigLoader.generateTemplate(options));
+  }
 
-    fs.writeFileSync(fileName, buffer);
+  private static withTimeout(promise: Promise<any>, timeout: number) {
+    let timer: NodeJS.Timer | undefined;
+
+    return Promise.race([
+      promise.then(() => true),
+      new Promise<boolean>((resolve) => timer = setTimeout(() => resolve(false), timeout))
+    ]).then((result) => {
+      clearTimeout(timer as NodeJS.Timer);
+      return result;
+    });
+  }
+
+  private static getEventId(event: BotEvent) {
+    return (event as BotEvent & WebhookEventMetadata).webhookEventId || TraceLogger.createId();
+  }
+
+  private static readBody(req: Request) {
+    return new Promise<Buffer>((resolve, reject) => {
+      const rawBody = (req as Request & { rawBody?: Buffer | string }).rawBody;
+
+      if (Buffer.isBuffer(rawBody) || typeof rawBody === 'string') {
+        return resolve(Buffer.isBuffer(rawBody) ? rawBody : new Buffer(rawBody));
+      }
+
+      if (Buffer.isBuffer(req.body)) {
+        return resolve(req.body);
+      }
+
+      if (typeof req.body === 'string') {
+        return resolve(new Buffer(req.body));
+      }
+
+      if (req.body !== undefined) {
+        return reject(new Error('Webhook body was already parsed\n' +
+          'Please mount the bot before body parsers such as express.json(), or keep the raw body in req.rawBody.'));
+      }
+
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
   }
 
   public options: BotServerOptions;
   public client: LINEBot.Client;
+  public sender: OutboundSender;
   public clientConfig: LINEBot.ClientConfig;
+  public channels: ChannelRegistry;
+  public defaultChannel: Channel;
   public app: Express;
-  public https: https.Server;
+  public transport: BotServerTransport;
+  public server?: http.Server | https.Server;
+  public https?: https.Server;
+  public router: EventRouter;
+  public logger: TraceLogger;
+  public pipeline = new EventPipeline();
+  public pipelines: { [endpoint: string]: EventPipeline } = {};
+  public textMatcher: TextMatcher;
+  public postbackRouter: PostbackRouter;
+  public sessions?: SessionManager;
+  public dialogs?: DialogManager;
+  public content?: ContentManager;
+  public profiles?: ProfileManager;
+  public deduplicator?: EventDeduplicator;
+  public queue?: JobQueue<BotServerQueuedEvent>;
+  public richMenuOptions?: RichMenuOptions;
+  public richMenus: { [channelId: string]: RichMenuManager } = {};
+  public certificates?: CertificateWatcher;
+  public acme?: AcmeClient;
+  public acmeOptions?: BotServerAcmeOptions;
+  public challengeServer?: http.Server;
+  public lifecycle = new EventEmitter();
+  public metrics?: Metrics;
+  public healthOptions: Required<HealthOptions> = BotServer.defaultHealthOptions;
+  public healthChecks: { [name: string]: HealthCheck } = {};
+  private handling: Array<Promise<boolean>> = [];
+  private stopping?: Promise<boolean>;
+  private signalHandlers: Array<{ signal: string, handler: () => void }> = [];
+  private connections = new Map<net.Socket, number>();
+  private closing = false;
+  private tokenChecks: { [channelId: string]: { checkedAt: number, error: Promise<string | undefined> } } = {};
 
   constructor(options?: BotServerOptions) {
 
     this.options = options || BotServer.getEnvOptions();
 
-    if (!this.options.port) {
+    const hasChannels = !!(this.options.channels && this.options.channels.length) || !!this.options.channelsFile;
+
+    this.transport = this.options.transport || (this.options.server ? 'external' : 'https');
+
+    if (BotServer.transports.indexOf(this.transport) < 0) {
+      throw new Error('Invalid options.transport ' + this.transport +
+        '\nPlease set TRANSPORT environment variable to https, http or external.');
+    }
+
+    if (this.options.port === undefined && this.transport !== 'external') {
       throw new Error('Missing options.port\nPlease set PORT environment variable.');
     }
 
-    if (!this.options.channelSecret) {
+    if (!this.options.channelSecret && !hasChannels) {
       throw new Error('Missing options.channelSecret\nPlease set CHANNEL_SECRET environment variable.');
     }
 
-    if (!this.options.channelAccessToken) {
+    if (!this.options.channelAccessToken && !this.options.token && !hasChannels) {
       throw new Error('Missing options.channelAccessToken\nPlease set CHANNEL_ACCESS_TOKEN environment variable.');
     }
 
-    if (!this.options.key) {
+    if (!this.options.key && this.transport === 'https') {
       throw new Error('Missing options.key\nPlease set SSL_KEY environment variable.');
     }
 
-    if (!this.options.cert) {
+    if (!this.options.cert && this.transport === 'https') {
       throw new Error('Missing options.cert\nPlease set SSL_CERT environment variable.');
     }
 
-    this.clientConfig = {
-      channelAccessToken: this.options.channelAccessToken,
-      channelSecret: this.options.channelSecret
-    };
+    this.logger = new TraceLogger(this.options.logging);
+    this.channels = new ChannelRegistry();
+    this.channels.on('add', (channel: Channel) => this.traceClient(channel));
+
+    if (this.options.channelSecret && (this.options.channelAccessToken || this.options.token)) {
+      this.channels.add({
+        apiBaseURL: this.options.apiBaseURL,
+        channelAccessToken: this.options.channelAccessToken,
+        channelSecret: this.options.channelSecret,
+        id: BotServer.defaultChannelId,
+        outbound: this.options.outbound,
+        token: this.options.token
+      });
+    }
+
+    (this.options.channels || [])
+      .concat(this.options.channelsFile ? ChannelRegistry.fromFile(this.options.channelsFile) : [])
+      .forEach((channel) => this.channels.add(channel));
+
+    if (!this.channels.size) {
+      throw new Error('Missing channels\nPlease set CHANNEL_SECRET and CHANNEL_ACCESS_TOKEN or configure channels.');
+    }
+
+    this.defaultChannel = this.channels.list()[0];
+
+    this.clientConfig = this.defaultChannel.clientConfig;
+
+    this.client = this.defaultChannel.client;
 
-    this.client = new LINEBot.Client(this.clientConfig);
+    this.sender = this.defaultChannel.sender;
 
     this.app = express();
 
-    this.https = https.createServer({
-      cert: fs.readFileSync(this.options.cert),
-      key: fs.readFileSync(this.options.key)
-    }, this.app);
+    if (this.options.trustProxy !== undefined) {
+      this.app.set('trust proxy', this.options.trustProxy);
+    }
+
+    if (this.transport === 'https') {
+      const credentials = {
+        cert: fs.readFileSync(this.options.cert as string | Buffer),
+        key: fs.readFileSync(this.options.key as string | Buffer)
+      };
+      const secureContext = tls.createSecureContext(credentials);
+
+      this.server = this.https = https.createServer({
+        ...credentials,
+        SNICallback: (servername, callback) => {
+          callback(null, this.certificates && this.certificates.context || secureContext);
+        }
+      }, this.app);
+    } else if (this.transport === 'http') {
+      this.server = http.createServer(this.app);
+    }
+
+    if (this.server) {
+      this.server.on('error', (err: Error) => this.emitError(err));
+      this.trackConnections(this.server);
+    } else if (this.options.server) {
+      this.server = this.options.server;
+      this.server.on('request', this.app);
+    }
+
+    this.app.use((req, res, next) => {
+      const channel = req.method === 'POST' ? this.channels.findByPath(req.path) : undefined;
+
+      if (!channel) {
+        return next();
+      }
+
+      res.locals.channel = channel;
+      this.verifySignature(channel, req, res, (err?: any) => {
+        return err ? next(err) : this.webhookHandler(req.path)(req, res, next);
+      });
+    });
+
+    if (this.options.acme) {
+      this.enableAcme(this.options.acme);
+    }
+
+    if (this.options.watchCertificates) {
+      this.enableCertificateWatcher();
+    }
+
+    if (this.options.queue) {
+      this.enableQueue(this.options.queue);
+    }
+
+    if (this.options.deduplication) {
+      this.enableDeduplication(this.options.deduplication);
+    }
+
+    if (this.options.content) {
+      this.enableContent(this.options.content);
+    }
+
+    if (this.options.profiles) {
+      this.enableProfiles(this.options.profiles);
+    }
+
+    if (this.options.richMenus) {
+      this.enableRichMenus(this.options.richMenus);
+    }
+
+    this.router = new EventRouter();
+
+    this.textMatcher = new TextMatcher();
+
+    this.router.onMessage('text', (event, context) => this.textMatcher.handle(event, context));
+
+    this.postbackRouter = new PostbackRouter();
+
+    this.router.onPostback((event, context) => this.postbackRouter.handle(event, context));
+
+  }
+
+  public addChannel(options: ChannelOptions) {
+    this.channels.add(options);
+    return this;
+  }
+
+  public removeChannel(id: string) {
+    if (id === this.defaultChannel.id) {
+      throw new Error('Cannot remove channel ' + id + '\nThe default channel cannot be removed.');
+    }
+
+    const channel = this.channels.get(id);
+
+    if (channel && channel.tokens) {
+      channel.tokens.stop();
+    }
+
+    this.channels.remove(id);
+    return this;
+  }
+
+  public startChannels() {
+    return Promise.all(this.channels.list().map((channel) => channel.start()));
+  }
+
+  public stopChannels() {
+    return Promise.all(this.channels.list().map((channel) => channel.stop()));
+  }
+
+  public enableSessions(options?: SessionOptions) {
+    this.sessions = new SessionManager(options);
+    return this;
+  }
+
+  public enableDialogs(options?: DialogOptions) {
+    this.dialogs = new DialogManager(options);
+    return this;
+  }
+
+  public addDialog(definition: DialogDefinition) {
+    if (!this.dialogs) {
+      this.enableDialogs();
+    }
+
+    (this.dialogs as DialogManager).add(definition);
+    return this;
+  }
+
+  public enableQueue(options?: JobQueueOptions) {
+    const queue = new JobQueue<BotServerQueuedEvent>((job) => this.processJob(job), options);
+
+    queue.on('error', (err: Error) => this.emitError(err));
+    queue.on('retry', (job: Job<BotServerQueuedEvent>, err: Error) => {
+      this.logger.warn('Queued event failed, retrying', {
+        ...job.data.trace, attempts: job.attempts, error: err, jobId: job.id
+      });
+    });
+    queue.on('failed', (job: Job<BotServerQueuedEvent>, err: Error) => {
+      this.logger.error('Queued event moved to dead letters', {
+        ...job.data.trace, attempts: job.attempts, error: err, jobId: job.id
+      });
+    });
+    queue.start().catch((err) => this.emitError(err));
+    this.queue = queue;
+    return this;
+  }
+
+  public enableDeduplication(options?: DeduplicationOptions) {
+    this.deduplicator = new EventDeduplicator(options);
+    return this;
+  }
+
+  public enableContent(options?: ContentOptions) {
+    this.content = new ContentManager(options);
+    return this;
+  }
+
+  public enableProfiles(options?: ProfileOptions) {
+    this.profiles = new ProfileManager(options);
+    return this;
+  }
+
+  public getProfile(source: LINEBot.EventSource, channel: Channel = this.defaultChannel) {
+    if (!this.profiles) {
+      return Promise.reject(new Error('Profiles are not enabled\nPlease call enableProfiles first.'));
+    }
+
+    return this.profiles.get(channel.client, source, channel.id);
+  }
+
+  public enableRichMenus(options: RichMenuOptions) {
+    this.richMenuOptions = options;
+    this.richMenus = {};
+    this.getRichMenus();
+    return this;
+  }
+
+  public getRichMenus(channel: Channel = this.defaultChannel) {
+    if (!this.richMenuOptions) {
+      throw new Error('Rich menus are not enabled\nPlease call enableRichMenus first.');
+    }
+
+    if (!this.richMenus[channel.id]) {
+      this.richMenus[channel.id] = new RichMenuManager(channel.client, this.richMenuOptions);
+    }
+
+    return this.richMenus[channel.id];
+  }
+
+  public async syncRichMenus() {
+    const results: { [channelId: string]: RichMenuSyncResult } = {};
+
+    for (const channel of this.channels.list()) {
+      results[channel.id] = await this.getRichMenus(channel).sync();
+    }
 
+    return results;
   }
 
   public enableStatusEndpoint() {
@@ -114,12 +467,896 @@ export class BotServer {
     });
   }
 
-  public setWebhook(endpoint: string, callback: RequestHandler | ErrorRequestHandler) {
-    this.app.post(endpoint, LINEBot.middleware(this.clientConfig as LINEBot.MiddlewareConfig), callback);
+  public enableHealthEndpoints(options: HealthOptions = {}) {
+    this.healthOptions = Object.assign({}, BotServer.defaultHealthOptions, options);
+
+    this.app.get(this.healthOptions.livenessPath, (req, res) => {
+      res.status(200).json({ status: 'ok', uptime: process.uptime() });
+    });
+
+    this.app.get(this.healthOptions.readinessPath, (req, res, next) => {
+      this.checkReadiness().then((report) => res.status(report.status === 'ok' ? 200 : 503).json(report), next);
+    });
+
+    return this;
+  }
+
+  public addHealthCheck(name: string, check: HealthCheck) {
+    this.healthChecks[name] = check;
+    return this;
+  }
+
+  public async checkReadiness(): Promise<HealthReport> {
+    const checks: { [name: string]: HealthCheck } = {
+      queue: () => this.checkQueue(),
+      token: () => this.checkTokens()
+    };
+
+    if (this.queue) {
+      const queue = this.queue;
+
+      checks.jobs = async () => ({
+        backlog: queue.size,
+        deadLetters: queue.deadLetters.length,
+        maxBacklog: this.healthOptions.maxBacklog,
+        status: queue.size > this.healthOptions.maxBacklog ? 'fail' : 'ok'
+      } as HealthCheckResult);
+    }
+
+    if (this.sessions) {
+      const store = this.sessions.store;
+
+      checks.sessions = async () => {
+        await store.get('health-check');
+      };
+    }
+
+    if (this.stopping) {
+      checks.lifecycle = async () => ({ reason: 'stopping', status: 'fail' } as HealthCheckResult);
+    }
+
+    Object.keys(this.healthChecks).forEach((name) => checks[name] = this.healthChecks[name]);
+
+    const names = Object.keys(checks);
+    const results = await Promise.all(names.map((name) => this.runHealthCheck(checks[name])));
+    const report: HealthReport = { checks: {}, status: 'ok' };
+
+    names.forEach((name, i) => {
+      report.checks[name] = results[i];
+
+      if (results[i].status !== 'ok') {
+        report.status = 'fail';
+      }
+    });
+
+    return report;
+  }
+
+  public enableMetrics(metricsPath: string = '/metrics') {
+    if (this.metrics) {
+      return this;
+    }
+
+    const metrics = this.metrics = new Metrics('line_bot_')
+      .define('webhook_events_total', 'counter', 'Webhook events received by channel and event type.')
+      .define('handler_duration_seconds', 'histogram', 'Event handler latency in seconds by event type.')
+      .define('api_requests_total', 'counter', 'Messaging API calls by channel, request method and status.')
+      .define('in_flight_events', 'gauge', 'Events currently being handled.')
+      .define('outbound_queue_size', 'gauge', 'Outbound messages waiting to be sent by channel.')
+      .define('job_queue_size', 'gauge', 'Queued events waiting to be processed.')
+      .define('dead_letters', 'gauge', 'Queued events that failed every retry.');
+
+    this.channels.list().forEach((channel) => this.instrumentClient(channel));
+    this.channels.on('add', (channel: Channel) => this.instrumentClient(channel));
+
+    this.app.get(metricsPath, (req, res) => {
+      metrics.set('in_flight_events', this.handling.length);
+      this.channels.list().forEach((channel) => {
+        metrics.set('outbound_queue_size', channel.sender.pending, { channel: channel.id });
+      });
+
+      if (this.queue) {
+        metrics.set('job_queue_size', this.queue.size);
+        metrics.set('dead_letters', this.queue.deadLetters.length);
+      }
+
+      res.type(Metrics.contentType).send(metrics.render());
+    });
+
+    return this;
+  }
+
+  public enableStatusMonitor(options: { path?: string, title?: string, [name: string]: any } = {}) {
+    const statusMonitor = require('express-status-monitor');
+
+    this.app.use(statusMonitor(Object.assign({ path: '/status-monitor', title: 'LINE Bot Status' }, options)));
+    return this;
+  }
+
+  public enableCertificateWatcher(options?: Partial<CertificateWatcherOptions>) {
+    if (!this.https || typeof this.options.key !== 'string' || typeof this.options.cert !== 'string') {
+      throw new Error('Cannot watch certificates\nPlease use https transport with SSL_KEY and SSL_CERT file paths.');
+    }
+
+    this.certificates = new CertificateWatcher(Object.assign({
+      cert: this.options.cert,
+      key: this.options.key
+    }, options));
+
+    const renew = () => {
+      if (this.acme) {
+        this.renewCertificate().catch((err) => (this.certificates as CertificateWatcher).emit('failed', err));
+      }
+    };
+
+    this.certificates.on('expiring', renew);
+    this.certificates.on('expired', renew);
+
+    return this;
+  }
+
+  public enableAcme(options: BotServerAcmeOptions) {
+    if (!options.domains || !options.domains.length) {
+      throw new Error('Missing options.domains\nPlease set ACME_DOMAINS environment variable.');
+    }
+
+    this.acme = new AcmeClient(options);
+    this.acmeOptions = options;
+    this.app.use(this.acme.challengeHandler());
+
+    return this;
+  }
+
+  public async renewCertificate() {
+    if (!this.acme || !this.acmeOptions) {
+      throw new Error('Cannot renew certificate\nPlease call enableAcme() first.');
+    }
+
+    if (this.https && !this.certificates) {
+      this.enableCertificateWatcher();
+    }
+
+    const key = await RsaKey.generateAsync();
+    const cert = await this.acme.obtainCertificate(this.acmeOptions.domains, key);
+
+    if (typeof this.options.key === 'string' && typeof this.options.cert === 'string') {
+      await fs.writeFile(this.options.key, key);
+      await fs.writeFile(this.options.cert, cert);
+    }
+
+    if (this.certificates) {
+      await this.certificates.reload();
+    }
+
+    return { cert, key };
+  }
+
+  public setWebhook(endpoint: string, callback?: RequestHandler | ErrorRequestHandler | EventPipeline) {
+    if (callback instanceof EventPipeline) {
+      this.use(endpoint, callback);
+    } else if (callback) {
+      this.app.post(endpoint, LINEBot.middleware(this.clientConfig as LINEBot.MiddlewareConfig), callback);
+      return;
+    }
+
+    this.app.post(endpoint, this.channelMiddleware(), this.webhookHandler(endpoint));
+  }
+
+  public channelMiddleware(): RequestHandler {
+    return (req, res, next) => {
+      BotServer.readBody(req).then((body) => {
+        const channel = this.resolveChannel(body);
+
+        req.body = body;
+        res.locals.channel = channel;
+        this.verifySignature(channel, req, res, next);
+      }, next);
+    };
+  }
+
+  public resolveChannel(body: Buffer | string) {
+    let destination: string | undefined;
+
+    try {
+      destination = JSON.parse(body.toString()).destination;
+    } catch (err) {
+      return this.defaultChannel;
+    }
+
+    return (destination && this.channels.findByDestination(destination)) || this.defaultChannel;
+  }
+
+  public webhookHandler(endpoint?: string): RequestHandler {
+    return (req, res) => this.logger.run({ requestId: res.locals.requestId || TraceLogger.createId() }, () => {
+      const body = req.body as WebhookRequestBody;
+      const events = body.events || [];
+      const acknowledge = () => res.status(200).end();
+
+      this.logger.debug('Webhook received', { channel: res.locals.channel.id, events: events.length });
+
+      if (this.queue) {
+        return this.enqueueEvents(events, body.destination, res.locals.channel, endpoint).then(acknowledge, (err) => {
+          this.emitError(err);
+          res.status(500).end();
+        });
+      }
+
+      this.handleEvents(events, body.destination, res.locals.channel, endpoint)
+        .then(acknowledge, acknowledge);
+    });
+  }
+
+  public handleEvents(events: BotEvent[], destination?: string, channel?: Channel, endpoint?: string) {
+    const sources: { [key: string]: Promise<boolean> } = {};
+
+    return Promise.all(events.map((event) => {
+      const key = SessionManager.getSourceKey(event.source);
+      const handle = () => this.logger.run({ eventId: BotServer.getEventId(event) }, () => {
+        return this.handleEvent(event, destination, channel, endpoint);
+      });
+
+      sources[key] = sources[key] ? sources[key].then(handle, handle) : handle();
+
+      return sources[key];
+    }));
+  }
+
+  public enqueueEvents(events: BotEvent[], destination?: string, channel: Channel = this.defaultChannel,
+                       endpoint?: string) {
+    if (!this.queue) {
+      return Promise.reject(new Error('Queue is not enabled\nPlease call enableQueue first.'));
+    }
+
+    return this.queue.addAll(events.map((event) => ({
+      data: {
+        channelId: channel.id,
+        destination,
+        endpoint,
+        event,
+        trace: { ...this.logger.fields, eventId: BotServer.getEventId(event) }
+      },
+      group: channel.id + ':' + SessionManager.getSourceKey(event.source)
+    })));
+  }
+
+  public handleEvent(event: BotEvent, destination?: string, channel?: Channel, endpoint?: string) {
+    return this.track(event, channel, this.processEvent(event, destination, channel, endpoint));
+  }
+
+  public processEvent(event: BotEvent, destination?: string, channel: Channel = this.defaultChannel,
+                      endpoint?: string) {
+    return this.runEvent(event, destination, channel, endpoint, async (err, context) => {
+      await this.router.handleError(err, event, context);
+      return false;
+    });
+  }
+
+  public createContext(event: BotEvent, destination?: string, channel: Channel = this.defaultChannel,
+                       endpoint?: string): EventContext {
+    const responder = new Responder(channel.client, event, {
+      replyTokenTtl: this.options.replyTokenTtl,
+      sender: channel.sender
+    });
+    const getProfile = () => this.getProfile(event.source, channel);
+    let profile: Promise<LINEBot.Profile | undefined> | undefined;
+    const context: EventContext = {
+      beginDialog: (name: string, values?: DialogValues) => {
+        if (!this.dialogs) {
+          return Promise.reject(new Error('Dialogs are not enabled\nPlease call enableDialogs or addDialog first.'));
+        }
+
+        return this.dialogs.begin(name, event, context, values);
+      },
+      channel,
+      client: channel.client,
+      correlationId: this.logger.correlationId,
+      deliveryContext: { isRedelivery: EventDeduplicator.isRedelivery(event) },
+      destination,
+      endpoint,
+      linkRichMenu: (name: string) => {
+        return this.withUserId(event, (userId) => this.getRichMenus(channel).link(userId, name));
+      },
+      get profile() {
+        if (!profile) {
+          profile = getProfile();
+        }
+
+        return profile;
+      },
+      push: (messages) => responder.push(messages),
+      reply: (messages) => responder.reply(messages),
+      responder,
+      unlinkRichMenu: () => {
+        return this.withUserId(event, (userId) => this.getRichMenus(channel).unlink(userId));
+      }
+    };
+
+    return context;
+  }
+
+  public on<T extends BotEventType>(type: T, handler: EventHandler<BotEventOf<T>>) {
+    this.router.on(type, handler);
+    return this;
   }
 
-  public start() {
-    this.https.listen(this.options.port);
+  public onAny(handler: EventHandler) {
+    this.router.onAny(handler);
+    return this;
+  }
+
+  public onMessage<T extends EventMessageType>(type: T, handler: EventHandler<MessageEventOf<T>>) {
+    this.router.onMessage(type, handler);
+    return this;
+  }
+
+  public onAnyMessage(handler: EventHandler<LINEBot.MessageEvent>) {
+    this.router.onAnyMessage(handler);
+    return this;
+  }
+
+  public onFollow(handler: EventHandler<LINEBot.FollowEvent>) {
+    this.router.onFollow(handler);
+    return this;
+  }
+
+  public onUnfollow(handler: EventHandler<LINEBot.UnfollowEvent>) {
+    this.router.onUnfollow(handler);
+    return this;
+  }
+
+  public onJoin(handler: EventHandler<LINEBot.JoinEvent>) {
+    this.router.onJoin(handler);
+    return this;
+  }
+
+  public onLeave(handler: EventHandler<LINEBot.LeaveEvent>) {
+    this.router.onLeave(handler);
+    return this;
+  }
+
+  public onPostback(handler: EventHandler<LINEBot.PostbackEvent>) {
+    this.router.onPostback(handler);
+    return this;
+  }
+
+  public onBeacon(handler: EventHandler<LINEBot.BeaconEvent>) {
+    this.router.onBeacon(handler);
+    return this;
+  }
+
+  public onMemberJoined(handler: EventHandler<MemberJoinedEvent>) {
+    this.router.onMemberJoined(handler);
+    return this;
+  }
+
+  public onMemberLeft(handler: EventHandler<MemberLeftEvent>) {
+    this.router.onMemberLeft(handler);
+    return this;
+  }
+
+  public onAccountLink(handler: EventHandler<AccountLinkEvent>) {
+    this.router.onAccountLink(handler);
+    return this;
+  }
+
+  public onError(handler: EventErrorHandler) {
+    this.router.onError(handler);
+    return this;
+  }
+
+  public use(endpoint: string | EventMiddleware | EventPipeline,
+             ...middleware: Array<EventMiddleware | EventPipeline>) {
+    if (typeof endpoint === 'string') {
+      this.getPipeline(endpoint).use(...middleware);
+    } else {
+      this.pipeline.use(endpoint, ...middleware);
+    }
+
+    return this;
+  }
+
+  public useError(endpoint: string | EventErrorMiddleware, ...middleware: EventErrorMiddleware[]) {
+    if (typeof endpoint === 'string') {
+      this.getPipeline(endpoint).useError(...middleware);
+    } else {
+      this.pipeline.useError(endpoint, ...middleware);
+    }
+
+    return this;
+  }
+
+  public getPipeline(endpoint?: string) {
+    if (!endpoint) {
+      return this.pipeline;
+    }
+
+    if (!this.pipelines[endpoint]) {
+      this.pipelines[endpoint] = new EventPipeline();
+    }
+
+    return this.pipelines[endpoint];
+  }
+
+  public onKeyword(keyword: string | string[], handler: TextHandler, options?: TextMatcherOptions) {
+    this.textMatcher.keyword(keyword, handler, options);
+    return this;
+  }
+
+  public onCommand(name: string, handler: TextHandler, options?: CommandOptions) {
+    this.textMatcher.command(name, handler, options);
+    return this;
+  }
+
+  public onPattern(pattern: RegExp, handler: TextHandler, options?: TextMatcherOptions) {
+    this.textMatcher.pattern(pattern, handler, options);
+    return this;
+  }
+
+  public onTextFallback(handler: TextHandler) {
+    this.textMatcher.fallback(handler);
+    return this;
+  }
+
+  public onContent(type: ContentMessageType | ContentMessageType[], handler: ContentHandler) {
+    if (!this.content) {
+      this.enableContent();
+    }
+
+    (Array.isArray(type) ? type : [type]).forEach((messageType) => {
+      this.router.onMessage(messageType, async (event, context) => {
+        return handler(await this.storeContent(event as ContentEvent, context), context);
+      });
+    });
+    return this;
+  }
+
+  public onPostbackAction<P = any>(action: string, handler: PostbackHandler<P>) {
+    this.postbackRouter.on(action, handler);
+    return this;
+  }
+
+  public onPostbackFallback(handler: PostbackHandler) {
+    this.postbackRouter.fallback(handler);
+    return this;
+  }
+
+  public mount(target: Express | Router, mountPath: string = '/') {
+    target.use(mountPath, this.app);
+    return this;
+  }
+
+  public get port() {
+    const address = this.server && this.server.address();
+
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  public get inFlight() {
+    return this.handling.length;
+  }
+
+  public onLifecycle(event: BotServerLifecycleEvent, listener: (...args: any[]) => void) {
+    this.lifecycle.on(event, listener);
+    return this;
+  }
+
+  public async start() {
+    const server = this.server;
+
+    if (!server || this.transport === 'external') {
+      throw new Error('Cannot start BotServer with external transport\n' +
+        'Please listen on your own server or mount the app.');
+    }
+
+    this.closing = false;
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (err: Error) => {
+        server.removeListener('listening', onListening);
+        reject(err);
+      };
+      const onListening = () => {
+        server.removeListener('error', onError);
+        resolve();
+      };
+
+      server.once('error', onError);
+      server.once('listening', onListening);
+      server.listen(this.options.port, this.options.host);
+    });
+
+    if (this.certificates) {
+      this.certificates.start();
+    }
+
+    if (this.acme && this.acmeOptions && this.acmeOptions.challengePort) {
+      this.challengeServer = http.createServer(this.acme.challengeHandler());
+      this.challengeServer.on('error', (err: Error) => this.emitError(err));
+      this.trackConnections(this.challengeServer);
+      this.challengeServer.listen(this.acmeOptions.challengePort, this.options.host);
+    }
+
+    if (this.options.handleSignals) {
+      this.handleSignals();
+    }
+
+    this.startChannels()
+      .then(async () => {
+        if (this.richMenuOptions && this.richMenuOptions.syncOnStart) {
+          await this.syncRichMenus();
+        }
+      })
+      .catch((err) => this.emitError(err));
+    this.lifecycle.emit('listening', this.port);
+    this.logger.info('Server listening', { port: this.port, transport: this.transport });
+
+    return this.port as number;
+  }
+
+  public stop(timeout: number = this.options.stopTimeout || BotServer.defaultStopTimeout) {
+    if (!this.stopping) {
+      const reset = () => {
+        this.stopping = undefined;
+      };
+
+      this.stopping = this.shutdown(timeout);
+      this.stopping.then(reset, reset);
+    }
+
+    return this.stopping;
+  }
+
+  public async drain() {
+    while (this.handling.length) {
+      await Promise.all(this.handling.map((handling) => handling.catch(() => false)));
+    }
+
+    await Promise.all(this.channels.list().map((channel) => channel.sender.drain()));
+  }
+
+  public handleSignals(signals: string[] = BotServer.signals) {
+    this.removeSignalHandlers();
+
+    signals.forEach((signal) => {
+      const handler = () => {
+        this.stop().then(() => process.exit(0), () => process.exit(1));
+      };
+
+      process.once(signal as NodeJS.Signals, handler);
+      this.signalHandlers.push({ handler, signal });
+    });
+
+    return this;
+  }
+
+  private async shutdown(timeout: number) {
+    const server = this.transport !== 'external' && this.server && this.server.listening ? this.server : undefined;
+
+    this.lifecycle.emit('stopping');
+    this.removeSignalHandlers();
+
+    if (this.queue) {
+      this.queue.pause();
+    }
+
+    const closed = Promise.all([server, this.challengeServer].map((target) => new Promise<void>((resolve) => {
+      if (!target) {
+        return resolve();
+      }
+
+      target.close(() => resolve());
+    })));
+
+    this.closing = true;
+    this.closeConnections(true);
+
+    const drained = await BotServer.withTimeout(this.drain(), timeout);
+
+    this.closeConnections(false);
+
+    await closed;
+    this.challengeServer = undefined;
+
+    if (this.queue) {
+      await this.queue.stop();
+    }
+
+    if (this.certificates) {
+      this.certificates.stop();
+    }
+
+    try {
+      await this.stopChannels();
+    } catch (err) {
+      this.emitError(err);
+    }
+
+    this.lifecycle.emit('stopped', drained);
+    this.logger.info('Server stopped', { drained });
+
+    return drained;
+  }
+
+  private trackConnections(server: http.Server | https.Server) {
+    server.on(server instanceof https.Server ? 'secureConnection' : 'connection', (socket: net.Socket) => {
+      this.connections.set(socket, 0);
+      socket.once('close', () => this.connections.delete(socket));
+    });
+    server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+      const socket = req.socket;
+
+      this.connections.set(socket, (this.connections.get(socket) || 0) + 1);
+      res.once('finish', () => {
+        const pending = (this.connections.get(socket) || 1) - 1;
+
+        if (!this.connections.has(socket)) {
+          return;
+        }
+
+        this.connections.set(socket, pending);
+
+        if (this.closing && !pending) {
+          socket.destroy();
+        }
+      });
+    });
+  }
+
+  private closeConnections(idleOnly: boolean) {
+    this.connections.forEach((pending, socket) => {
+      if (!idleOnly || !pending) {
+        socket.destroy();
+      }
+    });
+  }
+
+  private async runHealthCheck(check: HealthCheck): Promise<HealthCheckResult> {
+    let result: HealthCheckResult | undefined;
+
+    try {
+      const finished = await BotServer.withTimeout(check().then((value) => {
+        result = value as HealthCheckResult | undefined;
+      }), this.healthOptions.timeout);
+
+      if (!finished) {
+        return { error: 'Timed out after ' + this.healthOptions.timeout + 'ms', status: 'fail' };
+      }
+    } catch (err) {
+      return { error: err.message, status: 'fail' };
+    }
+
+    return result || { status: 'ok' };
+  }
+
+  private async checkTokens(): Promise<HealthCheckResult> {
+    const channels = this.channels.list();
+    const errors = await Promise.all(channels.map((channel) => this.checkToken(channel)));
+    const result: HealthCheckResult = { channels: {}, status: 'ok' };
+
+    channels.forEach((channel, i) => {
+      result.channels[channel.id] = errors[i] || 'ok';
+
+      if (errors[i]) {
+        result.status = 'fail';
+      }
+    });
+
+    return result;
+  }
+
+  private checkToken(channel: Channel) {
+    const cached = this.tokenChecks[channel.id];
+
+    if (cached && Date.now() - cached.checkedAt < this.healthOptions.tokenCheckTtl) {
+      return cached.error;
+    }
+
+    const error = LINEClient.getBotInfo(channel.client).then(() => undefined, (err: Error) => err.message);
+
+    this.tokenChecks[channel.id] = { checkedAt: Date.now(), error };
+
+    return error;
+  }
+
+  private async checkQueue(): Promise<HealthCheckResult> {
+    const backlog = this.channels.list().reduce((total, channel) => total + channel.sender.pending, 0);
+
+    return {
+      backlog,
+      maxBacklog: this.healthOptions.maxBacklog,
+      status: backlog > this.healthOptions.maxBacklog ? 'fail' : 'ok'
+    };
+  }
+
+  private instrumentClient(channel: Channel) {
+    const metrics = this.metrics as Metrics;
+
+    LINEClient.use(channel.client, (request, next) => {
+      const record = (status: number | string) => {
+        metrics.increment('api_requests_total', { channel: channel.id, method: request.method, status });
+      };
+
+      return next().then((response) => {
+        record(200);
+        return response;
+      }, (err) => {
+        record(err.statusCode || 'error');
+        throw err;
+      });
+    });
+  }
+
+  private track(event: BotEvent, channel: Channel | undefined, handling: Promise<boolean>) {
+    const metrics = this.metrics;
+    const started = process.hrtime();
+    const done = () => {
+      this.handling.splice(this.handling.indexOf(handling), 1);
+
+      if (metrics) {
+        const elapsed = process.hrtime(started);
+
+        metrics.observe('handler_duration_seconds', elapsed[0] + elapsed[1] / 1e9, { type: event.type });
+      }
+    };
+
+    if (metrics) {
+      metrics.increment('webhook_events_total', { channel: (channel || this.defaultChannel).id, type: event.type });
+    }
+
+    this.handling.push(handling);
+    handling.then(done, done);
+
+    return handling;
+  }
+
+  private processJob(job: Job<BotServerQueuedEvent>) {
+    const { channelId, destination, endpoint, event, trace } = job.data;
+    const channel = this.channels.get(channelId) || this.defaultChannel;
+    const maxRetries = (this.queue as JobQueue<BotServerQueuedEvent>).options.maxRetries;
+
+    return this.logger.run({ ...trace, jobId: job.id }, () => {
+      return this.track(event, channel, this.runEvent(event, destination, channel, endpoint, async (err, context) => {
+        if (job.attempts > maxRetries) {
+          await this.router.handleError(err, event, context);
+        }
+
+        throw err;
+      }));
+    });
+  }
+
+  private async runEvent(event: BotEvent, destination: string | undefined, channel: Channel,
+                         endpoint: string | undefined,
+                         onError: (err: Error, context: EventContext) => Promise<boolean>) {
+    const context = this.createContext(event, destination, channel, endpoint);
+    const pipeline = endpoint && this.pipelines[endpoint]
+      ? new EventPipeline().use(this.pipeline, this.pipelines[endpoint])
+      : this.pipeline;
+
+    this.logger.debug('Event received', { channel: channel.id, source: event.source, type: event.type });
+
+    try {
+      if (this.deduplicator) {
+        context.deliveryContext = await this.deduplicator.begin(event, channel.id);
+
+        if (this.deduplicator.shouldSkip(context.deliveryContext)) {
+          this.logger.debug('Event skipped as already received', { channel: channel.id, type: event.type });
+          return false;
+        }
+      }
+
+      if (this.sessions) {
+        context.session = await this.sessions.load(event, channel.id);
+      }
+
+      if (this.content && ContentManager.isContentEvent(event) && this.content.types.indexOf(event.message.type) >= 0) {
+        await this.storeContent(event, context);
+      }
+
+      let handled = false;
+
+      await pipeline.run(event, context, async () => {
+        handled = (this.dialogs && await this.dialogs.handle(event, context))
+          || await this.router.dispatch(event, context);
+      });
+
+      await context.responder.flush();
+
+      if (this.sessions && context.session) {
+        await this.sessions.save(context.session);
+      }
+
+      if (this.profiles) {
+        this.profiles.invalidate(event, channel.id);
+      }
+
+      return handled;
+    } catch (err) {
+      this.logger.error('Event handler failed', { channel: channel.id, error: err, type: event.type });
+      await context.responder.flush();
+
+      if (this.profiles) {
+        this.profiles.invalidate(event, channel.id);
+      }
+
+      const error = await pipeline.handleError(err, event, context);
+
+      if (!error) {
+        return false;
+      }
+
+      if (this.deduplicator && context.deliveryContext.seenAt === undefined) {
+        await this.deduplicator.forget(event, channel.id);
+      }
+
+      return onError(error, context);
+    }
+  }
+
+  private async storeContent(event: ContentEvent, context: EventContext) {
+    if (!context.content) {
+      context.content = await (this.content as ContentManager).store(context.client, event);
+    }
+
+    return context.content;
+  }
+
+  private async withUserId(event: BotEvent, callback: (userId: string) => Promise<void>) {
+    if (!event.source.userId) {
+      throw new Error('Missing userId in the event source\nRich menus can only be linked to users.');
+    }
+
+    return callback(event.source.userId);
+  }
+
+  private removeSignalHandlers() {
+    this.signalHandlers.forEach(({ handler, signal }) => process.removeListener(signal as NodeJS.Signals, handler));
+    this.signalHandlers = [];
+  }
+
+  private verifySignature(channel: Channel, req: Request, res: Response, next: NextFunction) {
+    const requestId = res.locals.requestId = req.get('X-Request-Id') || TraceLogger.createId();
+
+    channel.middleware(req, res, (err?: any) => {
+      if (err) {
+        this.logger.warn(err instanceof LINEBot.SignatureValidationFailed
+          ? 'Webhook signature validation failed'
+          : 'Webhook request rejected', { channel: channel.id, error: err, path: req.path, requestId });
+      }
+
+      next(err);
+    });
+  }
+
+  private traceClient(channel: Channel) {
+    LINEClient.use(channel.client, (request, next) => {
+      const correlationId = this.logger.correlationId;
+      const started = Date.now();
+      const fields = () => ({ channel: channel.id, duration: Date.now() - started, method: request.method,
+        path: request.path });
+
+      if (correlationId) {
+        request.headers['X-Correlation-Id'] = correlationId;
+      }
+
+      return next().then((response) => {
+        this.logger.debug('API request succeeded', fields());
+        return response;
+      }, (err) => {
+        this.logger.log(err.statusCode >= 400 && err.statusCode < 500 ? 'warn' : 'error', 'API request failed', {
+          ...fields(), error: err
+        });
+        throw err;
+      });
+    });
+  }
+
+  private emitError(err: Error) {
+    this.logger.error('Server error', { error: err });
+
+    if (this.lifecycle.listenerCount('error')) {
+      this.lifecycle.emit('error', err);
+    }
   }
 
 }
@@ -0,0 +1,48 @@
+import * as LINEBot from '@line/bot-sdk';
+import { MessageBuilder } from './message-builder';
+
+export interface TemplateImageOptions {
+  aspectRatio?: 'rectangle' | 'square';
+  size?: 'cover' | 'contain';
+  backgroundColor?: string;
+}
+
+export class ButtonsTemplateBuilder extends MessageBuilder<LINEBot.TemplateMessage> {
+
+  constructor(altText: string, text: string) {
+    super({ altText, template: { actions: [], text, type: 'buttons' }, type: 'template' });
+  }
+
+  public title(title: string) {
+    this.template.title = title;
+    return this;
+  }
+
+  public thumbnail(url: string, options: TemplateImageOptions = {}) {
+    this.template.thumbnailImageUrl = url;
+
+    if (options.aspectRatio) {
+      this.template.imageAspectRatio = options.aspectRatio;
+    }
+
+    if (options.size) {
+      this.template.imageSize = options.size;
+    }
+
+    if (options.backgroundColor) {
+      this.template.imageBackgroundColor = options.backgroundColor;
+    }
+
+    return this;
+  }
+
+  public action(...actions: LINEBot.Action[]) {
+    this.template.actions = this.template.actions.concat(actions);
+    return this;
+  }
+
+  private get template() {
+    return this.message.template as LINEBot.TemplateButtons;
+  }
+
+}
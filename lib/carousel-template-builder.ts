@@ -0,0 +1,28 @@
+import * as LINEBot from '@line/bot-sdk';
+import { TemplateImageOptions } from './buttons-template-builder';
+import { MessageBuilder } from './message-builder';
+
+export class CarouselTemplateBuilder extends MessageBuilder<LINEBot.TemplateMessage> {
+
+  constructor(altText: string, options: TemplateImageOptions = {}) {
+    super({ altText, template: { columns: [], type: 'carousel' }, type: 'template' });
+
+    if (options.aspectRatio) {
+      this.template.imageAspectRatio = options.aspectRatio;
+    }
+
+    if (options.size) {
+      this.template.imageSize = options.size;
+    }
+  }
+
+  public column(column: LINEBot.TemplateColumn) {
+    this.template.columns.push(column);
+    return this;
+  }
+
+  private get template() {
+    return this.message.template as LINEBot.TemplateCarousel;
+  }
+
+}
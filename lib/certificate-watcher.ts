@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs-extra';
+import * as pem from 'pem';
+import * as tls from 'tls';
+
+declare module 'pem' {
+  interface CertificateSubjectReadResult {
+    validity: { start: number, end: number };
+  }
+}
+
+export interface CertificateWatcherOptions {
+  key: string;
+  cert: string;
+  interval?: number;
+  warnBefore?: number;
+  checkInterval?: number;
+}
+
+export class CertificateWatcher extends EventEmitter {
+  public static defaultInterval = 5000;
+  public static defaultWarnBefore = 14 * 24 * 60 * 60 * 1000;
+  public static defaultCheckInterval = 12 * 60 * 60 * 1000;
+
+  public static readExpiry(cert: string | Buffer) {
+    return new Promise<Date>((resolve, reject) => {
+      pem.readCertificateInfo(cert.toString(), (err, info) => {
+        if (err) {
+          return reject(err);
+        }
+
+        resolve(new Date(info.validity.end));
+      });
+    });
+  }
+
+  public options: Required<CertificateWatcherOptions>;
+  public expiresAt?: Date;
+  public context?: tls.SecureContext;
+  private watching = false;
+  private reloading?: NodeJS.Timer;
+  private checking?: NodeJS.Timer;
+
+  constructor(options: CertificateWatcherOptions) {
+    super();
+
+    this.options = Object.assign({
+      checkInterval: CertificateWatcher.defaultCheckInterval,
+      interval: CertificateWatcher.defaultInterval,
+      warnBefore: CertificateWatcher.defaultWarnBefore
+    }, options);
+  }
+
+  public start() {
+    if (this.watching) {
+      return this;
+    }
+
+    const onChange = (current: fs.Stats, previous: fs.Stats) => {
+      if (current.mtime.getTime() !== previous.mtime.getTime()) {
+        this.scheduleReload();
+      }
+    };
+
+    this.watching = true;
+    fs.watchFile(this.options.key, { interval: this.options.interval, persistent: false }, onChange);
+    fs.watchFile(this.options.cert, { interval: this.options.interval, persistent: false }, onChange);
+
+    this.checking = setInterval(() => this.check(), this.options.checkInterval);
+    this.checking.unref();
+    this.check();
+
+    return this;
+  }
+
+  public stop() {
+    if (!this.watching) {
+      return;
+    }
+
+    this.watching = false;
+    fs.unwatchFile(this.options.key);
+    fs.unwatchFile(this.options.cert);
+
+    if (this.reloading) {
+      clearTimeout(this.reloading);
+      this.reloading = undefined;
+    }
+
+    if (this.checking) {
+      clearInterval(this.checking);
+      this.checking = undefined;
+    }
+  }
+
+  public async reload() {
+    const key = await fs.readFile(this.options.key);
+    const cert = await fs.readFile(this.options.cert);
+
+    this.context = tls.createSecureContext({ cert, key });
+
+    const expiresAt = await this.checkExpiry();
+
+    this.emit('reload', { cert: this.options.cert, expiresAt, key: this.options.key });
+
+    return expiresAt;
+  }
+
+  public async checkExpiry() {
+    const expiresAt = await CertificateWatcher.readExpiry(await fs.readFile(this.options.cert));
+    const remaining = expiresAt.getTime() - Date.now();
+
+    this.expiresAt = expiresAt;
+
+    if (remaining <= 0) {
+      this.emit('expired', expiresAt);
+    } else if (remaining <= this.options.warnBefore) {
+      this.emit('expiring', expiresAt, remaining);
+    }
+
+    return expiresAt;
+  }
+
+  private scheduleReload() {
+    if (this.reloading) {
+      clearTimeout(this.reloading);
+    }
+
+    this.reloading = setTimeout(() => {
+      this.reloading = undefined;
+      this.reload().catch((err) => this.emit('failed', err));
+    }, 100);
+  }
+
+  private check() {
+    this.checkExpiry().catch((err) => this.emit('failed', err));
+  }
+
+}
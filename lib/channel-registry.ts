@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs-extra';
+import { Channel, ChannelOptions } from './channel';
+import { ChannelTokenOptions } from './channel-token-manager';
+
+export class ChannelRegistry extends EventEmitter {
+  public static getEnvPrefix(id: string) {
+    return 'CHANNEL_' + id.toUpperCase().replace(/[^A-Z0-9]/g, '_') + '_';
+  }
+
+  public static fromEnv(env: { [name: string]: string | undefined } = process.env): ChannelOptions[] {
+    const ids = (env.CHANNELS || '').split(',').map((id) => id.trim()).filter((id) => id);
+
+    return ids.map((id) => {
+      const prefix = ChannelRegistry.getEnvPrefix(id);
+      const channelId = env[prefix + 'ID'];
+
+      return {
+        apiBaseURL: env[prefix + 'API_BASE_URL'],
+        channelAccessToken: env[prefix + 'ACCESS_TOKEN'] || '',
+        channelSecret: env[prefix + 'SECRET'] || '',
+        destination: env[prefix + 'DESTINATION'],
+        id,
+        token: channelId ? ChannelRegistry.getTokenOptions(channelId, env, prefix) : undefined,
+        webhookPath: env[prefix + 'WEBHOOK_PATH']
+      };
+    });
+  }
+
+  public static getTokenOptions(channelId: string, env: { [name: string]: string | undefined },
+                                prefix: string = 'CHANNEL_'): ChannelTokenOptions {
+    const expiresIn = env[prefix + 'TOKEN_EXPIRES_IN'];
+
+    return {
+      assertionKey: env[prefix + 'ASSERTION_KEY'],
+      assertionKeyId: env[prefix + 'ASSERTION_KID'],
+      channelId,
+      expiresIn: expiresIn ? Number(expiresIn) : undefined
+    };
+  }
+
+  public static fromFile(fileName: string): ChannelOptions[] {
+    const config = fs.readJsonSync(fileName);
+    const channels = Array.isArray(config) ? config : config.channels;
+
+    if (!Array.isArray(channels)) {
+      throw new Error('Invalid channels file ' + fileName +
+        '\nPlease provide an array of channels or an object with a channels array.');
+    }
+
+    return channels;
+  }
+
+  private channels: { [id: string]: Channel } = {};
+
+  constructor(channels: ChannelOptions[] = []) {
+    super();
+
+    channels.forEach((options) => this.add(options));
+  }
+
+  public get size() {
+    return this.list().length;
+  }
+
+  public add(options: ChannelOptions) {
+    if (this.channels[options.id]) {
+      throw new Error('Channel ' + options.id + ' is already registered');
+    }
+
+    if (options.webhookPath && this.findByPath(options.webhookPath)) {
+      throw new Error('Webhook path ' + options.webhookPath + ' is already used by channel ' +
+        (this.findByPath(options.webhookPath) as Channel).id);
+    }
+
+    const channel = new Channel(options);
+
+    this.channels[channel.id] = channel;
+    this.emit('add', channel);
+
+    return channel;
+  }
+
+  public remove(id: string) {
+    const channel = this.channels[id];
+
+    if (!channel) {
+      return false;
+    }
+
+    delete this.channels[id];
+    this.emit('remove', channel);
+
+    return true;
+  }
+
+  public get(id: string): Channel | undefined {
+    return this.channels[id];
+  }
+
+  public has(id: string) {
+    return !!this.channels[id];
+  }
+
+  public list() {
+    return Object.keys(this.channels).map((id) => this.channels[id]);
+  }
+
+  public findByPath(path: string) {
+    return this.list().find((channel) => channel.webhookPath === path);
+  }
+
+  public findByDestination(destination: string) {
+    return this.list().find((channel) => channel.destination === destination);
+  }
+
+}
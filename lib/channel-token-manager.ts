@@ -0,0 +1,261 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as https from 'https';
+import * as querystring from 'querystring';
+import * as url from 'url';
+import { MemoryStore } from './memory-store';
+import { Store } from './store';
+
+export interface ChannelTokenOptions {
+  channelId: string;
+  channelSecret?: string;
+  assertionKey?: string | Buffer;
+  assertionKeyId?: string;
+  expiresIn?: number;
+  refreshBefore?: number;
+  store?: Store<ChannelToken>;
+  oauthBaseURL?: string;
+  revokeOnStop?: boolean;
+}
+
+export interface ChannelToken {
+  accessToken: string;
+  expiresAt: number;
+  keyId?: string;
+}
+
+export class ChannelTokenManager extends EventEmitter {
+  public static defaultOAuthBaseURL = 'https://api.line.me/';
+  public static defaultRefreshBefore = 5 * 60 * 1000;
+  public static defaultExpiresIn = 30 * 24 * 60 * 60;
+  public static assertionTtl = 30 * 60;
+  public static maxTimerDelay = 2147483647;
+
+  public static createAssertion(channelId: string, key: string | Buffer, keyId?: string,
+                                expiresIn: number = ChannelTokenManager.defaultExpiresIn) {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => ChannelTokenManager.base64url(new Buffer(JSON.stringify(value)));
+    const header = encode(keyId ? { alg: 'RS256', kid: keyId, typ: 'JWT' } : { alg: 'RS256', typ: 'JWT' });
+    const payload = encode({
+      aud: 'https://api.line.me/',
+      exp: now + ChannelTokenManager.assertionTtl,
+      iss: channelId,
+      sub: channelId,
+      token_exp: expiresIn
+    });
+    const signature = crypto.createSign('RSA-SHA256').update(header + '.' + payload).sign(key.toString());
+
+    return header + '.' + payload + '.' + ChannelTokenManager.base64url(signature);
+  }
+
+  public static base64url(buffer: Buffer) {
+    return buffer.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  }
+
+  public options: ChannelTokenOptions;
+  public store: Store<ChannelToken>;
+  public token?: ChannelToken;
+  private issuing?: Promise<ChannelToken>;
+  private timer?: NodeJS.Timer;
+
+  constructor(options: ChannelTokenOptions) {
+    super();
+
+    if (!options.channelId) {
+      throw new Error('Missing channelId\nPlease set CHANNEL_ID environment variable.');
+    }
+
+    if (!options.assertionKey && !options.channelSecret) {
+      throw new Error('Missing channelSecret or assertionKey\nPlease set CHANNEL_SECRET or CHANNEL_ASSERTION_KEY ' +
+        'environment variable.');
+    }
+
+    this.options = options;
+    this.store = options.store || new MemoryStore<ChannelToken>();
+  }
+
+  public get version() {
+    return this.options.assertionKey ? 'v2.1' : 'v2';
+  }
+
+  public get refreshBefore() {
+    return this.options.refreshBefore !== undefined
+      ? this.options.refreshBefore
+      : ChannelTokenManager.defaultRefreshBefore;
+  }
+
+  public get storeKey() {
+    return 'channel-token:' + this.version + ':' + this.options.channelId;
+  }
+
+  public isFresh(token?: ChannelToken): token is ChannelToken {
+    return !!token && token.expiresAt - this.refreshBefore > Date.now();
+  }
+
+  public async getToken() {
+    if (this.isFresh(this.token)) {
+      return this.token.accessToken;
+    }
+
+    if (!this.issuing) {
+      this.issuing = this.load().then((token) => {
+        this.issuing = undefined;
+        return token;
+      }, (err) => {
+        this.issuing = undefined;
+        throw err;
+      });
+    }
+
+    return (await this.issuing).accessToken;
+  }
+
+  public async issue() {
+    const response = this.options.assertionKey
+      ? await this.request('oauth2/v2.1/token', {
+        client_assertion: ChannelTokenManager.createAssertion(this.options.channelId, this.readAssertionKey(),
+          this.options.assertionKeyId, this.options.expiresIn),
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        grant_type: 'client_credentials'
+      })
+      : await this.request('v2/oauth/accessToken', {
+        client_id: this.options.channelId,
+        client_secret: this.options.channelSecret as string,
+        grant_type: 'client_credentials'
+      });
+    const token: ChannelToken = {
+      accessToken: response.access_token,
+      expiresAt: Date.now() + Number(response.expires_in) * 1000,
+      keyId: response.key_id
+    };
+
+    await this.store.set(this.storeKey, token, token.expiresAt - Date.now());
+    this.use(token);
+    this.emit('token', token);
+
+    return token;
+  }
+
+  public async revoke(accessToken?: string) {
+    const token = accessToken || (this.token && this.token.accessToken);
+
+    if (!token) {
+      return;
+    }
+
+    if (this.options.assertionKey) {
+      if (!this.options.channelSecret) {
+        throw new Error('Missing channelSecret\nPlease set CHANNEL_SECRET environment variable to revoke v2.1 ' +
+          'channel access tokens.');
+      }
+
+      await this.request('oauth2/v2.1/revoke', {
+        access_token: token,
+        client_id: this.options.channelId,
+        client_secret: this.options.channelSecret
+      });
+    } else {
+      await this.request('v2/oauth/revoke', { access_token: token });
+    }
+
+    if (this.token && this.token.accessToken === token) {
+      this.stop();
+      this.token = undefined;
+      await this.store.delete(this.storeKey);
+    }
+
+    this.emit('revoke', token);
+  }
+
+  public stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async load() {
+    const stored = await this.store.get(this.storeKey);
+
+    if (this.isFresh(stored)) {
+      this.use(stored);
+      return stored;
+    }
+
+    return this.issue();
+  }
+
+  private use(token: ChannelToken) {
+    const delay = token.expiresAt - this.refreshBefore - Date.now();
+
+    this.token = token;
+    this.stop();
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+
+      if (this.token !== token) {
+        return;
+      }
+
+      if (this.isFresh(token)) {
+        return this.use(token);
+      }
+
+      this.getToken().catch((err) => this.emit('refreshFailed', err));
+    }, Math.max(0, Math.min(delay, ChannelTokenManager.maxTimerDelay)));
+    this.timer.unref();
+  }
+
+  private readAssertionKey() {
+    const key = this.options.assertionKey as string | Buffer;
+
+    return Buffer.isBuffer(key) || /-----BEGIN /.test(key) ? key : fs.readFileSync(key);
+  }
+
+  private request(path: string, form: { [name: string]: string }) {
+    const target = url.parse((this.options.oauthBaseURL || ChannelTokenManager.defaultOAuthBaseURL)
+      .replace(/\/?$/, '/') + path);
+    const body = querystring.stringify(form);
+    const send = target.protocol === 'http:' ? http.request : https.request as typeof http.request;
+
+    return new Promise<any>((resolve, reject) => {
+      const request = send({
+        headers: {
+          'Content-Length': Buffer.byteLength(body),
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        hostname: target.hostname,
+        method: 'POST',
+        path: target.path,
+        port: target.port
+      }, (res) => {
+        const chunks: Buffer[] = [];
+
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString();
+          let data: any = {};
+
+          try {
+            data = text ? JSON.parse(text) : {};
+          } catch (err) {
+            data = { message: text };
+          }
+
+          if (!res.statusCode || res.statusCode >= 400) {
+            return reject(new Error('Failed to request ' + path + ' (' + res.statusCode + ')\n' +
+              (data.error_description || data.message || data.error || text)));
+          }
+
+          resolve(data);
+        });
+      });
+
+      request.once('error', reject);
+      request.end(body);
+    });
+  }
+
+}
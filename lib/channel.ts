@@ -0,0 +1,89 @@
+import * as LINEBot from '@line/bot-sdk';
+import { RequestHandler } from 'express';
+import { ChannelTokenManager, ChannelTokenOptions } from './channel-token-manager';
+import { LINEClient } from './line-client';
+import { OutboundSender, OutboundSenderOptions } from './outbound-sender';
+
+export interface ChannelOptions {
+  id: string;
+  channelSecret: string;
+  channelAccessToken?: string;
+  token?: ChannelTokenOptions;
+  webhookPath?: string;
+  destination?: string;
+  apiBaseURL?: string;
+  outbound?: OutboundSenderOptions;
+}
+
+export class Channel {
+  public clientConfig: LINEBot.ClientConfig;
+  public client: LINEBot.Client;
+  public sender: OutboundSender;
+  public middleware: RequestHandler;
+  public tokens?: ChannelTokenManager;
+
+  constructor(public options: ChannelOptions) {
+    if (!options.id) {
+      throw new Error('Missing channel id\nPlease set id for every channel.');
+    }
+
+    if (!options.channelSecret) {
+      throw new Error('Missing channelSecret for channel ' + options.id + '\nPlease set channelSecret.');
+    }
+
+    if (!options.channelAccessToken && !options.token) {
+      throw new Error('Missing channelAccessToken for channel ' + options.id +
+        '\nPlease set channelAccessToken or token.');
+    }
+
+    if (options.token) {
+      this.tokens = new ChannelTokenManager({ channelSecret: options.channelSecret, ...options.token });
+    }
+
+    this.clientConfig = {
+      channelAccessToken: options.channelAccessToken || '',
+      channelSecret: options.channelSecret
+    };
+
+    this.client = LINEClient.create({
+      ...this.clientConfig,
+      apiBaseURL: options.apiBaseURL,
+      getAccessToken: this.tokens && (() => (this.tokens as ChannelTokenManager).getToken())
+    });
+
+    this.sender = new OutboundSender(this.client, options.outbound);
+
+    this.middleware = LINEBot.middleware(this.clientConfig as LINEBot.MiddlewareConfig);
+  }
+
+  public get id() {
+    return this.options.id;
+  }
+
+  public get webhookPath() {
+    return this.options.webhookPath;
+  }
+
+  public get destination() {
+    return this.options.destination;
+  }
+
+  public async start() {
+    if (this.tokens) {
+      await this.tokens.getToken();
+    }
+  }
+
+  public async stop() {
+    if (!this.tokens) {
+      return;
+    }
+
+    this.tokens.stop();
+
+    if (this.options.token && this.options.token.revokeOnStop !== false) {
+      await this.tokens.revoke();
+    }
+  }
+
+}
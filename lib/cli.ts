@@ -0,0 +1,328 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import * as url from 'url';
+import { BotServer } from './bot-server';
+import { BotServerOptions } from './bot-server-options';
+import { ConfigLoader } from './config-loader';
+import { WebhookEventOptions, WebhookEvents } from './webhook-events';
+import { WebhookSimulator } from './webhook-simulator';
+
+export interface CliArguments {
+  args: string[];
+  flags: { [name: string]: string | boolean };
+}
+
+export interface CliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+export class Cli {
+  public static booleanFlags = ['force', 'help', 'insecure'];
+
+  public static usage = [
+    'Usage: line-bot-server <command> [options]',
+    '',
+    'Commands:',
+    '  init [dir]                 Scaffold a bot project with .env, certificates and a sample handler',
+    '  ssl [dir]                  Generate a self-signed certificate (--days, --cn, --san, --force)',
+    '  config check               Validate the configuration (--env-file, --config)',
+    '  serve <handler-module>     Start a bot server with the handler module (--port, --webhook)',
+    '  send <webhook-url>         Send a signed webhook event (--event, --text, --data, --user, --group,',
+    '                             --file, --secret, --destination, --insecure)'
+  ].join('\n');
+
+  public static sampleHandler = [
+    'module.exports = function (server) {',
+    '  server.onFollow(function (event, context) {',
+    '    return context.reply({ type: \'text\', text: \'Thanks for adding me!\' });',
+    '  });',
+    '',
+    '  server.onKeyword(\'hello\', function (match, context) {',
+    '    return context.reply({ type: \'text\', text: \'Hello!\' });',
+    '  });',
+    '',
+    '  server.onTextFallback(function (match, context) {',
+    '    return context.reply({ type: \'text\', text: match.text });',
+    '  });',
+    '};',
+    ''
+  ].join('\n');
+
+  public static parseArgs(argv: string[]): CliArguments {
+    const result: CliArguments = { args: [], flags: {} };
+
+    for (let i = 0; i < argv.length; i++) {
+      const match = /^--?([^=]+)(?:=(.*))?$/.exec(argv[i]);
+
+      if (!match) {
+        result.args.push(argv[i]);
+      } else if (match[2] !== undefined) {
+        result.flags[match[1]] = match[2];
+      } else if (Cli.booleanFlags.indexOf(match[1]) >= 0 || match[1] === 'h' || i + 1 >= argv.length) {
+        result.flags[match[1] === 'h' ? 'help' : match[1]] = true;
+      } else {
+        result.flags[match[1]] = argv[++i];
+      }
+    }
+
+    return result;
+  }
+
+  private static getFlag(flags: CliArguments['flags'], name: string) {
+    const value = flags[name];
+
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private static loadHandler(modulePath: string): (server: BotServer) => any {
+    if (/\.ts$/.test(modulePath)) {
+      require('ts-node/register');
+    }
+
+    const loaded = require(modulePath);
+    const setup = typeof loaded === 'function' ? loaded : loaded.default || loaded.setup;
+
+    if (typeof setup !== 'function') {
+      throw new Error('Invalid handler module ' + modulePath +
+        '\nPlease export a function that receives the BotServer.');
+    }
+
+    return setup;
+  }
+
+  private static post(target: string, body: string, signature: string, insecure: boolean) {
+    const parsed = url.parse(target);
+    const send = parsed.protocol === 'https:' ? https.request : http.request as typeof https.request;
+
+    return new Promise<{ status: number, body: string }>((resolve, reject) => {
+      const request = send({
+        headers: {
+          'Content-Length': Buffer.byteLength(body),
+          'Content-Type': 'application/json',
+          'X-Line-Signature': signature
+        },
+        hostname: parsed.hostname,
+        method: 'POST',
+        path: parsed.path,
+        port: parsed.port,
+        rejectUnauthorized: !insecure
+      }, (res) => {
+        const chunks: Buffer[] = [];
+
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ body: Buffer.concat(chunks).toString(), status: res.statusCode || 0 }));
+      });
+
+      request.once('error', reject);
+      request.end(body);
+    });
+  }
+
+  public server?: BotServer;
+
+  constructor(public output: CliOutput = console) {
+  }
+
+  public async run(argv: string[]) {
+    const { args, flags } = Cli.parseArgs(argv);
+    const command = args.shift();
+
+    if (!command || command === 'help' || flags.help) {
+      this.output.log(Cli.usage);
+      return command || flags.help ? 0 : 1;
+    }
+
+    try {
+      switch (command) {
+        case 'init':
+          return await this.init(args[0] || '.', flags);
+        case 'ssl':
+          return await this.ssl(args[0] || 'ssl', flags);
+        case 'config':
+          if (args[0] !== 'check') {
+            throw new Error('Unknown config command ' + (args[0] || '') +
+              '\nDid you mean: line-bot-server config check');
+          }
+
+          return this.checkConfig(flags);
+        case 'serve':
+          return await this.serve(args[0], flags);
+        case 'send':
+          return await this.send(args[0], flags);
+        default:
+          throw new Error('Unknown command ' + command + '\n' + Cli.usage);
+      }
+    } catch (err) {
+      this.output.error(err.message);
+      return 1;
+    }
+  }
+
+  public async init(dir: string, flags: CliArguments['flags']) {
+    const envFile = path.resolve(dir, '.env');
+    const handlerFile = path.resolve(dir, 'bot.js');
+
+    await fs.ensureDir(dir);
+    await this.ssl(path.join(dir, 'ssl'), flags);
+
+    if (!fs.existsSync(envFile) || flags.force) {
+      BotServer.generateEnvFile(envFile, {
+        cert: path.join('ssl', 'localhost.crt'),
+        channelAccessToken: Cli.getFlag(flags, 'token') || '',
+        channelSecret: Cli.getFlag(flags, 'secret') || '',
+        key: path.join('ssl', 'localhost.key'),
+        port: Number(Cli.getFlag(flags, 'port') || 443)
+      });
+      this.output.log('Created ' + envFile);
+    } else {
+      this.output.log('Skipped ' + envFile + ' (already exists, use --force to overwrite)');
+    }
+
+    if (!fs.existsSync(handlerFile) || flags.force) {
+      await fs.writeFile(handlerFile, Cli.sampleHandler);
+      this.output.log('Created ' + handlerFile);
+    } else {
+      this.output.log('Skipped ' + handlerFile + ' (already exists, use --force to overwrite)');
+    }
+
+    this.output.log('\nSet CHANNEL_SECRET and CHANNEL_ACCESS_TOKEN in .env, then run:\n' +
+      '  cd ' + dir + ' && line-bot-server serve bot.js');
+
+    return 0;
+  }
+
+  public async ssl(dir: string, flags: CliArguments['flags']) {
+    const keyFile = path.resolve(dir, 'localhost.key');
+    const certFile = path.resolve(dir, 'localhost.crt');
+    const days = Number(Cli.getFlag(flags, 'days') || 9999);
+    const altNames = (Cli.getFlag(flags, 'san') || '').split(',').map((name) => name.trim()).filter((name) => name);
+
+    if (isNaN(days) || days <= 0) {
+      throw new Error('Invalid --days ' + Cli.getFlag(flags, 'days') + '\nPlease set a positive number of days.');
+    }
+
+    if (fs.existsSync(keyFile) && fs.existsSync(certFile) && !flags.force) {
+      this.output.log('Skipped ' + certFile + ' (already exists, use --force to overwrite)');
+      return 0;
+    }
+
+    await fs.ensureDir(dir);
+    await BotServer.generateSSLAsync(keyFile, certFile, days, true, {
+      altNames: altNames.length ? altNames : undefined,
+      commonName: Cli.getFlag(flags, 'cn'),
+      force: !!flags.force
+    });
+    this.output.log('Created ' + keyFile + '\nCreated ' + certFile);
+
+    return 0;
+  }
+
+  public checkConfig(flags: CliArguments['flags']) {
+    const options = ConfigLoader.load({
+      configFile: Cli.getFlag(flags, 'config'),
+      envFile: Cli.getFlag(flags, 'env-file')
+    });
+    const channels = (options.channels || []).map((channel) => channel.id);
+
+    this.output.log('Configuration is valid\n' +
+      '  transport: ' + (options.transport || 'https') + '\n' +
+      '  port: ' + (options.port === undefined ? '-' : options.port) + '\n' +
+      '  channels: ' + (options.channelSecret ? [BotServer.defaultChannelId] : []).concat(channels).join(', '));
+
+    return 0;
+  }
+
+  public async serve(moduleName: string | undefined, flags: CliArguments['flags']) {
+    if (!moduleName) {
+      throw new Error('Missing handler module\nUsage: line-bot-server serve <handler-module>');
+    }
+
+    const overrides: Partial<BotServerOptions> = { handleSignals: true };
+
+    if (Cli.getFlag(flags, 'port') !== undefined) {
+      overrides.port = Number(Cli.getFlag(flags, 'port'));
+    }
+
+    const server = new BotServer(ConfigLoader.load({
+      configFile: Cli.getFlag(flags, 'config'),
+      envFile: Cli.getFlag(flags, 'env-file'),
+      options: overrides
+    }));
+    const webhookPath = Cli.getFlag(flags, 'webhook') || '/webhook';
+    const setup = Cli.loadHandler(path.resolve(moduleName));
+
+    server.setWebhook(webhookPath);
+    await setup(server);
+
+    const port = await server.start();
+
+    this.server = server;
+    this.output.log('LINE bot listening on ' + server.transport + ' port ' + port + ', webhook ' + webhookPath);
+
+    return 0;
+  }
+
+  public async send(target: string | undefined, flags: CliArguments['flags']) {
+    if (!target) {
+      throw new Error('Missing webhook URL\nUsage: line-bot-server send <webhook-url>');
+    }
+
+    const secret = Cli.getFlag(flags, 'secret') ||
+      ConfigLoader.readEnv({ envFile: Cli.getFlag(flags, 'env-file') }).CHANNEL_SECRET;
+
+    if (!secret) {
+      throw new Error('Missing channel secret\nPlease pass --secret or set CHANNEL_SECRET.');
+    }
+
+    const body = JSON.stringify({
+      destination: Cli.getFlag(flags, 'destination'),
+      events: await this.buildEvents(flags)
+    });
+    const response = await Cli.post(target, body, WebhookSimulator.sign(body, secret), !!flags.insecure);
+
+    this.output.log(response.status + (response.body ? ' ' + response.body : ''));
+
+    return response.status >= 200 && response.status < 300 ? 0 : 1;
+  }
+
+  private async buildEvents(flags: CliArguments['flags']): Promise<LINEBot.WebhookEvent[]> {
+    const file = Cli.getFlag(flags, 'file');
+
+    if (file) {
+      const content = await fs.readJson(file);
+
+      return Array.isArray(content) ? content : content.events;
+    }
+
+    const userId = Cli.getFlag(flags, 'user');
+    const groupId = Cli.getFlag(flags, 'group');
+    const options: WebhookEventOptions = {
+      source: groupId ? WebhookEvents.group(groupId, userId) : WebhookEvents.user(userId)
+    };
+
+    switch (Cli.getFlag(flags, 'event') || 'text') {
+      case 'text':
+        return [WebhookEvents.text(Cli.getFlag(flags, 'text') || 'hello', options)];
+      case 'postback':
+        return [WebhookEvents.postback(Cli.getFlag(flags, 'data') || '', undefined, options)];
+      case 'follow':
+        return [WebhookEvents.follow(options)];
+      case 'unfollow':
+        return [WebhookEvents.unfollow(options)];
+      case 'join':
+        return [WebhookEvents.join(options)];
+      case 'leave':
+        return [WebhookEvents.leave(options)];
+      case 'image':
+        return [WebhookEvents.image(options)];
+      default:
+        throw new Error('Unknown event ' + Cli.getFlag(flags, 'event') +
+          '\nPlease use text, postback, follow, unfollow, join, leave or image.');
+    }
+  }
+
+}
@@ -0,0 +1,384 @@
+import * as Dotenv from 'dotenv';
+import * as fs from 'fs-extra';
+import * as yaml from 'js-yaml';
+import * as _ from 'lodash';
+import * as path from 'path';
+import * as url from 'url';
+import { BotServerOptions } from './bot-server-options';
+import { ChannelOptions } from './channel';
+import { ChannelRegistry } from './channel-registry';
+
+export type ConfigFieldType = 'string' | 'number' | 'port' | 'boolean' | 'enum' | 'url' | 'file' | 'list' |
+  'trustProxy';
+
+export interface ConfigField {
+  env: string;
+  key?: string;
+  type: ConfigFieldType;
+  description: string;
+  default?: string;
+  values?: string[];
+  secret?: boolean;
+}
+
+export interface ConfigEnv {
+  [name: string]: string | undefined;
+}
+
+export interface ConfigSources {
+  env?: ConfigEnv;
+  envFile?: string | false;
+  configFile?: string;
+  options?: Partial<BotServerOptions>;
+}
+
+export interface ConfigError extends Error {
+  errors: string[];
+}
+
+export class ConfigLoader {
+  public static defaultEnvFile = '.env';
+
+  public static schema: ConfigField[] = [
+    { description: 'Channel access token issued in the LINE Developers console.', env: 'CHANNEL_ACCESS_TOKEN',
+      key: 'channelAccessToken', secret: true, type: 'string' },
+    { description: 'Channel secret used to verify webhook signatures.', env: 'CHANNEL_SECRET', key: 'channelSecret',
+      secret: true, type: 'string' },
+    { description: 'Channel ID, to issue short-lived channel access tokens instead of CHANNEL_ACCESS_TOKEN.',
+      env: 'CHANNEL_ID', key: 'token.channelId', type: 'string' },
+    { description: 'Private key (PEM or path) to issue channel access tokens v2.1 with a JWT assertion.',
+      env: 'CHANNEL_ASSERTION_KEY', key: 'token.assertionKey', secret: true, type: 'string' },
+    { description: 'Key ID of the assertion key registered in the LINE Developers console.',
+      env: 'CHANNEL_ASSERTION_KID', key: 'token.assertionKeyId', type: 'string' },
+    { description: 'Lifetime in seconds of issued channel access tokens v2.1.', env: 'CHANNEL_TOKEN_EXPIRES_IN',
+      key: 'token.expiresIn', type: 'number' },
+    { description: 'Comma separated IDs of additional channels, configured with CHANNEL_<ID>_* variables.',
+      env: 'CHANNELS', type: 'list' },
+    { description: 'JSON file listing additional channels.', env: 'CHANNELS_FILE', key: 'channelsFile', type: 'file' },
+    { default: 'https', description: 'Transport of the webhook server.', env: 'TRANSPORT', key: 'transport',
+      type: 'enum', values: ['https', 'http', 'external'] },
+    { description: 'Host to listen on.', env: 'HOST', key: 'host', type: 'string' },
+    { default: '443 for https, 80 for http', description: 'Port to listen on.', env: 'PORT', key: 'port',
+      type: 'port' },
+    { description: 'TLS private key file, required for https.', env: 'SSL_KEY', key: 'key', type: 'file' },
+    { description: 'TLS certificate file, required for https.', env: 'SSL_CERT', key: 'cert', type: 'file' },
+    { default: 'false', description: 'Reload SSL_KEY and SSL_CERT when they change.', env: 'SSL_WATCH',
+      key: 'watchCertificates', type: 'boolean' },
+    { description: 'Express trust proxy setting: true, false, a hop count or addresses.', env: 'TRUST_PROXY',
+      key: 'trustProxy', type: 'trustProxy' },
+    { description: 'Base URL of the Messaging API, e.g. a local emulator.', env: 'API_BASE_URL', key: 'apiBaseURL',
+      type: 'url' },
+    { default: '10000', description: 'Milliseconds to wait for in-flight events when stopping.',
+      env: 'STOP_TIMEOUT', key: 'stopTimeout', type: 'number' },
+    { default: 'false', description: 'Stop gracefully on SIGTERM and SIGINT.', env: 'HANDLE_SIGNALS',
+      key: 'handleSignals', type: 'boolean' },
+    { description: 'ACME directory URL to obtain certificates from, e.g. Let\'s Encrypt.',
+      env: 'ACME_DIRECTORY_URL', key: 'acme.directoryURL', type: 'url' },
+    { description: 'ACME account private key (PEM or path).', env: 'ACME_ACCOUNT_KEY', key: 'acme.accountKey',
+      secret: true, type: 'string' },
+    { description: 'Contact email of the ACME account.', env: 'ACME_EMAIL', key: 'acme.email', type: 'string' },
+    { description: 'Comma separated domains to obtain a certificate for.', env: 'ACME_DOMAINS',
+      key: 'acme.domains', type: 'list' },
+    { description: 'Port to serve ACME HTTP-01 challenges on.', env: 'ACME_CHALLENGE_PORT',
+      key: 'acme.challengePort', type: 'port' },
+    { description: 'JSON file declaring rich menus to sync to the channels.', env: 'RICH_MENUS_FILE',
+      key: 'richMenus.file', type: 'file' },
+    { default: 'false', description: 'Sync RICH_MENUS_FILE when the server starts.', env: 'RICH_MENUS_SYNC',
+      key: 'richMenus.syncOnStart', type: 'boolean' },
+    { default: 'content', description: 'Directory to store downloaded media content in.', env: 'CONTENT_DIR',
+      key: 'content.dir', type: 'string' },
+    { default: '52428800', description: 'Maximum size in bytes of downloaded media content.',
+      env: 'CONTENT_MAX_SIZE', key: 'content.maxSize', type: 'number' },
+    { default: '3600000', description: 'Milliseconds to cache user profiles for.', env: 'PROFILE_CACHE_TTL',
+      key: 'profiles.ttl', type: 'number' },
+    { default: '1000', description: 'Maximum number of cached user profiles.', env: 'PROFILE_CACHE_SIZE',
+      key: 'profiles.maxSize', type: 'number' },
+    { description: 'JSON file remembering webhook event IDs across restarts, in memory if unset.',
+      env: 'DEDUPLICATION_FILE', key: 'deduplication.file', type: 'string' },
+    { default: '86400000', description: 'Milliseconds to remember webhook event IDs for.', env: 'DEDUPLICATION_TTL',
+      key: 'deduplication.ttl', type: 'number' },
+    { default: 'skip', description: 'Whether to skip or process events that were already received.',
+      env: 'REDELIVERY', key: 'deduplication.redelivery', type: 'enum', values: ['skip', 'process'] },
+    { description: 'JSON file to persist queued events in; setting any QUEUE_* variable acknowledges webhooks ' +
+      'before handling them.', env: 'QUEUE_FILE', key: 'queue.file', type: 'string' },
+    { default: '4', description: 'Queued events handled at the same time.', env: 'QUEUE_CONCURRENCY',
+      key: 'queue.concurrency', type: 'number' },
+    { default: '3', description: 'Retries of a failed queued event before it moves to the dead letters.',
+      env: 'QUEUE_MAX_RETRIES', key: 'queue.maxRetries', type: 'number' },
+    { default: 'info', description: 'Minimum level of the JSON log lines written to stdout.', env: 'LOG_LEVEL',
+      key: 'logging.level', type: 'enum', values: ['debug', 'info', 'warn', 'error', 'silent'] },
+    { default: 'true', description: 'Redact tokens and mask user IDs in log lines.', env: 'LOG_REDACT',
+      key: 'logging.redact', type: 'boolean' },
+    { description: 'JSON or YAML file with options, overridden by environment variables.', env: 'CONFIG_FILE',
+      type: 'file' }
+  ];
+
+  public static load(sources: ConfigSources = {}): BotServerOptions {
+    const errors: string[] = [];
+    const env = ConfigLoader.readEnv(sources, errors);
+    const configFile = sources.configFile || env.CONFIG_FILE;
+    let options: Partial<BotServerOptions> = {};
+
+    if (configFile) {
+      try {
+        options = ConfigLoader.readFile(configFile);
+      } catch (err) {
+        errors.push(err.message);
+      }
+    }
+
+    ConfigLoader.schema.forEach((field) => {
+      const raw = env[field.env];
+
+      if (field.key && raw !== undefined && raw !== '') {
+        _.set(options, field.key, ConfigLoader.parse(field, raw, errors));
+      }
+    });
+
+    if (env.CHANNELS) {
+      options.channels = (options.channels || []).concat(ChannelRegistry.fromEnv(env));
+    }
+
+    options = _.mergeWith(options, sources.options || {}, (target: any, source: any) => {
+      return Array.isArray(source) || Buffer.isBuffer(source) ? source : undefined;
+    });
+
+    if (options.port === undefined && options.transport !== 'external' && !options.server) {
+      options.port = options.transport === 'http' ? 80 : 443;
+    }
+
+    ConfigLoader.validate(options, errors);
+
+    if (errors.length) {
+      const message = 'Invalid configuration\n' + errors.map((item) => '- ' + item).join('\n') +
+        '\nPlease fix the environment variables or the config file.';
+      const error: ConfigError = Object.assign(new Error(message), { errors });
+
+      throw error;
+    }
+
+    return options as BotServerOptions;
+  }
+
+  public static readEnv(sources: ConfigSources = {}, errors: string[] = []) {
+    const base = sources.env || process.env;
+    const envFile = sources.envFile === undefined ? ConfigLoader.defaultEnvFile : sources.envFile;
+    let env: ConfigEnv = {};
+
+    if (envFile && fs.existsSync(envFile)) {
+      env = Dotenv.parse(fs.readFileSync(envFile));
+    } else if (envFile && sources.envFile) {
+      errors.push('Environment file not found: ' + envFile);
+    }
+
+    env = Object.assign(env, base);
+
+    ConfigLoader.schema.filter((field) => field.secret).forEach((field) => {
+      const fileName = env[field.env + '_FILE'];
+
+      if (!fileName || env[field.env]) {
+        return;
+      }
+
+      if (!fs.existsSync(fileName)) {
+        return errors.push(field.env + '_FILE file not found: ' + fileName);
+      }
+
+      env[field.env] = fs.readFileSync(fileName).toString().trim();
+    });
+
+    return env;
+  }
+
+  public static readFile(fileName: string): Partial<BotServerOptions> {
+    if (!fs.existsSync(fileName)) {
+      throw new Error('Config file not found: ' + fileName);
+    }
+
+    const text = fs.readFileSync(fileName).toString();
+    let config: any;
+
+    try {
+      config = /\.ya?ml$/i.test(fileName) ? yaml.safeLoad(text) : JSON.parse(text);
+    } catch (err) {
+      throw new Error('Invalid config file ' + fileName + ': ' + err.message.split('\n')[0]);
+    }
+
+    if (!_.isPlainObject(config)) {
+      throw new Error('Invalid config file ' + fileName + ': expected an object of options');
+    }
+
+    return config;
+  }
+
+  public static parseTrustProxy(value?: string): BotServerOptions['trustProxy'] {
+    if (!value) {
+      return undefined;
+    }
+
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+
+    return /^\d+$/.test(value) ? Number(value) : value;
+  }
+
+  public static validate(options: Partial<BotServerOptions>, errors: string[] = []) {
+    const channels = options.channels || [];
+    const hasChannels = !!channels.length || !!options.channelsFile;
+    const transport = options.transport || (options.server ? 'external' : 'https');
+
+    ConfigLoader.schema.forEach((field) => {
+      const value = field.key ? _.get(options, field.key) : undefined;
+
+      if (value !== undefined) {
+        const error = ConfigLoader.check(field, value);
+
+        if (error) {
+          errors.push(ConfigLoader.describe(field) + ' ' + error);
+        }
+      }
+    });
+
+    const missing = (key: string) => {
+      const field = ConfigLoader.schema.find((item) => item.key === key) as ConfigField;
+
+      errors.push('Missing ' + ConfigLoader.describe(field));
+    };
+
+    if (!options.channelSecret && !hasChannels) {
+      missing('channelSecret');
+    }
+
+    if (!options.channelAccessToken && !options.token && !hasChannels) {
+      missing('channelAccessToken');
+    }
+
+    if (options.token && !options.token.channelId) {
+      missing('token.channelId');
+    }
+
+    if (transport === 'https' && !options.key) {
+      missing('key');
+    }
+
+    if (transport === 'https' && !options.cert) {
+      missing('cert');
+    }
+
+    if (options.acme) {
+      ['acme.directoryURL', 'acme.accountKey'].filter((key) => !_.get(options, key)).forEach(missing);
+
+      if (!options.acme.domains || !options.acme.domains.length) {
+        missing('acme.domains');
+      }
+    }
+
+    channels.forEach((channel: ChannelOptions, i) => {
+      const prefix = channel.id ? ChannelRegistry.getEnvPrefix(channel.id) : 'CHANNEL_<ID>_';
+
+      if (!channel.id) {
+        errors.push('Missing channels[' + i + '].id');
+      }
+
+      if (!channel.channelSecret) {
+        errors.push('Missing ' + prefix + 'SECRET (channels[' + i + '].channelSecret)');
+      }
+
+      if (!channel.channelAccessToken && !channel.token) {
+        errors.push('Missing ' + prefix + 'ACCESS_TOKEN (channels[' + i + '].channelAccessToken)');
+      }
+    });
+
+    return errors;
+  }
+
+  public static generateTemplate(options: Partial<BotServerOptions> = {}) {
+    const lines = [
+      '# LINE Bot Server configuration',
+      '# Environment variables take precedence over this file.',
+      '# Secrets can also be read from files by appending _FILE to a name, e.g. CHANNEL_SECRET_FILE.',
+      ''
+    ];
+
+    ConfigLoader.schema.forEach((field) => {
+      const value = field.key ? _.get(options, field.key) : undefined;
+      const details = [field.type === 'enum' ? 'one of ' + (field.values as string[]).join(', ') : field.type];
+
+      if (field.default) {
+        details.push('default ' + field.default);
+      }
+
+      if (field.secret) {
+        details.push('secret');
+      }
+
+      lines.push('# ' + field.description + ' (' + details.join(', ') + ')');
+      lines.push(field.env + '=' + (value === undefined || Buffer.isBuffer(value) ? ''
+        : Array.isArray(value) ? value.join(',') : String(value)));
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  private static describe(field: ConfigField) {
+    return field.env + ' (' + field.key + ')';
+  }
+
+  private static parse(field: ConfigField, raw: string, errors: string[]) {
+    switch (field.type) {
+      case 'number':
+      case 'port':
+        if (!/^-?\d+(\.\d+)?$/.test(raw.trim())) {
+          errors.push(ConfigLoader.describe(field) + ' must be a number');
+          return undefined;
+        }
+
+        return Number(raw);
+      case 'boolean':
+        if (['true', '1', 'yes', 'false', '0', 'no'].indexOf(raw.toLowerCase()) < 0) {
+          errors.push(ConfigLoader.describe(field) + ' must be true or false');
+          return undefined;
+        }
+
+        return ['true', '1', 'yes'].indexOf(raw.toLowerCase()) >= 0;
+      case 'list':
+        return raw.split(',').map((item) => item.trim()).filter((item) => item);
+      case 'trustProxy':
+        return ConfigLoader.parseTrustProxy(raw);
+      default:
+        return raw;
+    }
+  }
+
+  private static check(field: ConfigField, value: any) {
+    switch (field.type) {
+      case 'number':
+        return typeof value !== 'number' || isNaN(value) ? 'must be a number' : undefined;
+      case 'port':
+        return typeof value !== 'number' || value % 1 !== 0 || value < 0 || value > 65535
+          ? 'must be a port number between 0 and 65535' : undefined;
+      case 'boolean':
+        return typeof value !== 'boolean' ? 'must be true or false' : undefined;
+      case 'enum':
+        return (field.values as string[]).indexOf(value) < 0
+          ? 'must be one of ' + (field.values as string[]).join(', ') : undefined;
+      case 'url':
+        const parsed = typeof value === 'string' ? url.parse(value) : undefined;
+
+        return !parsed || !/^https?:$/.test(parsed.protocol || '') || !parsed.host
+          ? 'must be an http or https URL' : undefined;
+      case 'file':
+        return typeof value === 'string' && !fs.existsSync(path.resolve(value))
+          ? 'file not found: ' + value : undefined;
+      case 'list':
+        return !Array.isArray(value) ? 'must be a list' : undefined;
+      case 'string':
+        return typeof value !== 'string' && !Buffer.isBuffer(value) ? 'must be a string' : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+}
@@ -0,0 +1,15 @@
+import * as LINEBot from '@line/bot-sdk';
+import { MessageBuilder } from './message-builder';
+
+export class ConfirmTemplateBuilder extends MessageBuilder<LINEBot.TemplateMessage> {
+
+  constructor(altText: string, text: string) {
+    super({ altText, template: { actions: [], text, type: 'confirm' }, type: 'template' });
+  }
+
+  public actions(left: LINEBot.Action, right: LINEBot.Action) {
+    (this.message.template as LINEBot.TemplateConfirm).actions = [left, right];
+    return this;
+  }
+
+}
@@ -0,0 +1,198 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentStorage } from './content-storage';
+import { EventContext } from './event-context';
+import { BotEvent, MessageEventOf } from './event-types';
+import { FileContentStorage } from './file-content-storage';
+
+export type ContentMessageType = 'image' | 'video' | 'audio' | 'file';
+
+export type ContentEvent = MessageEventOf<ContentMessageType>;
+
+export interface ContentOptions {
+  storage?: ContentStorage;
+  dir?: string;
+  maxSize?: number;
+  types?: ContentMessageType[];
+}
+
+export interface StoredContent {
+  messageId: string;
+  type: ContentMessageType;
+  key: string;
+  location: string;
+  contentType: string;
+  size: number;
+  hash: string;
+  duplicate: boolean;
+  fileName?: string;
+  event: ContentEvent;
+}
+
+export type ContentHandler = (content: StoredContent, context: EventContext) => any;
+
+interface ContentSignature {
+  contentType: string;
+  offset: number;
+  bytes: string;
+}
+
+export class ContentManager {
+  public static types: ContentMessageType[] = ['image', 'video', 'audio', 'file'];
+  public static defaultDir = 'content';
+  public static defaultMaxSize = 50 * 1024 * 1024;
+  public static headSize = 16;
+
+  public static signatures: ContentSignature[] = [
+    { bytes: 'ffd8ff', contentType: 'image/jpeg', offset: 0 },
+    { bytes: '89504e470d0a1a0a', contentType: 'image/png', offset: 0 },
+    { bytes: '47494638', contentType: 'image/gif', offset: 0 },
+    { bytes: '57454250', contentType: 'image/webp', offset: 8 },
+    { bytes: '667479704d3441', contentType: 'audio/x-m4a', offset: 4 },
+    { bytes: '66747970', contentType: 'video/mp4', offset: 4 },
+    { bytes: '494433', contentType: 'audio/mpeg', offset: 0 },
+    { bytes: 'fffb', contentType: 'audio/mpeg', offset: 0 },
+    { bytes: '4f676753', contentType: 'audio/ogg', offset: 0 },
+    { bytes: '57415645', contentType: 'audio/wav', offset: 8 },
+    { bytes: '25504446', contentType: 'application/pdf', offset: 0 },
+    { bytes: '504b0304', contentType: 'application/zip', offset: 0 }
+  ];
+
+  public static extensions: { [contentType: string]: string } = {
+    'application/octet-stream': '.bin',
+    'application/pdf': '.pdf',
+    'application/zip': '.zip',
+    'audio/mpeg': '.mp3',
+    'audio/ogg': '.ogg',
+    'audio/wav': '.wav',
+    'audio/x-m4a': '.m4a',
+    'image/gif': '.gif',
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+    'video/mp4': '.mp4'
+  };
+
+  public static fallbackTypes: { [type: string]: string } = {
+    audio: 'audio/x-m4a',
+    file: 'application/octet-stream',
+    image: 'image/jpeg',
+    video: 'video/mp4'
+  };
+
+  public static isContentEvent(event: BotEvent): event is ContentEvent {
+    return event.type === 'message' && ContentManager.types.indexOf(event.message.type as ContentMessageType) >= 0;
+  }
+
+  public static detectType(head: Buffer, fallback: string = 'application/octet-stream') {
+    const signature = ContentManager.signatures.find((item) => {
+      const bytes = new Buffer(item.bytes, 'hex');
+
+      return head.slice(item.offset, item.offset + bytes.length).equals(bytes);
+    });
+
+    return signature ? signature.contentType : fallback;
+  }
+
+  public static getExtension(contentType: string, fileName?: string) {
+    const known = ContentManager.extensions[contentType];
+    const extension = fileName ? path.extname(fileName).toLowerCase() : '';
+
+    if (known && known !== '.bin') {
+      return known;
+    }
+
+    return /^\.[a-z0-9]{1,10}$/.test(extension) ? extension : '.bin';
+  }
+
+  private static tooLarge(messageId: string, maxSize: number) {
+    return new Error('Content of message ' + messageId + ' exceeds ' + maxSize + ' bytes\n' +
+      'Please raise the maxSize option to accept larger content.');
+  }
+
+  public storage: ContentStorage;
+  public maxSize: number;
+  public types: ContentMessageType[];
+
+  constructor(options: ContentOptions = {}) {
+    this.storage = options.storage || new FileContentStorage(options.dir || ContentManager.defaultDir);
+    this.maxSize = options.maxSize || ContentManager.defaultMaxSize;
+    this.types = options.types || [];
+  }
+
+  public async store(client: LINEBot.Client, event: ContentEvent): Promise<StoredContent> {
+    const message = event.message;
+    const fileName = message.type === 'file' ? (message as LINEBot.FileEventMessage).fileName : undefined;
+    const tempName = path.join(os.tmpdir(), 'line-content-' + crypto.randomBytes(8).toString('hex'));
+
+    if (message.type === 'file' && Number((message as LINEBot.FileEventMessage).fileSize) > this.maxSize) {
+      throw ContentManager.tooLarge(message.id, this.maxSize);
+    }
+
+    try {
+      const download = await this.download(client, message.id, tempName);
+      const contentType = ContentManager.detectType(download.head, ContentManager.fallbackTypes[message.type]);
+      const key = download.hash + ContentManager.getExtension(contentType, fileName);
+      const duplicate = await this.storage.exists(key);
+      const location = duplicate
+        ? this.storage.locate(key)
+        : await this.storage.write(key, fs.createReadStream(tempName), contentType);
+
+      return {
+        contentType,
+        duplicate,
+        event,
+        fileName,
+        hash: download.hash,
+        key,
+        location,
+        messageId: message.id,
+        size: download.size,
+        type: message.type as ContentMessageType
+      };
+    } finally {
+      await fs.remove(tempName);
+    }
+  }
+
+  private async download(client: LINEBot.Client, messageId: string, tempName: string) {
+    const stream = await client.getMessageContent(messageId);
+    const hash = crypto.createHash('sha256');
+    const head: Buffer[] = [];
+    let size = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(tempName);
+      const fail = (err: Error) => {
+        stream.unpipe(output);
+        output.end();
+        reject(err);
+      };
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+
+        if (size > this.maxSize) {
+          stream.destroy();
+          return fail(ContentManager.tooLarge(messageId, this.maxSize));
+        }
+
+        if (size - chunk.length < ContentManager.headSize) {
+          head.push(chunk);
+        }
+
+        hash.update(chunk);
+      });
+      stream.once('error', fail);
+      output.once('error', fail);
+      output.once('finish', () => resolve());
+      stream.pipe(output);
+    });
+
+    return { hash: hash.digest('hex'), head: Buffer.concat(head).slice(0, ContentManager.headSize), size };
+  }
+
+}
@@ -0,0 +1,9 @@
+import { Readable } from 'stream';
+
+export interface ContentStorage {
+  exists(key: string): Promise<boolean>;
+  write(key: string, stream: Readable, contentType: string): Promise<string>;
+  read(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  locate(key: string): string;
+}
@@ -0,0 +1,57 @@
+import * as asyncHooks from 'async_hooks';
+
+export class ContextStorage<T> {
+  private static contexts = new Map<number, Map<ContextStorage<any>, any>>();
+  private static hook?: asyncHooks.AsyncHook;
+
+  private static enable() {
+    if (ContextStorage.hook) {
+      return;
+    }
+
+    ContextStorage.hook = asyncHooks.createHook({
+      destroy: (asyncId) => {
+        ContextStorage.contexts.delete(asyncId);
+      },
+      init: (asyncId) => {
+        const context = ContextStorage.contexts.get(asyncHooks.executionAsyncId());
+
+        if (context) {
+          ContextStorage.contexts.set(asyncId, context);
+        }
+      }
+    }).enable();
+  }
+
+  public run<R>(store: T, callback: () => R): R {
+    const asyncId = asyncHooks.executionAsyncId();
+    const previous = ContextStorage.contexts.get(asyncId);
+    const context = new Map<ContextStorage<any>, any>();
+
+    ContextStorage.enable();
+
+    if (previous) {
+      previous.forEach((value, storage) => context.set(storage, value));
+    }
+
+    context.set(this, store);
+    ContextStorage.contexts.set(asyncId, context);
+
+    try {
+      return callback();
+    } finally {
+      if (previous) {
+        ContextStorage.contexts.set(asyncId, previous);
+      } else {
+        ContextStorage.contexts.delete(asyncId);
+      }
+    }
+  }
+
+  public getStore(): T | undefined {
+    const context = ContextStorage.contexts.get(asyncHooks.executionAsyncId());
+
+    return context && context.get(this);
+  }
+
+}
@@ -0,0 +1,166 @@
+import * as LINEBot from '@line/bot-sdk';
+import { Dialog, DialogDefinition, DialogInput, DialogValues } from './dialog';
+import { EventContext } from './event-context';
+import { BotEvent } from './event-types';
+import { MemoryStore } from './memory-store';
+import { SessionManager } from './session-manager';
+import { Store } from './store';
+
+export interface DialogState {
+  dialog: string;
+  step: number;
+  retries: number;
+  values: DialogValues;
+}
+
+export interface DialogOptions {
+  store?: Store<DialogState>;
+  ttl?: number;
+}
+
+export class DialogManager {
+  public static getKey(source: LINEBot.EventSource, channelId: string) {
+    const key = channelId + ':' + SessionManager.getSourceKey(source);
+
+    return source.type !== 'user' && source.userId ? key + ':user:' + source.userId : key;
+  }
+
+  public static getInput(event: BotEvent): DialogInput | undefined {
+    if (event.type === 'message' && event.message.type === 'text') {
+      return { event, text: event.message.text };
+    }
+
+    if (event.type === 'postback') {
+      return { data: event.postback.data, event, params: event.postback.params };
+    }
+
+    return undefined;
+  }
+
+  public store: Store<DialogState>;
+  public ttl?: number;
+  private dialogs: { [name: string]: Dialog } = {};
+
+  constructor(options: DialogOptions = {}) {
+    this.store = options.store || new MemoryStore<DialogState>();
+    this.ttl = options.ttl;
+  }
+
+  public add(definition: DialogDefinition) {
+    this.dialogs[definition.name] = new Dialog(definition);
+    return this;
+  }
+
+  public get(name: string) {
+    const dialog = this.dialogs[name];
+
+    if (!dialog) {
+      throw new Error('Dialog ' + name + ' is not registered');
+    }
+
+    return dialog;
+  }
+
+  public getState(event: BotEvent, channelId: string) {
+    return this.store.get(DialogManager.getKey(event.source, channelId));
+  }
+
+  public async begin(name: string, event: BotEvent, context: EventContext, values: DialogValues = {}) {
+    const dialog = this.get(name);
+    const state: DialogState = { dialog: name, retries: 0, step: 0, values };
+
+    await this.store.set(DialogManager.getKey(event.source, context.channel.id), state, this.ttl);
+    await context.reply(Dialog.promptMessage(dialog.getPrompt(0, values)));
+  }
+
+  public async cancel(event: BotEvent, channelId: string) {
+    await this.store.delete(DialogManager.getKey(event.source, channelId));
+  }
+
+  public async handle(event: BotEvent, context: EventContext) {
+    const input = DialogManager.getInput(event);
+
+    if (!input) {
+      return false;
+    }
+
+    const key = DialogManager.getKey(event.source, context.channel.id);
+    const state = await this.store.get(key);
+
+    if (!state || !this.dialogs[state.dialog]) {
+      return false;
+    }
+
+    const dialog = this.dialogs[state.dialog];
+
+    if (dialog.isCancel(input)) {
+      await this.store.delete(key);
+
+      if (dialog.definition.cancelText) {
+        await context.reply({ text: dialog.definition.cancelText, type: 'text' });
+      }
+
+      if (dialog.definition.onCancel) {
+        await dialog.definition.onCancel(state.values, context);
+      }
+
+      return true;
+    }
+
+    let value: any;
+    let retryText: string | undefined;
+
+    try {
+      value = await dialog.validate(state.step, input, state.values);
+    } catch (err) {
+      value = undefined;
+      retryText = err.message;
+    }
+
+    if (value === undefined) {
+      return this.retry(dialog, state, key, context, retryText);
+    }
+
+    state.values[dialog.definition.steps[state.step].name] = value;
+    state.step++;
+    state.retries = 0;
+
+    if (state.step >= dialog.length) {
+      await this.store.delete(key);
+      await dialog.definition.onComplete(state.values, context);
+      return true;
+    }
+
+    await this.store.set(key, state, this.ttl);
+    await context.reply(Dialog.promptMessage(dialog.getPrompt(state.step, state.values)));
+
+    return true;
+  }
+
+  private async retry(dialog: Dialog, state: DialogState, key: string, context: EventContext, retryText?: string) {
+    state.retries++;
+
+    if (state.retries > dialog.maxRetries) {
+      await this.store.delete(key);
+
+      if (dialog.definition.tooManyRetriesText) {
+        await context.reply({ text: dialog.definition.tooManyRetriesText, type: 'text' });
+      }
+
+      if (dialog.definition.onCancel) {
+        await dialog.definition.onCancel(state.values, context);
+      }
+
+      return true;
+    }
+
+    const text = retryText || dialog.definition.steps[state.step].retryText;
+    const prompt = Dialog.promptMessage(dialog.getPrompt(state.step, state.values));
+
+    await this.store.set(key, state, this.ttl);
+    await context.reply(text ? [{ text, type: 'text' }, prompt] : prompt);
+
+    return true;
+  }
+
+}
@@ -0,0 +1,158 @@
+import * as LINEBot from '@line/bot-sdk';
+import { EventContext } from './event-context';
+
+export interface DialogValues {
+  [name: string]: any;
+}
+
+export interface DialogInput {
+  event: LINEBot.MessageEvent | LINEBot.PostbackEvent;
+  text?: string;
+  data?: string;
+  params?: LINEBot.Postback['params'];
+}
+
+export interface TextPrompt {
+  type: 'text';
+  text: string;
+}
+
+export interface QuickReplyPrompt {
+  type: 'quickReply';
+  text: string;
+  options: string[];
+}
+
+export interface ConfirmPrompt {
+  type: 'confirm';
+  text: string;
+  yesLabel?: string;
+  noLabel?: string;
+}
+
+export type DialogPrompt = TextPrompt | QuickReplyPrompt | ConfirmPrompt;
+
+export type DialogValidator = (input: DialogInput, values: DialogValues) => any;
+
+export interface DialogStep {
+  name: string;
+  prompt: DialogPrompt | ((values: DialogValues) => DialogPrompt);
+  validate?: DialogValidator;
+  retryText?: string;
+}
+
+export interface DialogDefinition {
+  name: string;
+  steps: DialogStep[];
+  maxRetries?: number;
+  cancelKeywords?: string[];
+  cancelText?: string;
+  tooManyRetriesText?: string;
+  onComplete: (values: DialogValues, context: EventContext) => any;
+  onCancel?: (values: DialogValues, context: EventContext) => any;
+}
+
+export class Dialog {
+  public static defaultMaxRetries = 3;
+  public static defaultCancelKeywords = ['cancel'];
+  public static confirmYesData = 'dialog:yes';
+  public static confirmNoData = 'dialog:no';
+
+  public static promptMessage(prompt: DialogPrompt): LINEBot.Message {
+    switch (prompt.type) {
+      case 'quickReply':
+        return {
+          quickReply: {
+            items: prompt.options.map((option): LINEBot.QuickReplyItem => ({
+              action: { label: option.substr(0, 20), text: option, type: 'message' },
+              type: 'action'
+            }))
+          },
+          text: prompt.text,
+          type: 'text'
+        };
+      case 'confirm': {
+        const yesLabel = prompt.yesLabel || 'Yes';
+        const noLabel = prompt.noLabel || 'No';
+
+        return {
+          altText: prompt.text,
+          template: {
+            actions: [
+              { data: Dialog.confirmYesData, displayText: yesLabel, label: yesLabel, type: 'postback' },
+              { data: Dialog.confirmNoData, displayText: noLabel, label: noLabel, type: 'postback' }
+            ],
+            text: prompt.text,
+            type: 'confirm'
+          },
+          type: 'template'
+        };
+      }
+      default:
+        return { text: prompt.text, type: 'text' };
+    }
+  }
+
+  public static defaultValidate(prompt: DialogPrompt, input: DialogInput) {
+    switch (prompt.type) {
+      case 'quickReply':
+        const option = input.text !== undefined ? input.text.trim() : undefined;
+
+        return option !== undefined && prompt.options.indexOf(option) >= 0 ? option : undefined;
+      case 'confirm':
+        if (input.data === Dialog.confirmYesData) {
+          return true;
+        }
+
+        if (input.data === Dialog.confirmNoData) {
+          return false;
+        }
+
+        return undefined;
+      default:
+        return input.text !== undefined && input.text.trim() ? input.text.trim() : undefined;
+    }
+  }
+
+  public maxRetries: number;
+  public cancelKeywords: string[];
+
+  constructor(public definition: DialogDefinition) {
+    if (!definition.steps.length) {
+      throw new Error('Dialog ' + definition.name + ' has no steps');
+    }
+
+    this.maxRetries = definition.maxRetries !== undefined ? definition.maxRetries : Dialog.defaultMaxRetries;
+    this.cancelKeywords = (definition.cancelKeywords || Dialog.defaultCancelKeywords)
+      .map((keyword) => keyword.toLowerCase());
+  }
+
+  public get name() {
+    return this.definition.name;
+  }
+
+  public get length() {
+    return this.definition.steps.length;
+  }
+
+  public getPrompt(step: number, values: DialogValues) {
+    const prompt = this.definition.steps[step].prompt;
+
+    return typeof prompt === 'function' ? prompt(values) : prompt;
+  }
+
+  public isCancel(input: DialogInput) {
+    return input.text !== undefined && this.cancelKeywords.indexOf(input.text.trim().toLowerCase()) >= 0;
+  }
+
+  public async validate(step: number, input: DialogInput, values: DialogValues) {
+    const definition = this.definition.steps[step];
+
+    if (definition.validate) {
+      return definition.validate(input, values);
+    }
+
+    return Dialog.defaultValidate(this.getPrompt(step, values), input);
+  }
+
+}
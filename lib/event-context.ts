@@ -0,0 +1,25 @@
+import * as LINEBot from '@line/bot-sdk';
+import { Channel } from './channel';
+import { StoredContent } from './content-manager';
+import { DialogValues } from './dialog';
+import { DeliveryContext } from './event-types';
+import { Responder } from './responder';
+import { Session } from './session';
+
+export interface EventContext {
+  beginDialog: (name: string, values?: DialogValues) => Promise<void>;
+  channel: Channel;
+  client: LINEBot.Client;
+  content?: StoredContent;
+  correlationId?: string;
+  deliveryContext: DeliveryContext;
+  destination?: string;
+  endpoint?: string;
+  linkRichMenu: (name: string) => Promise<void>;
+  readonly profile: Promise<LINEBot.Profile | undefined>;
+  push: (messages: LINEBot.Message | LINEBot.Message[]) => Promise<any>;
+  reply: (messages: LINEBot.Message | LINEBot.Message[]) => Promise<any>;
+  responder: Responder;
+  session?: Session;
+  unlinkRichMenu: () => Promise<void>;
+}
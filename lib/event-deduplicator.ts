@@ -0,0 +1,81 @@
+import * as crypto from 'crypto';
+import * as _ from 'lodash';
+import { BotEvent, DeliveryContext, WebhookEventMetadata } from './event-types';
+import { FileStore } from './file-store';
+import { MemoryStore } from './memory-store';
+import { Store } from './store';
+
+export type RedeliveryAction = 'skip' | 'process';
+
+export interface DeduplicationOptions {
+  store?: Store<number>;
+  file?: string;
+  ttl?: number;
+  redelivery?: RedeliveryAction;
+}
+
+export class EventDeduplicator {
+  public static defaultTtl = 24 * 60 * 60 * 1000;
+
+  public static getKey(event: BotEvent) {
+    const metadata = event as BotEvent & WebhookEventMetadata;
+
+    if (metadata.webhookEventId) {
+      return metadata.webhookEventId;
+    }
+
+    const content = _.omit(event, ['deliveryContext', 'replyToken', 'webhookEventId']);
+
+    return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+  }
+
+  public static isRedelivery(event: BotEvent) {
+    const deliveryContext = (event as BotEvent & WebhookEventMetadata).deliveryContext;
+
+    return !!deliveryContext && !!deliveryContext.isRedelivery;
+  }
+
+  public store: Store<number>;
+  public ttl: number;
+  public redelivery: RedeliveryAction;
+  private pending: { [key: string]: number } = {};
+
+  constructor(options: DeduplicationOptions = {}) {
+    this.store = options.store || (options.file ? new FileStore<number>(options.file) : new MemoryStore<number>());
+    this.ttl = options.ttl || EventDeduplicator.defaultTtl;
+    this.redelivery = options.redelivery || 'skip';
+  }
+
+  public async begin(event: BotEvent, channelId: string): Promise<DeliveryContext> {
+    const key = channelId + ':' + EventDeduplicator.getKey(event);
+    const isRedelivery = EventDeduplicator.isRedelivery(event);
+
+    if (this.pending[key] !== undefined) {
+      return { isRedelivery: true, seenAt: this.pending[key] };
+    }
+
+    this.pending[key] = Date.now();
+
+    try {
+      const seenAt = await this.store.get(key);
+
+      if (seenAt !== undefined) {
+        return { isRedelivery: true, seenAt };
+      }
+
+      await this.store.set(key, this.pending[key], this.ttl);
+      return { isRedelivery };
+    } finally {
+      delete this.pending[key];
+    }
+  }
+
+  public shouldSkip(deliveryContext: DeliveryContext) {
+    return deliveryContext.seenAt !== undefined && this.redelivery === 'skip';
+  }
+
+  public forget(event: BotEvent, channelId: string) {
+    return this.store.delete(channelId + ':' + EventDeduplicator.getKey(event));
+  }
+
+}
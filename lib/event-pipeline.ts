@@ -0,0 +1,96 @@
+import { EventContext } from './event-context';
+import { BotEvent } from './event-types';
+
+export type EventNext = () => Promise<void>;
+
+export type EventMiddleware = (event: BotEvent, context: EventContext, next: EventNext) => any;
+
+export type EventErrorMiddleware = (error: Error, event: BotEvent, context: EventContext,
+                                    next: (error?: Error) => Promise<void>) => any;
+
+export class EventPipeline {
+  public static compose(middleware: EventMiddleware[]) {
+    return (event: BotEvent, context: EventContext, last: EventNext = () => Promise.resolve()) => {
+      let index = -1;
+
+      const dispatch = (i: number): Promise<void> => {
+        if (i <= index) {
+          return Promise.reject(new Error('next() called multiple times\nPlease call next once per middleware.'));
+        }
+
+        index = i;
+
+        try {
+          const fn = i < middleware.length ? middleware[i] : last;
+
+          return Promise.resolve(fn(event, context, () => dispatch(i + 1))).then(() => undefined);
+        } catch (err) {
+          return Promise.reject(err);
+        }
+      };
+
+      return dispatch(0);
+    };
+  }
+
+  public middleware: Array<EventMiddleware | EventPipeline> = [];
+  public errorMiddleware: Array<EventErrorMiddleware | EventPipeline> = [];
+
+  public use(...middleware: Array<EventMiddleware | EventPipeline>) {
+    middleware.forEach((item) => {
+      if (item instanceof EventPipeline) {
+        this.errorMiddleware.unshift(item);
+      }
+
+      this.middleware.push(item);
+    });
+
+    return this;
+  }
+
+  public useError(...middleware: EventErrorMiddleware[]) {
+    this.errorMiddleware.push(...middleware);
+    return this;
+  }
+
+  public getMiddleware(): EventMiddleware[] {
+    return this.middleware.reduce((list, item) => {
+      return list.concat(item instanceof EventPipeline ? item.getMiddleware() : [item]);
+    }, [] as EventMiddleware[]);
+  }
+
+  public getErrorMiddleware(): EventErrorMiddleware[] {
+    return this.errorMiddleware.reduce((list, item) => {
+      return list.concat(item instanceof EventPipeline ? item.getErrorMiddleware() : [item]);
+    }, [] as EventErrorMiddleware[]);
+  }
+
+  public run(event: BotEvent, context: EventContext, handler: EventNext) {
+    return EventPipeline.compose(this.getMiddleware())(event, context, handler);
+  }
+
+  public async handleError(error: Error, event: BotEvent, context: EventContext): Promise<Error | undefined> {
+    let current = error;
+
+    for (const middleware of this.getErrorMiddleware()) {
+      let passed = false;
+
+      try {
+        await middleware(current, event, context, async (next?: Error) => {
+          passed = true;
+          current = next || current;
+        });
+      } catch (err) {
+        passed = true;
+        current = err;
+      }
+
+      if (!passed) {
+        return undefined;
+      }
+    }
+
+    return current;
+  }
+
+}
@@ -0,0 +1,104 @@
+import * as LINEBot from '@line/bot-sdk';
+import { EventContext } from './event-context';
+import { AccountLinkEvent, BotEvent, BotEventOf, BotEventType, EventMessageType, MemberJoinedEvent,
+  MemberLeftEvent, MessageEventOf } from './event-types';
+
+export type EventHandler<E extends BotEvent = BotEvent> = (event: E, context: EventContext) => any;
+
+export type EventErrorHandler = (error: Error, event: BotEvent, context: EventContext) => any;
+
+export class EventRouter {
+  private handlers: { [type: string]: EventHandler[] } = {};
+  private messageHandlers: { [type: string]: EventHandler[] } = {};
+  private errorHandlers: EventErrorHandler[] = [];
+
+  public on<T extends BotEventType>(type: T, handler: EventHandler<BotEventOf<T>>) {
+    this.handlers[type] = (this.handlers[type] || []).concat(handler as EventHandler);
+    return this;
+  }
+
+  public onAny(handler: EventHandler) {
+    return this.on('*' as BotEventType, handler);
+  }
+
+  public onMessage<T extends EventMessageType>(type: T, handler: EventHandler<MessageEventOf<T>>) {
+    this.messageHandlers[type] = (this.messageHandlers[type] || []).concat(handler as EventHandler);
+    return this;
+  }
+
+  public onAnyMessage(handler: EventHandler<LINEBot.MessageEvent>) {
+    return this.on('message', handler);
+  }
+
+  public onFollow(handler: EventHandler<LINEBot.FollowEvent>) {
+    return this.on('follow', handler);
+  }
+
+  public onUnfollow(handler: EventHandler<LINEBot.UnfollowEvent>) {
+    return this.on('unfollow', handler);
+  }
+
+  public onJoin(handler: EventHandler<LINEBot.JoinEvent>) {
+    return this.on('join', handler);
+  }
+
+  public onLeave(handler: EventHandler<LINEBot.LeaveEvent>) {
+    return this.on('leave', handler);
+  }
+
+  public onPostback(handler: EventHandler<LINEBot.PostbackEvent>) {
+    return this.on('postback', handler);
+  }
+
+  public onBeacon(handler: EventHandler<LINEBot.BeaconEvent>) {
+    return this.on('beacon', handler);
+  }
+
+  public onMemberJoined(handler: EventHandler<MemberJoinedEvent>) {
+    return this.on('memberJoined', handler);
+  }
+
+  public onMemberLeft(handler: EventHandler<MemberLeftEvent>) {
+    return this.on('memberLeft', handler);
+  }
+
+  public onAccountLink(handler: EventHandler<AccountLinkEvent>) {
+    return this.on('accountLink', handler);
+  }
+
+  public onError(handler: EventErrorHandler) {
+    this.errorHandlers.push(handler);
+    return this;
+  }
+
+  public getHandlers(event: BotEvent): EventHandler[] {
+    let handlers = this.handlers[event.type] || [];
+
+    if (event.type === 'message') {
+      handlers = handlers.concat(this.messageHandlers[event.message.type] || []);
+    }
+
+    return handlers.concat(this.handlers['*'] || []);
+  }
+
+  public async dispatch(event: BotEvent, context: EventContext) {
+    const handlers = this.getHandlers(event);
+
+    for (const handler of handlers) {
+      await handler(event, context);
+    }
+
+    return handlers.length > 0;
+  }
+
+  public async handleError(error: Error, event: BotEvent, context: EventContext) {
+    for (const handler of this.errorHandlers) {
+      try {
+        await handler(error, event, context);
+      } catch (err) {
+        // Error handlers must never break the webhook acknowledgement.
+      }
+    }
+  }
+
+}
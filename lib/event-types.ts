@@ -0,0 +1,50 @@
+import * as LINEBot from '@line/bot-sdk';
+
+export interface MemberJoinedEvent extends LINEBot.ReplyableEvent {
+  type: 'memberJoined';
+  joined: {
+    members: LINEBot.User[];
+  };
+}
+
+export interface MemberLeftEvent extends LINEBot.EventBase {
+  type: 'memberLeft';
+  left: {
+    members: LINEBot.User[];
+  };
+}
+
+export interface AccountLinkEvent extends LINEBot.ReplyableEvent {
+  type: 'accountLink';
+  link: {
+    result: 'ok' | 'failed';
+    nonce: string;
+  };
+}
+
+export interface DeliveryContext {
+  isRedelivery: boolean;
+  seenAt?: number;
+}
+
+export interface WebhookEventMetadata {
+  webhookEventId?: string;
+  deliveryContext?: DeliveryContext;
+}
+
+export type BotEvent = LINEBot.WebhookEvent | MemberJoinedEvent | MemberLeftEvent | AccountLinkEvent;
+
+export type BotEventType = BotEvent['type'];
+
+export type BotEventOf<T extends BotEventType> = Extract<BotEvent, { type: T }>;
+
+export type EventMessageType = LINEBot.EventMessage['type'];
+
+export type EventMessageOf<T extends EventMessageType> = Extract<LINEBot.EventMessage, { type: T }>;
+
+export type MessageEventOf<T extends EventMessageType> = LINEBot.MessageEvent & { message: EventMessageOf<T> };
+
+export interface WebhookRequestBody {
+  destination?: string;
+  events: BotEvent[];
+}
@@ -0,0 +1,66 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ContentStorage } from './content-storage';
+
+export class FileContentStorage implements ContentStorage {
+  public dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  public locate(key: string) {
+    const fileName = path.resolve(this.dir, key);
+
+    if (fileName.indexOf(this.dir + path.sep) !== 0) {
+      throw new Error('Invalid content key ' + key + '\nKeys must stay inside ' + this.dir + '.');
+    }
+
+    return fileName;
+  }
+
+  public exists(key: string) {
+    return fs.pathExists(this.locate(key));
+  }
+
+  public async write(key: string, stream: Readable, contentType: string) {
+    const fileName = this.locate(key);
+    const tempName = fileName + '.' + crypto.randomBytes(4).toString('hex') + '.tmp';
+
+    await fs.ensureDir(path.dirname(fileName));
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const output = fs.createWriteStream(tempName);
+
+        stream.once('error', reject);
+        output.once('error', reject);
+        output.once('finish', () => resolve());
+        stream.pipe(output);
+      });
+      await fs.rename(tempName, fileName);
+    } catch (err) {
+      await fs.remove(tempName);
+      throw err;
+    }
+
+    return fileName;
+  }
+
+  public async read(key: string): Promise<Readable> {
+    const fileName = this.locate(key);
+
+    if (!await fs.pathExists(fileName)) {
+      throw new Error('Content ' + key + ' is not stored');
+    }
+
+    return fs.createReadStream(fileName);
+  }
+
+  public delete(key: string) {
+    return fs.remove(this.locate(key));
+  }
+
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs-extra';
+import { Store } from './store';
+
+interface FileStoreEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+export class FileStore<T> implements Store<T> {
+  private entries?: Promise<{ [key: string]: FileStoreEntry<T> }>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(public fileName: string) {
+  }
+
+  public async get(key: string) {
+    const entries = await this.load();
+    const entry = entries[key];
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      delete entries[key];
+      await this.write();
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  public async set(key: string, value: T, ttl?: number) {
+    const entries = await this.load();
+
+    entries[key] = { expiresAt: ttl ? Date.now() + ttl : undefined, value };
+
+    await this.write();
+  }
+
+  public async delete(key: string) {
+    const entries = await this.load();
+
+    if (entries[key]) {
+      delete entries[key];
+      await this.write();
+    }
+  }
+
+  private load() {
+    if (!this.entries) {
+      this.entries = fs.pathExists(this.fileName)
+        .then((exists) => exists ? fs.readJson(this.fileName) : {})
+        .catch((err) => {
+          this.entries = undefined;
+          throw err;
+        });
+    }
+
+    return this.entries;
+  }
+
+  private write() {
+    const writing = this.writing.then(async () => {
+      const entries = await this.load();
+      const now = Date.now();
+      const tempFileName = this.fileName + '.tmp';
+
+      Object.keys(entries).forEach((key) => {
+        const expiresAt = entries[key].expiresAt;
+
+        if (expiresAt !== undefined && expiresAt <= now) {
+          delete entries[key];
+        }
+      });
+
+      await fs.outputJson(tempFileName, entries);
+      await fs.move(tempFileName, this.fileName, { overwrite: true });
+    });
+
+    this.writing = writing.catch(() => undefined);
+
+    return writing;
+  }
+
+}
@@ -0,0 +1,49 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as _ from 'lodash';
+import { MessageValidator } from './message-validator';
+
+export type FlexBlock = 'header' | 'hero' | 'body' | 'footer';
+
+export class FlexBubbleBuilder {
+  private bubble: LINEBot.FlexBubble = { type: 'bubble' };
+
+  public direction(direction: 'ltr' | 'rtl') {
+    this.bubble.direction = direction;
+    return this;
+  }
+
+  public header(box: LINEBot.FlexBox) {
+    this.bubble.header = box;
+    return this;
+  }
+
+  public hero(image: LINEBot.FlexImage) {
+    this.bubble.hero = image;
+    return this;
+  }
+
+  public body(box: LINEBot.FlexBox) {
+    this.bubble.body = box;
+    return this;
+  }
+
+  public footer(box: LINEBot.FlexBox) {
+    this.bubble.footer = box;
+    return this;
+  }
+
+  public style(block: FlexBlock, style: LINEBot.FlexBlockStyle) {
+    this.bubble.styles = this.bubble.styles || {};
+    this.bubble.styles[block] = style;
+    return this;
+  }
+
+  public build(): LINEBot.FlexBubble {
+    const bubble = _.cloneDeep(this.bubble);
+
+    MessageValidator.validateFlexContainer(bubble, 'bubble');
+
+    return bubble;
+  }
+
+}
@@ -0,0 +1,22 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as _ from 'lodash';
+import { FlexBubbleBuilder } from './flex-bubble-builder';
+import { MessageValidator } from './message-validator';
+
+export class FlexCarouselBuilder {
+  private carousel: LINEBot.FlexCarousel = { contents: [], type: 'carousel' };
+
+  public bubble(bubble: LINEBot.FlexBubble | FlexBubbleBuilder) {
+    this.carousel.contents.push(bubble instanceof FlexBubbleBuilder ? bubble.build() : bubble);
+    return this;
+  }
+
+  public build(): LINEBot.FlexCarousel {
+    const carousel = _.cloneDeep(this.carousel);
+
+    MessageValidator.validateFlexContainer(carousel, 'carousel');
+
+    return carousel;
+  }
+
+}
@@ -0,0 +1,40 @@
+import * as LINEBot from '@line/bot-sdk';
+
+export type FlexOptions<T> = Partial<Pick<T, Exclude<keyof T, 'type'>>>;
+
+export class Flex {
+
+  public static box(layout: LINEBot.FlexBox['layout'], contents: LINEBot.FlexComponent[],
+                    options: FlexOptions<LINEBot.FlexBox> = {}): LINEBot.FlexBox {
+    return Object.assign({}, options, { contents, layout, type: 'box' as 'box' });
+  }
+
+  public static text(text: string, options: FlexOptions<LINEBot.FlexText> = {}): LINEBot.FlexText {
+    return Object.assign({}, options, { text, type: 'text' as 'text' });
+  }
+
+  public static button(action: LINEBot.Action, options: FlexOptions<LINEBot.FlexButton> = {}): LINEBot.FlexButton {
+    return Object.assign({}, options, { action, type: 'button' as 'button' });
+  }
+
+  public static image(url: string, options: FlexOptions<LINEBot.FlexImage> = {}): LINEBot.FlexImage {
+    return Object.assign({}, options, { type: 'image' as 'image', url });
+  }
+
+  public static icon(url: string, options: FlexOptions<LINEBot.FlexIcon> = {}): LINEBot.FlexIcon {
+    return Object.assign({}, options, { type: 'icon' as 'icon', url });
+  }
+
+  public static separator(options: FlexOptions<LINEBot.FlexSeparator> = {}): LINEBot.FlexSeparator {
+    return Object.assign({}, options, { type: 'separator' as 'separator' });
+  }
+
+  public static spacer(size: LINEBot.FlexSpacer['size'] = 'md'): LINEBot.FlexSpacer {
+    return { size, type: 'spacer' };
+  }
+
+  public static filler(): LINEBot.FlexFiller {
+    return { type: 'filler' };
+  }
+
+}
@@ -0,0 +1,21 @@
+export type HealthStatus = 'ok' | 'fail';
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  [detail: string]: any;
+}
+
+export type HealthCheck = () => Promise<HealthCheckResult | void>;
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: { [name: string]: HealthCheckResult };
+}
+
+export interface HealthOptions {
+  livenessPath?: string;
+  readinessPath?: string;
+  timeout?: number;
+  maxBacklog?: number;
+  tokenCheckTtl?: number;
+}
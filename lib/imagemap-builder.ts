@@ -0,0 +1,20 @@
+import * as LINEBot from '@line/bot-sdk';
+import { MessageBuilder } from './message-builder';
+
+export class ImagemapBuilder extends MessageBuilder<LINEBot.ImageMapMessage> {
+
+  constructor(baseUrl: string, altText: string, width: number = 1040, height: number = 1040) {
+    super({ actions: [], altText, baseSize: { height, width }, baseUrl, type: 'imagemap' });
+  }
+
+  public uri(linkUri: string, area: LINEBot.Area) {
+    this.message.actions.push({ area, linkUri, type: 'uri' });
+    return this;
+  }
+
+  public text(text: string, area: LINEBot.Area) {
+    this.message.actions.push({ area, text, type: 'message' });
+    return this;
+  }
+
+}
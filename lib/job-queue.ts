@@ -0,0 +1,271 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface JobQueueOptions {
+  file?: string;
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+export interface Job<T> {
+  id: string;
+  group: string;
+  data: T;
+  attempts: number;
+  createdAt: number;
+  runAt: number;
+  error?: string;
+}
+
+export type JobWorker<T> = (job: Job<T>) => Promise<any>;
+
+interface JobQueueState<T> {
+  jobs: Array<Job<T>>;
+  deadLetters: Array<Job<T>>;
+}
+
+export class JobQueue<T> extends EventEmitter {
+  public static defaultOptions: Required<JobQueueOptions> = {
+    concurrency: 4,
+    file: '',
+    maxRetries: 3,
+    maxRetryDelay: 60000,
+    retryDelay: 1000
+  };
+
+  public options: Required<JobQueueOptions>;
+  public jobs: Array<Job<T>> = [];
+  public deadLetters: Array<Job<T>> = [];
+  private active: { [id: string]: Promise<void> } = {};
+  private activeGroups: { [group: string]: boolean } = {};
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+  private running = false;
+  private lastId = 0;
+  private timer?: NodeJS.Timer;
+
+  constructor(public worker: JobWorker<T>, options: JobQueueOptions = {}) {
+    super();
+
+    this.options = Object.assign({}, JobQueue.defaultOptions, options);
+  }
+
+  public get size() {
+    return this.jobs.length;
+  }
+
+  public get activeCount() {
+    return Object.keys(this.active).length;
+  }
+
+  public async add(group: string, data: T) {
+    return (await this.addAll([{ data, group }]))[0];
+  }
+
+  public async addAll(items: Array<{ group: string, data: T }>) {
+    await this.load();
+
+    const now = Date.now();
+    const jobs = items.map((item) => ({
+      attempts: 0,
+      createdAt: now,
+      data: item.data,
+      group: item.group,
+      id: now.toString(36) + '-' + (++this.lastId).toString(36),
+      runAt: now
+    }));
+
+    this.jobs.push(...jobs);
+    await this.write();
+    this.schedule();
+
+    return jobs;
+  }
+
+  public async start() {
+    await this.load();
+
+    this.running = true;
+    this.schedule();
+  }
+
+  public pause() {
+    this.running = false;
+    this.emit('pause');
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public async stop() {
+    this.pause();
+
+    await Promise.all(Object.keys(this.active).map((id) => this.active[id]));
+    await this.writing;
+  }
+
+  public drain() {
+    const paused = () => new Error('Cannot drain the queue while it is paused\nPlease call start first.');
+
+    if (!this.jobs.length) {
+      return Promise.resolve();
+    }
+
+    if (!this.running) {
+      return Promise.reject(paused());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        this.removeListener('pause', onPause);
+        resolve();
+      };
+      const onPause = () => {
+        this.removeListener('drain', onDrain);
+        reject(paused());
+      };
+
+      this.once('drain', onDrain);
+      this.once('pause', onPause);
+    });
+  }
+
+  public async requeue(id: string) {
+    const job = this.deadLetters.find((item) => item.id === id);
+
+    if (!job) {
+      throw new Error('Job ' + id + ' is not in the dead letters');
+    }
+
+    this.deadLetters.splice(this.deadLetters.indexOf(job), 1);
+    this.jobs.push({ ...job, attempts: 0, error: undefined, runAt: Date.now() });
+    await this.write();
+    this.schedule();
+
+    return job;
+  }
+
+  public getRetryDelay(attempts: number) {
+    return Math.min(this.options.maxRetryDelay, this.options.retryDelay * Math.pow(2, attempts - 1));
+  }
+
+  private load() {
+    if (!this.loading) {
+      this.loading = (this.options.file ? fs.pathExists(this.options.file) : Promise.resolve(false))
+        .then((exists) => exists ? fs.readJson(this.options.file) : { deadLetters: [], jobs: [] })
+        .then((state: JobQueueState<T>) => {
+          this.jobs = (state.jobs || []).concat(this.jobs);
+          this.deadLetters = (state.deadLetters || []).concat(this.deadLetters);
+        })
+        .catch((err) => {
+          this.loading = undefined;
+          throw err;
+        });
+    }
+
+    return this.loading;
+  }
+
+  private write() {
+    const file = this.options.file;
+
+    if (!file) {
+      return Promise.resolve();
+    }
+
+    const state: JobQueueState<T> = { deadLetters: this.deadLetters.slice(), jobs: this.jobs.slice() };
+    const tempFile = file + '.tmp';
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.ensureDir(path.dirname(file));
+        await fs.writeJson(tempFile, state);
+        await fs.rename(tempFile, file);
+      });
+
+    return this.writing;
+  }
+
+  private next(now: number) {
+    const blocked: { [group: string]: boolean } = { ...this.activeGroups };
+
+    for (const job of this.jobs) {
+      if (!blocked[job.group] && job.runAt <= now) {
+        return job;
+      }
+
+      blocked[job.group] = true;
+    }
+
+    return undefined;
+  }
+
+  private schedule() {
+    if (!this.running) {
+      return;
+    }
+
+    const now = Date.now();
+
+    while (this.activeCount < this.options.concurrency) {
+      const job = this.next(now);
+
+      if (!job) {
+        break;
+      }
+
+      this.run(job);
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const delayed = this.jobs.filter((job) => job.runAt > now).map((job) => job.runAt);
+
+    if (delayed.length) {
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.schedule();
+      }, Math.min(...delayed) - now);
+    } else if (!this.jobs.length) {
+      this.emit('drain');
+    }
+  }
+
+  private run(job: Job<T>) {
+    job.attempts++;
+    this.activeGroups[job.group] = true;
+    this.active[job.id] = this.worker(job).then(() => {
+      this.jobs.splice(this.jobs.indexOf(job), 1);
+      this.emit('completed', job);
+    }, (err: Error) => {
+      job.error = err.message;
+
+      if (job.attempts <= this.options.maxRetries) {
+        job.runAt = Date.now() + this.getRetryDelay(job.attempts);
+        this.emit('retry', job, err);
+      } else {
+        this.jobs.splice(this.jobs.indexOf(job), 1);
+        this.deadLetters.push(job);
+        this.emit('failed', job, err);
+      }
+    }).then(() => this.write()).catch((err) => {
+      if (this.listenerCount('error')) {
+        this.emit('error', err);
+      }
+    }).then(() => {
+      delete this.active[job.id];
+      delete this.activeGroups[job.group];
+      this.schedule();
+    });
+  }
+
+}
@@ -0,0 +1,28 @@
+import { LogFields, Logger, LogLevel } from './logger';
+
+export class JsonLogger implements Logger {
+
+  constructor(public stream: NodeJS.WritableStream = process.stdout) {
+  }
+
+  public debug(message: string, fields?: LogFields) {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields) {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields) {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields) {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields) {
+    this.stream.write(JSON.stringify({ ...fields, level, msg: message, time: new Date().toISOString() }) + '\n');
+  }
+
+}
@@ -0,0 +1,166 @@
+import * as LINEBot from '@line/bot-sdk';
+import { Readable } from 'stream';
+
+export interface LINEClientConfig extends LINEBot.ClientConfig {
+  apiBaseURL?: string;
+  getAccessToken?: () => Promise<string>;
+}
+
+export interface LINEBotInfo {
+  userId: string;
+  basicId: string;
+  premiumId?: string;
+  displayName: string;
+  pictureUrl?: string;
+  chatMode: 'chat' | 'bot';
+  markAsReadMode: 'auto' | 'manual';
+}
+
+export type LINEClientMethod = 'delete' | 'get' | 'post' | 'postBinary' | 'stream';
+
+export interface LINEClientRequest {
+  method: LINEClientMethod;
+  url: string;
+  path: string;
+  headers: { [name: string]: string };
+  body?: any;
+  contentType?: string;
+}
+
+export type LINEClientHook = (request: LINEClientRequest, next: () => Promise<any>) => Promise<any>;
+
+interface LINEClientTransport {
+  authHeader(): { [name: string]: string };
+  delete(url: string): Promise<any>;
+  get(url: string): Promise<any>;
+  post(url: string, body?: any): Promise<any>;
+  postBinary(url: string, data: Buffer | Readable, contentType?: string): Promise<any>;
+  stream(url: string): Promise<Readable>;
+}
+
+interface LINEClientState {
+  apiBaseURL: string;
+  getAccessToken?: () => Promise<string>;
+  hooks: LINEClientHook[];
+  send: (request: LINEClientRequest) => Promise<any>;
+}
+
+export class LINEClient {
+  public static sdkBaseURL = process.env.API_BASE_URL || 'https://api.line.me/v2/bot/';
+  public static requestMethods: LINEClientMethod[] = ['delete', 'get', 'post', 'postBinary', 'stream'];
+  public static pendingAccessToken = 'pending';
+
+  public static create(config: LINEClientConfig) {
+    const client = new LINEBot.Client(config.getAccessToken && !config.channelAccessToken
+      ? { ...config, channelAccessToken: LINEClient.pendingAccessToken }
+      : config);
+
+    LINEClient.install(client, LINEClient.normalizeBaseURL(config.apiBaseURL), config.getAccessToken);
+
+    return client;
+  }
+
+  public static use(client: LINEBot.Client, hook: LINEClientHook) {
+    const state = LINEClient.states.get(client) || LINEClient.install(client, LINEClient.sdkBaseURL);
+
+    state.hooks.unshift(hook);
+  }
+
+  public static getBotInfo(client: LINEBot.Client): Promise<LINEBotInfo> {
+    return (client as {} as LINEClientTransport).get(LINEClient.sdkBaseURL + 'info');
+  }
+
+  public static normalizeBaseURL(apiBaseURL?: string) {
+    if (!apiBaseURL) {
+      return LINEClient.sdkBaseURL;
+    }
+
+    return /\/$/.test(apiBaseURL) ? apiBaseURL : apiBaseURL + '/';
+  }
+
+  public static resolveURL(url: string, apiBaseURL?: string) {
+    if (url.indexOf(LINEClient.sdkBaseURL) !== 0) {
+      return url;
+    }
+
+    return LINEClient.normalizeBaseURL(apiBaseURL) + url.substr(LINEClient.sdkBaseURL.length);
+  }
+
+  private static states = new WeakMap<LINEBot.Client, LINEClientState>();
+
+  private static install(client: LINEBot.Client, apiBaseURL: string, getAccessToken?: () => Promise<string>) {
+    const transport = client as {} as LINEClientTransport;
+    const methods: Array<keyof LINEClientTransport> = ['authHeader', ...LINEClient.requestMethods];
+
+    if (methods.some((method) => typeof transport[method] !== 'function')) {
+      throw new Error('Unsupported @line/bot-sdk version\nPlease install @line/bot-sdk 6.3.0, ' +
+        'the version LINEClient extends.');
+    }
+
+    const original = {
+      authHeader: transport.authHeader,
+      delete: transport.delete,
+      get: transport.get,
+      post: transport.post,
+      postBinary: transport.postBinary,
+      stream: transport.stream
+    };
+    let headers: { [name: string]: string } = {};
+
+    const call = (request: LINEClientRequest): Promise<any> => {
+      headers = request.headers;
+
+      try {
+        switch (request.method) {
+          case 'post':
+            return original.post.call(client, request.url, request.body);
+          case 'postBinary':
+            return original.postBinary.call(client, request.url, request.body, request.contentType);
+          default:
+            return original[request.method].call(client, request.url);
+        }
+      } finally {
+        headers = {};
+      }
+    };
+    const state: LINEClientState = {
+      apiBaseURL,
+      getAccessToken,
+      hooks: [],
+      send: (request) => {
+        const dispatch = (index: number): Promise<any> => {
+          if (index < state.hooks.length) {
+            return Promise.resolve().then(() => state.hooks[index](request, () => dispatch(index + 1)));
+          }
+
+          if (!state.getAccessToken) {
+            return call(request);
+          }
+
+          return state.getAccessToken().then((accessToken) => {
+            client.config.channelAccessToken = accessToken;
+            return call(request);
+          });
+        };
+
+        return dispatch(0);
+      }
+    };
+
+    transport.authHeader = () => ({ ...original.authHeader.call(client), ...headers });
+    LINEClient.requestMethods.forEach((method) => {
+      transport[method] = (url: string, body?: any, contentType?: string) => state.send({
+        body,
+        contentType,
+        headers: {},
+        method,
+        path: url.indexOf(LINEClient.sdkBaseURL) === 0 ? url.substr(LINEClient.sdkBaseURL.length) : url,
+        url: LINEClient.resolveURL(url, apiBaseURL)
+      });
+    });
+    LINEClient.states.set(client, state);
+
+    return state;
+  }
+
+}
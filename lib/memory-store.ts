@@ -0,0 +1,46 @@
+import { Store } from './store';
+
+interface MemoryStoreEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+export class MemoryStore<T> implements Store<T> {
+  private entries: { [key: string]: MemoryStoreEntry<T> } = {};
+
+  public async get(key: string) {
+    const entry = this.entries[key];
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      delete this.entries[key];
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  public async set(key: string, value: T, ttl?: number) {
+    this.entries[key] = { expiresAt: ttl ? Date.now() + ttl : undefined, value };
+  }
+
+  public async delete(key: string) {
+    delete this.entries[key];
+  }
+
+  public prune() {
+    const now = Date.now();
+
+    Object.keys(this.entries).forEach((key) => {
+      const expiresAt = this.entries[key].expiresAt;
+
+      if (expiresAt !== undefined && expiresAt <= now) {
+        delete this.entries[key];
+      }
+    });
+  }
+
+}
@@ -0,0 +1,20 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as _ from 'lodash';
+import { MessageValidator } from './message-validator';
+import { QuickReplyBuilder } from './quick-reply-builder';
+
+export class MessageBuilder<M extends LINEBot.Message = LINEBot.Message> {
+
+  constructor(protected message: M) {
+  }
+
+  public quickReply(quickReply: LINEBot.QuickReply | QuickReplyBuilder) {
+    this.message.quickReply = quickReply instanceof QuickReplyBuilder ? quickReply.build() : quickReply;
+    return this;
+  }
+
+  public build(): M {
+    return MessageValidator.validateMessage(_.cloneDeep(this.message)) as M;
+  }
+
+}
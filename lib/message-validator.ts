@@ -0,0 +1,322 @@
+import * as LINEBot from '@line/bot-sdk';
+
+export class MessageValidator {
+  public static limits = {
+    actionLabelLength: 20,
+    actionTextLength: 300,
+    altTextLength: 400,
+    buttonsActions: 4,
+    buttonsTextLength: 160,
+    buttonsTextLengthWithHeader: 60,
+    carouselActions: 3,
+    carouselColumns: 10,
+    carouselTextLength: 120,
+    carouselTextLengthWithHeader: 60,
+    confirmActions: 2,
+    confirmTextLength: 240,
+    flexCarouselBubbles: 10,
+    imagemapActions: 50,
+    imagemapTextLength: 400,
+    locationAddressLength: 100,
+    locationTitleLength: 100,
+    messages: 5,
+    postbackDataLength: 300,
+    quickReplyItems: 13,
+    templateTitleLength: 40,
+    textLength: 2000,
+    urlLength: 1000
+  };
+
+  public static validateMessages(messages: LINEBot.Message | LINEBot.Message[]) {
+    const list = Array.isArray(messages) ? messages : [messages];
+
+    if (!list.length) {
+      throw new Error('Invalid messages: at least one message is required');
+    }
+
+    if (list.length > MessageValidator.limits.messages) {
+      throw new Error('Invalid messages: at most ' + MessageValidator.limits.messages + ' messages can be sent ' +
+        'in one request (got ' + list.length + ')');
+    }
+
+    list.forEach((message, index) => MessageValidator.validateMessage(message, 'messages[' + index + ']'));
+
+    return list;
+  }
+
+  public static validateMessage(message: LINEBot.Message, path: string = 'message') {
+    const limits = MessageValidator.limits;
+
+    switch (message.type) {
+      case 'text':
+        MessageValidator.text(message.text, path + '.text', limits.textLength);
+        break;
+      case 'image':
+      case 'video':
+        MessageValidator.url(message.originalContentUrl, path + '.originalContentUrl', true);
+        MessageValidator.url(message.previewImageUrl, path + '.previewImageUrl', true);
+        break;
+      case 'audio':
+        MessageValidator.url(message.originalContentUrl, path + '.originalContentUrl', true);
+        MessageValidator.positive(message.duration, path + '.duration');
+        break;
+      case 'location':
+        MessageValidator.text(message.title, path + '.title', limits.locationTitleLength);
+        MessageValidator.text(message.address, path + '.address', limits.locationAddressLength);
+        MessageValidator.range(message.latitude, path + '.latitude', -90, 90);
+        MessageValidator.range(message.longitude, path + '.longitude', -180, 180);
+        break;
+      case 'sticker':
+        MessageValidator.text(message.packageId, path + '.packageId');
+        MessageValidator.text(message.stickerId, path + '.stickerId');
+        break;
+      case 'imagemap':
+        MessageValidator.validateImagemap(message, path);
+        break;
+      case 'template':
+        MessageValidator.text(message.altText, path + '.altText', limits.altTextLength);
+        MessageValidator.validateTemplate(message.template, path + '.template');
+        break;
+      case 'flex':
+        MessageValidator.text(message.altText, path + '.altText', limits.altTextLength);
+        MessageValidator.validateFlexContainer(message.contents, path + '.contents');
+        break;
+      default:
+        throw new Error('Invalid ' + path + ': unknown message type ' + (message as { type: string }).type);
+    }
+
+    if (message.quickReply) {
+      MessageValidator.validateQuickReply(message.quickReply, path + '.quickReply');
+    }
+
+    return message;
+  }
+
+  public static validateImagemap(message: LINEBot.ImageMapMessage, path: string) {
+    const limits = MessageValidator.limits;
+
+    MessageValidator.url(message.baseUrl, path + '.baseUrl', true);
+    MessageValidator.text(message.altText, path + '.altText', limits.altTextLength);
+    MessageValidator.positive(message.baseSize.width, path + '.baseSize.width');
+    MessageValidator.positive(message.baseSize.height, path + '.baseSize.height');
+    MessageValidator.count(message.actions, path + '.actions', 1, limits.imagemapActions);
+
+    message.actions.forEach((action, index) => {
+      const actionPath = path + '.actions[' + index + ']';
+
+      if (action.type === 'uri') {
+        MessageValidator.url(action.linkUri, actionPath + '.linkUri');
+      } else {
+        MessageValidator.text(action.text, actionPath + '.text', limits.imagemapTextLength);
+      }
+    });
+  }
+
+  public static validateTemplate(template: LINEBot.TemplateContent, path: string) {
+    const limits = MessageValidator.limits;
+
+    switch (template.type) {
+      case 'buttons': {
+        const hasHeader = !!(template.thumbnailImageUrl || template.title);
+
+        if (template.thumbnailImageUrl) {
+          MessageValidator.url(template.thumbnailImageUrl, path + '.thumbnailImageUrl', true);
+        }
+
+        if (template.title !== undefined) {
+          MessageValidator.text(template.title, path + '.title', limits.templateTitleLength);
+        }
+
+        MessageValidator.text(template.text, path + '.text',
+          hasHeader ? limits.buttonsTextLengthWithHeader : limits.buttonsTextLength);
+        MessageValidator.actions(template.actions, path + '.actions', 1, limits.buttonsActions);
+        break;
+      }
+      case 'confirm':
+        MessageValidator.text(template.text, path + '.text', limits.confirmTextLength);
+        MessageValidator.actions(template.actions, path + '.actions', limits.confirmActions, limits.confirmActions);
+        break;
+      case 'carousel':
+        MessageValidator.count(template.columns, path + '.columns', 1, limits.carouselColumns);
+
+        template.columns.forEach((column, index) => {
+          const columnPath = path + '.columns[' + index + ']';
+          const hasHeader = !!(column.thumbnailImageUrl || column.title);
+
+          if (column.thumbnailImageUrl) {
+            MessageValidator.url(column.thumbnailImageUrl, columnPath + '.thumbnailImageUrl', true);
+          }
+
+          if (column.title !== undefined) {
+            MessageValidator.text(column.title, columnPath + '.title', limits.templateTitleLength);
+          }
+
+          MessageValidator.text(column.text, columnPath + '.text',
+            hasHeader ? limits.carouselTextLengthWithHeader : limits.carouselTextLength);
+          MessageValidator.actions(column.actions, columnPath + '.actions', 1, limits.carouselActions);
+
+          if (column.defaultAction) {
+            MessageValidator.action(column.defaultAction, columnPath + '.defaultAction', false);
+          }
+
+          if (column.actions.length !== template.columns[0].actions.length) {
+            throw new Error('Invalid ' + columnPath + '.actions: every carousel column must have the same number ' +
+              'of actions (expected ' + template.columns[0].actions.length + ', got ' + column.actions.length + ')');
+          }
+        });
+        break;
+      default:
+        throw new Error('Invalid ' + path + ': unsupported template type ' + template.type);
+    }
+  }
+
+  public static validateFlexContainer(container: LINEBot.FlexContainer, path: string) {
+    if (container.type === 'carousel') {
+      MessageValidator.count(container.contents, path + '.contents', 1, MessageValidator.limits.flexCarouselBubbles);
+      container.contents.forEach((bubble, index) => {
+        MessageValidator.validateFlexContainer(bubble, path + '.contents[' + index + ']');
+      });
+      return;
+    }
+
+    if (container.type !== 'bubble') {
+      throw new Error('Invalid ' + path + ': unknown flex container type ' + (container as { type: string }).type);
+    }
+
+    if (!container.header && !container.hero && !container.body && !container.footer) {
+      throw new Error('Invalid ' + path + ': bubble must have at least one of header, hero, body or footer');
+    }
+
+    (['header', 'body', 'footer'] as Array<'header' | 'body' | 'footer'>).forEach((block) => {
+      const box = container[block];
+
+      if (box) {
+        MessageValidator.validateFlexComponent(box, path + '.' + block);
+      }
+    });
+
+    if (container.hero) {
+      MessageValidator.validateFlexComponent(container.hero, path + '.hero');
+    }
+  }
+
+  public static validateFlexComponent(component: LINEBot.FlexComponent, path: string) {
+    switch (component.type) {
+      case 'box':
+        if (!component.contents.length) {
+          throw new Error('Invalid ' + path + '.contents: box must have at least one component');
+        }
+
+        component.contents.forEach((child, index) => {
+          MessageValidator.validateFlexComponent(child, path + '.contents[' + index + ']');
+        });
+        break;
+      case 'button':
+        MessageValidator.action(component.action, path + '.action');
+        return;
+      case 'image':
+      case 'icon':
+        MessageValidator.url(component.url, path + '.url', true);
+        break;
+      case 'text':
+        MessageValidator.text(component.text, path + '.text');
+        break;
+    }
+
+    const action = (component as { action?: LINEBot.Action }).action;
+
+    if (action) {
+      MessageValidator.action(action, path + '.action', false);
+    }
+  }
+
+  public static validateQuickReply(quickReply: LINEBot.QuickReply, path: string) {
+    MessageValidator.count(quickReply.items, path + '.items', 1, MessageValidator.limits.quickReplyItems);
+
+    quickReply.items.forEach((item, index) => {
+      const itemPath = path + '.items[' + index + ']';
+
+      if (item.imageUrl) {
+        MessageValidator.url(item.imageUrl, itemPath + '.imageUrl', true);
+      }
+
+      MessageValidator.action(item.action, itemPath + '.action');
+    });
+  }
+
+  public static actions(actions: LINEBot.Action[], path: string, min: number, max: number) {
+    MessageValidator.count(actions, path, min, max);
+    actions.forEach((action, index) => MessageValidator.action(action, path + '[' + index + ']'));
+  }
+
+  public static action(action: LINEBot.Action<{ label?: string }>, path: string, labelRequired: boolean = true) {
+    const limits = MessageValidator.limits;
+
+    if (labelRequired || action.label !== undefined) {
+      MessageValidator.text(action.label as string, path + '.label', limits.actionLabelLength);
+    }
+
+    switch (action.type) {
+      case 'postback':
+        MessageValidator.text(action.data, path + '.data', limits.postbackDataLength);
+
+        if (action.displayText !== undefined) {
+          MessageValidator.text(action.displayText, path + '.displayText', limits.actionTextLength);
+        }
+        break;
+      case 'message':
+        MessageValidator.text(action.text, path + '.text', limits.actionTextLength);
+        break;
+      case 'uri':
+        MessageValidator.url(action.uri, path + '.uri');
+        break;
+      case 'datetimepicker':
+        MessageValidator.text(action.data, path + '.data', limits.postbackDataLength);
+        break;
+      default:
+        throw new Error('Invalid ' + path + ': unknown action type ' + (action as { type: string }).type);
+    }
+  }
+
+  public static text(value: string, path: string, maxLength?: number) {
+    if (typeof value !== 'string' || !value.length) {
+      throw new Error('Invalid ' + path + ': must be a non-empty string');
+    }
+
+    if (maxLength !== undefined && value.length > maxLength) {
+      throw new Error('Invalid ' + path + ': must be at most ' + maxLength + ' characters (got ' + value.length + ')');
+    }
+  }
+
+  public static url(value: string, path: string, httpsOnly: boolean = false) {
+    MessageValidator.text(value, path, MessageValidator.limits.urlLength);
+
+    if (httpsOnly && !/^https:\/\//i.test(value)) {
+      throw new Error('Invalid ' + path + ': must be an HTTPS URL (got ' + value + ')');
+    }
+
+    if (!httpsOnly && !/^(https?:\/\/|tel:|line:\/\/)/i.test(value)) {
+      throw new Error('Invalid ' + path + ': must be an http, https, tel or line URI (got ' + value + ')');
+    }
+  }
+
+  public static count(values: any[], path: string, min: number, max: number) {
+    if (!Array.isArray(values) || values.length < min || values.length > max) {
+      throw new Error('Invalid ' + path + ': must have ' + (min === max ? min : min + ' to ' + max) +
+        ' items (got ' + (Array.isArray(values) ? values.length : 0) + ')');
+    }
+  }
+
+  public static positive(value: number, path: string) {
+    if (typeof value !== 'number' || !(value > 0)) {
+      throw new Error('Invalid ' + path + ': must be a positive number (got ' + value + ')');
+    }
+  }
+
+  public static range(value: number, path: string, min: number, max: number) {
+    if (typeof value !== 'number' || value < min || value > max) {
+      throw new Error('Invalid ' + path + ': must be between ' + min + ' and ' + max + ' (got ' + value + ')');
+    }
+  }
+
+}
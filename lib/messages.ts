@@ -0,0 +1,86 @@
+import * as LINEBot from '@line/bot-sdk';
+import { ButtonsTemplateBuilder, TemplateImageOptions } from './buttons-template-builder';
+import { CarouselTemplateBuilder } from './carousel-template-builder';
+import { ConfirmTemplateBuilder } from './confirm-template-builder';
+import { FlexBubbleBuilder } from './flex-bubble-builder';
+import { FlexCarouselBuilder } from './flex-carousel-builder';
+import { ImagemapBuilder } from './imagemap-builder';
+import { MessageBuilder } from './message-builder';
+import { MessageValidator } from './message-validator';
+import { QuickReplyBuilder } from './quick-reply-builder';
+
+export class Messages {
+
+  public static text(text: string) {
+    return new MessageBuilder<LINEBot.TextMessage>({ text, type: 'text' });
+  }
+
+  public static image(originalContentUrl: string, previewImageUrl: string = originalContentUrl) {
+    return new MessageBuilder<LINEBot.ImageMessage>({ originalContentUrl, previewImageUrl, type: 'image' });
+  }
+
+  public static video(originalContentUrl: string, previewImageUrl: string) {
+    return new MessageBuilder<LINEBot.VideoMessage>({ originalContentUrl, previewImageUrl, type: 'video' });
+  }
+
+  public static audio(originalContentUrl: string, duration: number) {
+    return new MessageBuilder<LINEBot.AudioMessage>({ duration, originalContentUrl, type: 'audio' });
+  }
+
+  public static location(title: string, address: string, latitude: number, longitude: number) {
+    return new MessageBuilder<LINEBot.LocationMessage>({ address, latitude, longitude, title, type: 'location' });
+  }
+
+  public static sticker(packageId: string | number, stickerId: string | number) {
+    return new MessageBuilder<LINEBot.StickerMessage>({
+      packageId: String(packageId),
+      stickerId: String(stickerId),
+      type: 'sticker'
+    });
+  }
+
+  public static imagemap(baseUrl: string, altText: string, width?: number, height?: number) {
+    return new ImagemapBuilder(baseUrl, altText, width, height);
+  }
+
+  public static buttons(altText: string, text: string) {
+    return new ButtonsTemplateBuilder(altText, text);
+  }
+
+  public static confirm(altText: string, text: string) {
+    return new ConfirmTemplateBuilder(altText, text);
+  }
+
+  public static carousel(altText: string, options?: TemplateImageOptions) {
+    return new CarouselTemplateBuilder(altText, options);
+  }
+
+  public static flex(altText: string, contents: LINEBot.FlexContainer | FlexBubbleBuilder | FlexCarouselBuilder) {
+    return new MessageBuilder<LINEBot.FlexMessage>({
+      altText,
+      contents: contents instanceof FlexBubbleBuilder || contents instanceof FlexCarouselBuilder
+        ? contents.build()
+        : contents,
+      type: 'flex'
+    });
+  }
+
+  public static bubble() {
+    return new FlexBubbleBuilder();
+  }
+
+  public static flexCarousel() {
+    return new FlexCarouselBuilder();
+  }
+
+  public static quickReply() {
+    return new QuickReplyBuilder();
+  }
+
+  public static build(...messages: Array<LINEBot.Message | MessageBuilder<LINEBot.Message>>) {
+    return MessageValidator.validateMessages(messages.map((message) => {
+      return message instanceof MessageBuilder ? message.build() : message;
+    }));
+  }
+
+}
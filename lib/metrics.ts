@@ -0,0 +1,151 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface MetricLabels {
+  [name: string]: string | number;
+}
+
+interface MetricSeries {
+  labels: MetricLabels;
+  value: number;
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Metric {
+  name: string;
+  type: MetricType;
+  help: string;
+  buckets?: number[];
+  series: { [key: string]: MetricSeries };
+}
+
+export class Metrics {
+  public static contentType = 'text/plain; version=0.0.4; charset=utf-8';
+  public static defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+  public static formatLabels(labels: MetricLabels) {
+    const names = Object.keys(labels).sort();
+
+    if (!names.length) {
+      return '';
+    }
+
+    return '{' + names.map((name) => name + '="' + String(labels[name])
+      .replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"') + '"').join(',') + '}';
+  }
+
+  private metrics: { [name: string]: Metric } = {};
+
+  constructor(public prefix: string = '') {
+  }
+
+  public define(name: string, type: MetricType, help: string, buckets?: number[]) {
+    const fullName = this.prefix + name;
+
+    if (!this.metrics[fullName]) {
+      this.metrics[fullName] = {
+        buckets: type === 'histogram' ? (buckets || Metrics.defaultBuckets).slice().sort((a, b) => a - b) : undefined,
+        help,
+        name: fullName,
+        series: {},
+        type
+      };
+    }
+
+    return this;
+  }
+
+  public increment(name: string, labels: MetricLabels = {}, value: number = 1) {
+    this.getSeries(name, 'counter', labels).value += value;
+    return this;
+  }
+
+  public set(name: string, value: number, labels: MetricLabels = {}) {
+    this.getSeries(name, 'gauge', labels).value = value;
+    return this;
+  }
+
+  public observe(name: string, value: number, labels: MetricLabels = {}) {
+    const metric = this.getMetric(name, 'histogram');
+    const series = this.getSeries(name, 'histogram', labels);
+
+    (metric.buckets as number[]).forEach((bound, i) => {
+      if (value <= bound) {
+        (series.buckets as number[])[i]++;
+      }
+    });
+
+    series.value++;
+    series.sum = (series.sum || 0) + value;
+
+    return this;
+  }
+
+  public get(name: string, labels: MetricLabels = {}) {
+    const metric = this.metrics[this.prefix + name];
+    const series = metric && metric.series[Metrics.formatLabels(labels)];
+
+    return series ? series.value : 0;
+  }
+
+  public reset() {
+    Object.keys(this.metrics).forEach((name) => this.metrics[name].series = {});
+  }
+
+  public render() {
+    return Object.keys(this.metrics).map((name) => {
+      const metric = this.metrics[name];
+      const lines = ['# HELP ' + name + ' ' + metric.help, '# TYPE ' + name + ' ' + metric.type];
+
+      Object.keys(metric.series).forEach((key) => {
+        const series = metric.series[key];
+
+        if (metric.type !== 'histogram') {
+          return lines.push(name + key + ' ' + series.value);
+        }
+
+        (metric.buckets as number[]).forEach((bound, i) => {
+          const labels = Metrics.formatLabels({ ...series.labels, le: bound });
+
+          lines.push(name + '_bucket' + labels + ' ' + (series.buckets as number[])[i]);
+        });
+        lines.push(name + '_bucket' + Metrics.formatLabels({ ...series.labels, le: '+Inf' }) + ' ' + series.value);
+        lines.push(name + '_sum' + key + ' ' + series.sum);
+        lines.push(name + '_count' + key + ' ' + series.value);
+      });
+
+      return lines.join('\n') + '\n';
+    }).join('');
+  }
+
+  private getMetric(name: string, type: MetricType) {
+    const metric = this.metrics[this.prefix + name];
+
+    if (!metric) {
+      throw new Error('Unknown metric ' + this.prefix + name + '\nPlease define it before recording values.');
+    }
+
+    if (metric.type !== type) {
+      throw new Error('Metric ' + metric.name + ' is a ' + metric.type + ', not a ' + type);
+    }
+
+    return metric;
+  }
+
+  private getSeries(name: string, type: MetricType, labels: MetricLabels) {
+    const metric = this.getMetric(name, type);
+    const key = Metrics.formatLabels(labels);
+
+    if (!metric.series[key]) {
+      metric.series[key] = {
+        buckets: metric.buckets ? metric.buckets.map(() => 0) : undefined,
+        labels,
+        sum: metric.buckets ? 0 : undefined,
+        value: 0
+      };
+    }
+
+    return metric.series[key];
+  }
+
+}
@@ -0,0 +1,190 @@
+import * as LINEBot from '@line/bot-sdk';
+import { EventEmitter } from 'events';
+import { MessageValidator } from './message-validator';
+
+export interface OutboundSenderOptions {
+  rateLimit?: number;
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  retryStatusCodes?: number[];
+  multicastLimit?: number;
+}
+
+export interface OutboundResult {
+  id: number;
+  method: 'push' | 'multicast';
+  to: string | string[];
+  messages: LINEBot.Message[];
+  attempts: number;
+  response?: any;
+  error?: Error;
+}
+
+interface LINEResponseError extends Error {
+  originalError?: { response?: { data?: any, headers?: { [name: string]: string } } };
+}
+
+interface OutboundJob extends OutboundResult {
+  resolve: (result: OutboundResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class OutboundSender extends EventEmitter {
+  public static defaultOptions: Required<OutboundSenderOptions> = {
+    concurrency: 10,
+    maxRetries: 5,
+    maxRetryDelay: 60000,
+    multicastLimit: 150,
+    rateLimit: 100,
+    retryDelay: 1000,
+    retryStatusCodes: [429, 500, 502, 503, 504]
+  };
+
+  public static isResponseError(error: Error): error is LINEResponseError {
+    return error instanceof LINEBot.HTTPError || error instanceof LINEBot.RequestError;
+  }
+
+  public static getErrorResponse(error: Error) {
+    return OutboundSender.isResponseError(error) && error.originalError ? error.originalError.response : undefined;
+  }
+
+  public static getRetryAfter(error: Error) {
+    const response = OutboundSender.getErrorResponse(error);
+    const retryAfter = response && response.headers ? Number(response.headers['retry-after']) : 0;
+
+    return retryAfter > 0 ? retryAfter * 1000 : undefined;
+  }
+
+  private static toResult(job: OutboundJob): OutboundResult {
+    const { attempts, error, id, messages, method, response, to } = job;
+
+    return { attempts, error, id, messages, method, response, to };
+  }
+
+  public options: Required<OutboundSenderOptions>;
+  private queue: OutboundJob[] = [];
+  private active = 0;
+  private delayed = 0;
+  private lastId = 0;
+  private nextSlot = 0;
+  private timer?: NodeJS.Timer;
+
+  constructor(public client: LINEBot.Client, options: OutboundSenderOptions = {}) {
+    super();
+
+    this.options = Object.assign({}, OutboundSender.defaultOptions, options);
+  }
+
+  public get pending() {
+    return this.queue.length + this.active + this.delayed;
+  }
+
+  public push(to: string, messages: LINEBot.Message | LINEBot.Message[]) {
+    return this.enqueue('push', to, MessageValidator.validateMessages(messages));
+  }
+
+  public multicast(to: string[], messages: LINEBot.Message | LINEBot.Message[]) {
+    const list = MessageValidator.validateMessages(messages);
+    const chunks: string[][] = [];
+
+    for (let i = 0; i < to.length; i += this.options.multicastLimit) {
+      chunks.push(to.slice(i, i + this.options.multicastLimit));
+    }
+
+    return Promise.all(chunks.map((chunk) => this.enqueue('multicast', chunk, list)));
+  }
+
+  public drain() {
+    if (!this.pending) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => this.once('drain', resolve));
+  }
+
+  public isRetryable(error: Error) {
+    const statusCode = (error as LINEBot.HTTPError).statusCode;
+
+    if (statusCode) {
+      return this.options.retryStatusCodes.indexOf(statusCode) >= 0;
+    }
+
+    return error instanceof LINEBot.RequestError;
+  }
+
+  public getRetryDelay(attempts: number, error: Error) {
+    const delay = this.options.retryDelay * Math.pow(2, attempts - 1);
+
+    return Math.min(this.options.maxRetryDelay, Math.max(delay, OutboundSender.getRetryAfter(error) || 0));
+  }
+
+  private enqueue(method: OutboundJob['method'], to: string | string[], messages: LINEBot.Message[]) {
+    return new Promise<OutboundResult>((resolve, reject) => {
+      this.queue.push({ attempts: 0, id: ++this.lastId, messages, method, reject, resolve, to });
+      this.schedule();
+    });
+  }
+
+  private schedule() {
+    if (this.timer) {
+      return;
+    }
+
+    if (!this.queue.length || this.active >= this.options.concurrency) {
+      if (!this.pending) {
+        this.emit('drain');
+      }
+
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.nextSlot = Date.now() + 1000 / this.options.rateLimit;
+      this.run(this.queue.shift() as OutboundJob);
+      this.schedule();
+    }, Math.max(0, this.nextSlot - Date.now()));
+  }
+
+  private run(job: OutboundJob) {
+    const request = job.method === 'push'
+      ? this.client.pushMessage(job.to as string, job.messages)
+      : this.client.multicast(job.to as string[], job.messages);
+
+    this.active++;
+    job.attempts++;
+
+    request.then((response) => {
+      this.active--;
+      job.response = response;
+      job.error = undefined;
+      this.emit('sent', OutboundSender.toResult(job));
+      job.resolve(OutboundSender.toResult(job));
+      this.schedule();
+    }, (error: Error) => {
+      this.active--;
+      job.error = error;
+
+      if (this.isRetryable(error) && job.attempts <= this.options.maxRetries) {
+        const delay = this.getRetryDelay(job.attempts, error);
+
+        this.delayed++;
+        this.emit('retry', OutboundSender.toResult(job), delay);
+
+        setTimeout(() => {
+          this.delayed--;
+          this.queue.unshift(job);
+          this.schedule();
+        }, delay);
+      } else {
+        this.emit('failed', OutboundSender.toResult(job));
+        job.reject(error);
+      }
+
+      this.schedule();
+    });
+  }
+
+}
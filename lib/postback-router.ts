@@ -0,0 +1,52 @@
+import * as LINEBot from '@line/bot-sdk';
+import { EventContext } from './event-context';
+import { Postback } from './postback';
+
+export interface PostbackMatch<P = any> {
+  action: string;
+  payload?: P;
+  params?: LINEBot.Postback['params'];
+  data: string;
+  event: LINEBot.PostbackEvent;
+}
+
+export type PostbackHandler<P = any> = (match: PostbackMatch<P>, context: EventContext) => any;
+
+export class PostbackRouter {
+  private handlers: { [action: string]: PostbackHandler } = {};
+  private fallbackHandler?: PostbackHandler;
+
+  public on<P = any>(action: string, handler: PostbackHandler<P>) {
+    Postback.validateAction(action);
+
+    this.handlers[action] = handler;
+    return this;
+  }
+
+  public fallback(handler: PostbackHandler) {
+    this.fallbackHandler = handler;
+    return this;
+  }
+
+  public async handle(event: LINEBot.PostbackEvent, context: EventContext) {
+    const decoded = Postback.decode(event.postback.data);
+    const handler = decoded && this.handlers.hasOwnProperty(decoded.action)
+      ? this.handlers[decoded.action]
+      : this.fallbackHandler;
+
+    if (!handler) {
+      return false;
+    }
+
+    await handler({
+      action: decoded ? decoded.action : '',
+      data: event.postback.data,
+      event,
+      params: event.postback.params,
+      payload: decoded ? decoded.payload : undefined
+    }, context);
+
+    return true;
+  }
+
+}
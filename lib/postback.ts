@@ -0,0 +1,99 @@
+import * as LINEBot from '@line/bot-sdk';
+
+export interface PostbackData<P = any> {
+  action: string;
+  payload?: P;
+}
+
+export interface PostbackActionOptions {
+  displayText?: string;
+  text?: string;
+}
+
+export interface DatetimePickerOptions {
+  initial?: string;
+  max?: string;
+  min?: string;
+}
+
+export class Postback {
+  public static maxDataLength = 300;
+  public static actionPattern = /^[\w.\-\/]+$/;
+
+  public static validateAction(action: string) {
+    if (!Postback.actionPattern.test(action)) {
+      throw new Error('Invalid postback action name: ' + action + '\nUse letters, digits, ".", "-", "_" or "/".');
+    }
+  }
+
+  public static encode(action: string, payload?: any) {
+    Postback.validateAction(action);
+
+    const data = payload === undefined ? action : action + ':' + JSON.stringify(payload);
+
+    if (data.length > Postback.maxDataLength) {
+      throw new Error('Postback data of ' + action + ' is ' + data.length + ' characters long\n' +
+        'LINE allows at most ' + Postback.maxDataLength + ' characters.');
+    }
+
+    return data;
+  }
+
+  public static decode<P = any>(data: string): PostbackData<P> | undefined {
+    const separator = data.indexOf(':');
+    const action = separator < 0 ? data : data.substr(0, separator);
+
+    if (!Postback.actionPattern.test(action)) {
+      return undefined;
+    }
+
+    if (separator < 0) {
+      return { action };
+    }
+
+    try {
+      return { action, payload: JSON.parse(data.substr(separator + 1)) };
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  public static action(label: string, action: string, payload?: any, options: PostbackActionOptions = {}) {
+    const postbackAction: LINEBot.Action = { data: Postback.encode(action, payload), label, type: 'postback' };
+
+    if (options.displayText !== undefined) {
+      postbackAction.displayText = options.displayText;
+    }
+
+    if (options.text !== undefined) {
+      postbackAction.text = options.text;
+    }
+
+    return postbackAction;
+  }
+
+  public static datetimePicker(label: string, mode: 'date' | 'time' | 'datetime', action: string, payload?: any,
+                               options: DatetimePickerOptions = {}) {
+    const pickerAction: LINEBot.Action = {
+      data: Postback.encode(action, payload),
+      label,
+      mode,
+      type: 'datetimepicker'
+    };
+
+    if (options.initial !== undefined) {
+      pickerAction.initial = options.initial;
+    }
+
+    if (options.max !== undefined) {
+      pickerAction.max = options.max;
+    }
+
+    if (options.min !== undefined) {
+      pickerAction.min = options.min;
+    }
+
+    return pickerAction;
+  }
+
+}
@@ -0,0 +1,165 @@
+import * as LINEBot from '@line/bot-sdk';
+import { BotEvent } from './event-types';
+
+export interface ProfileOptions {
+  ttl?: number;
+  maxSize?: number;
+}
+
+interface ProfileEntry {
+  profile: LINEBot.Profile;
+  expiresAt: number;
+}
+
+export class ProfileManager {
+  public static defaultTtl = 60 * 60 * 1000;
+  public static defaultMaxSize = 1000;
+
+  public static getKey(source: LINEBot.EventSource, scope: string = '') {
+    if (!source.userId) {
+      return undefined;
+    }
+
+    switch (source.type) {
+      case 'group':
+        return scope + ':group:' + source.groupId + ':' + source.userId;
+      case 'room':
+        return scope + ':room:' + source.roomId + ':' + source.userId;
+      default:
+        return scope + ':user:' + source.userId;
+    }
+  }
+
+  private static isNotFound(err: any) {
+    return (err as LINEBot.HTTPError).statusCode === 404;
+  }
+
+  public ttl: number;
+  public maxSize: number;
+  private entries = new Map<string, ProfileEntry>();
+  private pending: { [key: string]: Promise<LINEBot.Profile | undefined> } = {};
+
+  constructor(options: ProfileOptions = {}) {
+    this.ttl = options.ttl || ProfileManager.defaultTtl;
+    this.maxSize = options.maxSize || ProfileManager.defaultMaxSize;
+  }
+
+  public get size() {
+    return this.entries.size;
+  }
+
+  public get(client: LINEBot.Client, source: LINEBot.EventSource, scope?: string) {
+    const key = ProfileManager.getKey(source, scope);
+
+    if (!key) {
+      return Promise.resolve(undefined);
+    }
+
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return Promise.resolve(entry.profile);
+    }
+
+    if (!this.pending[key]) {
+      const fetching: Promise<LINEBot.Profile | undefined> = this.fetch(client, source).then((profile) => {
+        if (this.pending[key] === fetching) {
+          delete this.pending[key];
+
+          if (profile) {
+            this.set(key, profile);
+          }
+        }
+
+        return profile;
+      }, (err) => {
+        if (this.pending[key] === fetching) {
+          delete this.pending[key];
+        }
+
+        throw err;
+      });
+
+      this.pending[key] = fetching;
+    }
+
+    return this.pending[key];
+  }
+
+  public delete(source: LINEBot.EventSource, scope?: string) {
+    const key = ProfileManager.getKey(source, scope);
+
+    if (key) {
+      this.entries.delete(key);
+      delete this.pending[key];
+    }
+  }
+
+  public invalidate(event: BotEvent, scope: string = '') {
+    const source = event.source;
+
+    switch (event.type) {
+      case 'unfollow':
+        this.delete(source, scope);
+        break;
+      case 'leave':
+        if (source.type === 'group') {
+          this.deletePrefix(scope + ':group:' + source.groupId + ':');
+        } else if (source.type === 'room') {
+          this.deletePrefix(scope + ':room:' + source.roomId + ':');
+        }
+        break;
+      case 'memberLeft':
+        event.left.members.forEach((member) => this.delete({ ...source, userId: member.userId }, scope));
+        break;
+    }
+  }
+
+  public clear() {
+    this.entries.clear();
+    this.pending = {};
+  }
+
+  private set(key: string, profile: LINEBot.Profile) {
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: Date.now() + this.ttl, profile });
+
+    while (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  private deletePrefix(prefix: string) {
+    const keys: string[] = [];
+
+    this.entries.forEach((entry, key) => {
+      if (key.indexOf(prefix) === 0) {
+        keys.push(key);
+      }
+    });
+    Object.keys(this.pending).filter((key) => key.indexOf(prefix) === 0).forEach((key) => delete this.pending[key]);
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  private async fetch(client: LINEBot.Client, source: LINEBot.EventSource) {
+    try {
+      switch (source.type) {
+        case 'group':
+          return await client.getGroupMemberProfile(source.groupId, source.userId as string);
+        case 'room':
+          return await client.getRoomMemberProfile(source.roomId, source.userId as string);
+        default:
+          return await client.getProfile(source.userId as string);
+      }
+    } catch (err) {
+      if (ProfileManager.isNotFound(err)) {
+        return undefined;
+      }
+
+      throw err;
+    }
+  }
+
+}
@@ -0,0 +1,31 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as _ from 'lodash';
+import { MessageValidator } from './message-validator';
+
+export class QuickReplyBuilder {
+  private items: LINEBot.QuickReplyItem[] = [];
+
+  public action(action: LINEBot.Action, imageUrl?: string) {
+    const item: LINEBot.QuickReplyItem = { action, type: 'action' };
+
+    if (imageUrl !== undefined) {
+      item.imageUrl = imageUrl;
+    }
+
+    this.items.push(item);
+    return this;
+  }
+
+  public message(label: string, text: string = label, imageUrl?: string) {
+    return this.action({ label, text, type: 'message' }, imageUrl);
+  }
+
+  public build(): LINEBot.QuickReply {
+    const quickReply = { items: _.cloneDeep(this.items) };
+
+    MessageValidator.validateQuickReply(quickReply, 'quickReply');
+
+    return quickReply;
+  }
+
+}
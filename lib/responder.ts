@@ -0,0 +1,138 @@
+import * as LINEBot from '@line/bot-sdk';
+import { BotEvent } from './event-types';
+import { MessageValidator } from './message-validator';
+import { OutboundSender } from './outbound-sender';
+
+export interface ResponderOptions {
+  replyTokenTtl?: number;
+  sender?: OutboundSender;
+}
+
+interface PendingReply {
+  messages: LINEBot.Message[];
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+}
+
+export class Responder {
+  public static defaultReplyTokenTtl = 30000;
+
+  public static isInvalidReplyToken(error: Error) {
+    const response = OutboundSender.getErrorResponse(error);
+
+    return error instanceof LINEBot.HTTPError && error.statusCode === 400 && !!response && !!response.data &&
+      response.data.message === 'Invalid reply token';
+  }
+
+  public static getSourceId(source: LINEBot.EventSource) {
+    switch (source.type) {
+      case 'group':
+        return source.groupId;
+      case 'room':
+        return source.roomId;
+      default:
+        return source.userId;
+    }
+  }
+
+  public replied = false;
+  public replyTokenTtl: number;
+  private pending: PendingReply[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+  private scheduled = false;
+
+  constructor(public client: LINEBot.Client, public event: BotEvent, public options: ResponderOptions = {}) {
+    this.replyTokenTtl = options.replyTokenTtl !== undefined ? options.replyTokenTtl : Responder.defaultReplyTokenTtl;
+  }
+
+  public get replyToken(): string | undefined {
+    return (this.event as LINEBot.ReplyableEvent).replyToken;
+  }
+
+  public get canReply() {
+    return !!this.replyToken && !this.replied && Date.now() - this.event.timestamp < this.replyTokenTtl;
+  }
+
+  public reply(messages: LINEBot.Message | LINEBot.Message[]): Promise<any> {
+    if (!this.replyToken) {
+      return Promise.reject(new Error('Cannot reply to ' + this.event.type + ' event\nThe event has no reply token.'));
+    }
+
+    try {
+      messages = MessageValidator.validateMessages(messages);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ messages: messages as LINEBot.Message[], reject, resolve });
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  public async push(messages: LINEBot.Message | LINEBot.Message[]): Promise<any> {
+    const to = Responder.getSourceId(this.event.source);
+
+    if (this.options.sender) {
+      return this.options.sender.push(to, messages);
+    }
+
+    return this.client.pushMessage(to, MessageValidator.validateMessages(messages));
+  }
+
+  public flush() {
+    this.scheduled = false;
+    this.flushing = this.flushing.then(() => this.send(this.pending.splice(0)));
+
+    return this.flushing;
+  }
+
+  private async send(pending: PendingReply[]) {
+    const messages = pending.reduce((list, item) => list.concat(item.messages), [] as LINEBot.Message[]);
+    const limit = MessageValidator.limits.messages;
+    const responses: any[] = [];
+    let offset = 0;
+    const ranges = pending.map((item) => {
+      const first = Math.floor(offset / limit);
+
+      offset += item.messages.length;
+      return { first, item, last: Math.ceil(offset / limit) - 1 };
+    });
+
+    for (let chunk = 0; chunk * limit < messages.length; chunk++) {
+      try {
+        responses.push(await this.sendChunk(messages.slice(chunk * limit, (chunk + 1) * limit)));
+      } catch (err) {
+        ranges.filter((range) => range.last >= chunk).forEach((range) => range.item.reject(err));
+        return;
+      }
+
+      ranges.filter((range) => range.last === chunk).forEach((range) => {
+        range.item.resolve(range.first === range.last ? responses[chunk] : responses.slice(range.first, chunk + 1));
+      });
+    }
+  }
+
+  private async sendChunk(messages: LINEBot.Message[]) {
+    if (!this.canReply) {
+      return this.push(messages);
+    }
+
+    this.replied = true;
+
+    try {
+      return await this.client.replyMessage(this.replyToken as string, messages);
+    } catch (err) {
+      if (Responder.isInvalidReplyToken(err)) {
+        return this.push(messages);
+      }
+
+      throw err;
+    }
+  }
+
+}
@@ -0,0 +1,226 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as fs from 'fs-extra';
+import * as _ from 'lodash';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+export interface RichMenuDefinition extends LINEBot.RichMenu {
+  image: string;
+  default?: boolean;
+}
+
+export interface RichMenuOptions {
+  menus?: RichMenuDefinition[];
+  file?: string;
+  deleteStale?: boolean;
+  syncOnStart?: boolean;
+}
+
+export interface RichMenuSyncResult {
+  created: string[];
+  unchanged: string[];
+  deletedIds: string[];
+  defaultRichMenuId?: string;
+}
+
+export class RichMenuManager {
+  public static fromFile(fileName: string): RichMenuDefinition[] {
+    const config = fs.readJsonSync(fileName);
+    const menus = Array.isArray(config) ? config : config.menus;
+
+    if (!Array.isArray(menus)) {
+      throw new Error('Invalid rich menus file ' + fileName +
+        '\nPlease provide an array of rich menus or an object with a menus array.');
+    }
+
+    return menus.map((menu: RichMenuDefinition) => ({
+      ...menu,
+      image: menu.image && path.resolve(path.dirname(fileName), menu.image)
+    }));
+  }
+
+  public static toRichMenu(richMenu: LINEBot.RichMenu): LINEBot.RichMenu {
+    return {
+      areas: richMenu.areas,
+      chatBarText: richMenu.chatBarText,
+      name: richMenu.name,
+      selected: richMenu.selected,
+      size: richMenu.size
+    };
+  }
+
+  public static isSame(definition: RichMenuDefinition, richMenu: LINEBot.RichMenu) {
+    return _.isEqual(RichMenuManager.toRichMenu(definition), RichMenuManager.toRichMenu(richMenu));
+  }
+
+  public static getContentType(image: string) {
+    return /\.jpe?g$/i.test(image) ? 'image/jpeg' : 'image/png';
+  }
+
+  private static isNotFound(err: any) {
+    return (err as LINEBot.HTTPError).statusCode === 404;
+  }
+
+  private static readStream(stream: Readable) {
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', reject);
+    });
+  }
+
+  public definitions: { [name: string]: RichMenuDefinition } = {};
+  public ids: { [name: string]: string } = {};
+  public deleteStale: boolean;
+
+  constructor(public client: LINEBot.Client, options: RichMenuOptions = {}) {
+    this.deleteStale = !!options.deleteStale;
+
+    (options.menus || [])
+      .concat(options.file ? RichMenuManager.fromFile(options.file) : [])
+      .forEach((definition) => this.add(definition));
+  }
+
+  public add(definition: RichMenuDefinition) {
+    if (!definition.name) {
+      throw new Error('Missing rich menu name\nPlease set name for every rich menu.');
+    }
+
+    if (!definition.image) {
+      throw new Error('Missing image for rich menu ' + definition.name + '\nPlease set image to a PNG or JPEG file.');
+    }
+
+    const current = _.find(this.definitions, (item) => !!item.default && item.name !== definition.name);
+
+    if (definition.default && current) {
+      throw new Error('Rich menu ' + current.name + ' is already the default\n' +
+        'Please set default on a single rich menu.');
+    }
+
+    this.definitions[definition.name] = definition;
+    return this;
+  }
+
+  public async sync(): Promise<RichMenuSyncResult> {
+    const result: RichMenuSyncResult = { created: [], deletedIds: [], unchanged: [] };
+    const existing = await this.client.getRichMenuList();
+    const ids: { [name: string]: string } = {};
+    const names = Object.keys(this.definitions);
+
+    for (const name of names) {
+      const definition = this.definitions[name];
+      const image = await fs.readFile(definition.image);
+      let richMenuId: string | undefined;
+
+      for (const richMenu of existing.filter((item) => item.name === name)) {
+        if (!richMenuId && RichMenuManager.isSame(definition, richMenu) &&
+          await this.hasImage(richMenu.richMenuId, image)) {
+          richMenuId = richMenu.richMenuId;
+        }
+      }
+
+      if (richMenuId) {
+        result.unchanged.push(name);
+      } else {
+        richMenuId = await this.client.createRichMenu(RichMenuManager.toRichMenu(definition));
+        await this.client.setRichMenuImage(richMenuId, image, RichMenuManager.getContentType(definition.image));
+        result.created.push(name);
+      }
+
+      ids[name] = richMenuId;
+    }
+
+    this.ids = ids;
+    result.defaultRichMenuId = await this.syncDefault();
+
+    for (const richMenu of existing) {
+      const kept = _.includes(_.values(ids), richMenu.richMenuId);
+
+      if (!kept && (this.deleteStale || this.definitions[richMenu.name])) {
+        await this.client.deleteRichMenu(richMenu.richMenuId);
+        result.deletedIds.push(richMenu.richMenuId);
+      }
+    }
+
+    return result;
+  }
+
+  public async getId(name: string) {
+    const definition = this.definitions[name];
+
+    if (!definition) {
+      throw new Error('Unknown rich menu ' + name + '\nPlease add it before linking it to users.');
+    }
+
+    if (!this.ids[name]) {
+      const richMenu = (await this.client.getRichMenuList())
+        .filter((item) => RichMenuManager.isSame(definition, item))
+        .pop();
+
+      if (!richMenu) {
+        throw new Error('Rich menu ' + name + ' is not synced\nPlease call sync before linking it to users.');
+      }
+
+      this.ids[name] = richMenu.richMenuId;
+    }
+
+    return this.ids[name];
+  }
+
+  public async link(userId: string, name: string) {
+    await this.client.linkRichMenuToUser(userId, await this.getId(name));
+  }
+
+  public async unlink(userId: string) {
+    await this.client.unlinkRichMenuFromUser(userId);
+  }
+
+  public async getUserMenu(userId: string) {
+    try {
+      const richMenuId = await this.client.getRichMenuIdOfUser(userId);
+
+      return _.findKey(this.ids, (id) => id === richMenuId);
+    } catch (err) {
+      if (RichMenuManager.isNotFound(err)) {
+        return undefined;
+      }
+
+      throw err;
+    }
+  }
+
+  private async syncDefault() {
+    const definition = _.find(this.definitions, (item) => !!item.default);
+    let defaultRichMenuId: string | undefined;
+
+    try {
+      defaultRichMenuId = await this.client.getDefaultRichMenuId();
+    } catch (err) {
+      if (!RichMenuManager.isNotFound(err)) {
+        throw err;
+      }
+    }
+
+    if (definition && this.ids[definition.name] !== defaultRichMenuId) {
+      defaultRichMenuId = this.ids[definition.name];
+      await this.client.setDefaultRichMenu(defaultRichMenuId);
+    }
+
+    return defaultRichMenuId;
+  }
+
+  private async hasImage(richMenuId: string, image: Buffer) {
+    try {
+      return image.equals(await RichMenuManager.readStream(await this.client.getRichMenuImage(richMenuId)));
+    } catch (err) {
+      if (RichMenuManager.isNotFound(err)) {
+        return false;
+      }
+
+      throw err;
+    }
+  }
+
+}
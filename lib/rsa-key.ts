@@ -0,0 +1,143 @@
+import * as crypto from 'crypto';
+import * as pem from 'pem';
+
+export interface RsaJwk {
+  e: string;
+  kty: string;
+  n: string;
+}
+
+type GenerateKeyPairSync = (type: 'rsa', options: {
+  modulusLength: number,
+  privateKeyEncoding: { format: 'pem', type: 'pkcs1' | 'pkcs8' },
+  publicKeyEncoding: { format: 'pem', type: 'pkcs1' | 'spki' }
+}) => { privateKey: string, publicKey: string };
+
+interface DerElement {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+export class RsaKey {
+  public static rsaEncryption = new Buffer('06092a864886f70d0101010500', 'hex');
+
+  public static canGenerate() {
+    return typeof crypto.generateKeyPairSync === 'function';
+  }
+
+  public static generate(modulusLength: number = 2048) {
+    if (!RsaKey.canGenerate()) {
+      throw new Error('Cannot generate RSA keys\nPlease use Node.js 10.12 or later, or provide the key as a file.');
+    }
+
+    const generateKeyPairSync: GenerateKeyPairSync = crypto.generateKeyPairSync;
+
+    return generateKeyPairSync('rsa', {
+      modulusLength,
+      privateKeyEncoding: { format: 'pem', type: 'pkcs1' },
+      publicKeyEncoding: { format: 'pem', type: 'spki' }
+    }).privateKey;
+  }
+
+  public static generateAsync(modulusLength: number = 2048) {
+    if (RsaKey.canGenerate()) {
+      return Promise.resolve(RsaKey.generate(modulusLength));
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      pem.createPrivateKey(modulusLength, (err, result) => err ? reject(err) : resolve(result.key));
+    });
+  }
+
+  public static toJwk(privateKey: string | Buffer): RsaJwk {
+    const match = /-----BEGIN (RSA )?PRIVATE KEY-----([^-]+)-----END /.exec(privateKey.toString());
+
+    if (!match) {
+      throw new Error('Invalid RSA private key\nPlease provide an unencrypted PEM key.');
+    }
+
+    let der = new Buffer(match[2].replace(/\s+/g, ''), 'base64');
+    let key = RsaKey.readDer(der, RsaKey.readDer(der, 0).start);
+    let modulus = RsaKey.readDer(der, key.end);
+
+    if (modulus.tag === 0x30) {
+      const wrapped = RsaKey.readDer(der, modulus.end);
+
+      der = der.slice(wrapped.start, wrapped.end);
+      key = RsaKey.readDer(der, RsaKey.readDer(der, 0).start);
+      modulus = RsaKey.readDer(der, key.end);
+    }
+
+    const exponent = RsaKey.readDer(der, modulus.end);
+
+    return {
+      e: RsaKey.base64url(RsaKey.unsigned(der.slice(exponent.start, exponent.end))),
+      kty: 'RSA',
+      n: RsaKey.base64url(RsaKey.unsigned(der.slice(modulus.start, modulus.end)))
+    };
+  }
+
+  public static fromJwk(jwk: RsaJwk) {
+    const integer = (value: string) => {
+      const bytes = new Buffer(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+      return RsaKey.writeDer(0x02, bytes[0] >= 0x80 ? Buffer.concat([new Buffer([0]), bytes]) : bytes);
+    };
+    const publicKey = RsaKey.writeDer(0x30, Buffer.concat([integer(jwk.n), integer(jwk.e)]));
+    const der = RsaKey.writeDer(0x30, Buffer.concat([
+      RsaKey.writeDer(0x30, RsaKey.rsaEncryption),
+      RsaKey.writeDer(0x03, Buffer.concat([new Buffer([0]), publicKey]))
+    ]));
+
+    return '-----BEGIN PUBLIC KEY-----\n' + (der.toString('base64').match(/.{1,64}/g) || []).join('\n') +
+      '\n-----END PUBLIC KEY-----\n';
+  }
+
+  private static base64url(buffer: Buffer) {
+    return buffer.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  }
+
+  private static unsigned(bytes: Buffer) {
+    let offset = 0;
+
+    while (offset < bytes.length - 1 && bytes[offset] === 0) {
+      offset++;
+    }
+
+    return bytes.slice(offset);
+  }
+
+  private static readDer(der: Buffer, offset: number): DerElement {
+    if (offset + 2 > der.length) {
+      throw new Error('Invalid RSA private key\nPlease provide an unencrypted PEM key.');
+    }
+
+    let length = der[offset + 1];
+    let start = offset + 2;
+
+    if (length >= 0x80) {
+      const bytes = length - 0x80;
+
+      length = 0;
+
+      for (let i = 0; i < bytes; i++) {
+        length = length * 256 + der[start + i];
+      }
+
+      start += bytes;
+    }
+
+    return { end: start + length, start, tag: der[offset] };
+  }
+
+  private static writeDer(tag: number, content: Buffer) {
+    const length = content.length;
+    const header = length < 0x80
+      ? [tag, length]
+      : length < 0x100 ? [tag, 0x81, length] : [tag, 0x82, Math.floor(length / 0x100), length % 0x100];
+
+    return Buffer.concat([new Buffer(header), content]);
+  }
+
+}
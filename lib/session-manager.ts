@@ -0,0 +1,56 @@
+import * as LINEBot from '@line/bot-sdk';
+import { BotEvent } from './event-types';
+import { MemoryStore } from './memory-store';
+import { Session, SessionData } from './session';
+import { Store } from './store';
+
+export interface SessionOptions {
+  store?: Store<SessionData>;
+  ttl?: number;
+  getKey?: (event: BotEvent, channelId: string) => string;
+}
+
+export class SessionManager {
+  public static getSourceKey(source: LINEBot.EventSource) {
+    switch (source.type) {
+      case 'group':
+        return 'group:' + source.groupId;
+      case 'room':
+        return 'room:' + source.roomId;
+      default:
+        return 'user:' + source.userId;
+    }
+  }
+
+  public store: Store<SessionData>;
+  public ttl?: number;
+
+  constructor(options: SessionOptions = {}) {
+    this.store = options.store || new MemoryStore<SessionData>();
+    this.ttl = options.ttl;
+
+    if (options.getKey) {
+      this.getKey = options.getKey;
+    }
+  }
+
+  public getKey(event: BotEvent, channelId: string) {
+    return channelId + ':' + SessionManager.getSourceKey(event.source);
+  }
+
+  public async load(event: BotEvent, channelId: string) {
+    const key = this.getKey(event, channelId);
+    const data = await this.store.get(key);
+
+    return new Session(key, data || {});
+  }
+
+  public async save(session: Session) {
+    if (session.destroyed) {
+      return this.store.delete(session.key);
+    }
+
+    return this.store.set(session.key, session.data, this.ttl);
+  }
+
+}
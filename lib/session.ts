@@ -0,0 +1,36 @@
+export interface SessionData {
+  [name: string]: any;
+}
+
+export class Session {
+  public destroyed = false;
+
+  constructor(public key: string, public data: SessionData = {}) {
+  }
+
+  public get<T = any>(name: string, defaultValue?: T): T {
+    return this.data[name] !== undefined ? this.data[name] : defaultValue;
+  }
+
+  public set(name: string, value: any) {
+    this.data[name] = value;
+    this.destroyed = false;
+    return this;
+  }
+
+  public unset(name: string) {
+    delete this.data[name];
+    return this;
+  }
+
+  public clear() {
+    this.data = {};
+    return this;
+  }
+
+  public destroy() {
+    this.data = {};
+    this.destroyed = true;
+  }
+
+}
@@ -0,0 +1,138 @@
+import { EventContext } from './event-context';
+import { MessageEventOf } from './event-types';
+
+export type TextEvent = MessageEventOf<'text'>;
+
+export interface TextMatch {
+  type: 'keyword' | 'command' | 'pattern' | 'fallback';
+  event: TextEvent;
+  text: string;
+  keyword?: string;
+  command?: string;
+  args?: string[];
+  argsText?: string;
+  match?: RegExpExecArray;
+}
+
+export type TextHandler = (match: TextMatch, context: EventContext) => any;
+
+export interface TextMatcherOptions {
+  priority?: number;
+  caseSensitive?: boolean;
+}
+
+export interface CommandOptions extends TextMatcherOptions {
+  prefix?: string;
+}
+
+interface TextRule {
+  priority: number;
+  order: number;
+  handler: TextHandler;
+  match: (text: string, event: TextEvent) => TextMatch | undefined;
+}
+
+export class TextMatcher {
+  public static defaultCommandPrefix = '/';
+
+  public static parseArgs(argsText: string) {
+    const args: string[] = [];
+    const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let match = pattern.exec(argsText);
+
+    while (match) {
+      args.push(match[1] !== undefined ? match[1] : match[2] !== undefined ? match[2] : match[3]);
+      match = pattern.exec(argsText);
+    }
+
+    return args;
+  }
+
+  private rules: TextRule[] = [];
+  private fallbackHandler?: TextHandler;
+
+  public keyword(keyword: string | string[], handler: TextHandler, options: TextMatcherOptions = {}) {
+    const normalize = (value: string) => options.caseSensitive ? value.trim() : value.trim().toLowerCase();
+    const keywords = ([] as string[]).concat(keyword).map(normalize);
+
+    return this.addRule(handler, options, (text, event) => {
+      const index = keywords.indexOf(normalize(text));
+
+      if (index < 0) {
+        return undefined;
+      }
+
+      return { event, keyword: keywords[index], text, type: 'keyword' };
+    });
+  }
+
+  public command(name: string, handler: TextHandler, options: CommandOptions = {}) {
+    const prefix = options.prefix !== undefined ? options.prefix : TextMatcher.defaultCommandPrefix;
+    const expected = options.caseSensitive ? prefix + name : (prefix + name).toLowerCase();
+
+    return this.addRule(handler, options, (text, event) => {
+      const trimmed = text.trim();
+      const head = trimmed.split(/\s/, 1)[0];
+
+      if ((options.caseSensitive ? head : head.toLowerCase()) !== expected) {
+        return undefined;
+      }
+
+      const argsText = trimmed.substr(head.length).trim();
+
+      return { args: TextMatcher.parseArgs(argsText), argsText, command: name, event, text, type: 'command' };
+    });
+  }
+
+  public pattern(pattern: RegExp, handler: TextHandler, options: TextMatcherOptions = {}) {
+    return this.addRule(handler, options, (text, event) => {
+      pattern.lastIndex = 0;
+
+      const match = pattern.exec(text);
+
+      return match ? { event, match, text, type: 'pattern' } : undefined;
+    });
+  }
+
+  public fallback(handler: TextHandler) {
+    this.fallbackHandler = handler;
+    return this;
+  }
+
+  public match(event: TextEvent): { handler: TextHandler, match: TextMatch } | undefined {
+    const text = event.message.text;
+
+    for (const rule of this.rules) {
+      const match = rule.match(text, event);
+
+      if (match) {
+        return { handler: rule.handler, match };
+      }
+    }
+
+    if (this.fallbackHandler) {
+      return { handler: this.fallbackHandler, match: { event, text, type: 'fallback' } };
+    }
+
+    return undefined;
+  }
+
+  public async handle(event: TextEvent, context: EventContext) {
+    const result = this.match(event);
+
+    if (!result) {
+      return false;
+    }
+
+    await result.handler(result.match, context);
+
+    return true;
+  }
+
+  private addRule(handler: TextHandler, options: TextMatcherOptions, match: TextRule['match']) {
+    this.rules.push({ handler, match, order: this.rules.length, priority: options.priority || 0 });
+    this.rules.sort((a, b) => (b.priority - a.priority) || (a.order - b.order));
+    return this;
+  }
+
+}
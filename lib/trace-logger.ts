@@ -0,0 +1,155 @@
+import * as asyncHooks from 'async_hooks';
+import * as crypto from 'crypto';
+import { ContextStorage } from './context-storage';
+import { JsonLogger } from './json-logger';
+import { LogFields, Logger, LogLevel } from './logger';
+
+export type LoggingLevel = LogLevel | 'silent';
+
+export interface LoggingOptions {
+  logger?: Logger;
+  level?: LoggingLevel;
+  redact?: boolean;
+}
+
+interface FieldStorage {
+  run<T>(store: LogFields, callback: () => T): T;
+  getStore(): LogFields | undefined;
+}
+
+export class TraceLogger implements Logger {
+  public static levels: { [level: string]: number } = { debug: 10, error: 40, info: 20, silent: 100, warn: 30 };
+  public static secretKeys = ['accesstoken', 'authorization', 'channelaccesstoken', 'channelsecret', 'password',
+    'replytoken', 'secret', 'signature', 'token', 'x-line-signature'];
+  public static idKeys = ['destination', 'groupid', 'roomid', 'to', 'userid', 'userids'];
+  public static idPattern = /\b[UCR][0-9a-f]{32}\b/g;
+  public static maxDepth = 5;
+
+  public static createId() {
+    return crypto.randomBytes(8).toString('hex');
+  }
+
+  public static maskId(id: string) {
+    return id.charAt(0) + '#' + crypto.createHash('sha256').update(id).digest('hex').substr(0, 10);
+  }
+
+  public static serializeError(err: any): LogFields {
+    const error: LogFields = { message: err.message, name: err.name, stack: err.stack };
+
+    if (err.statusCode !== undefined) {
+      error.statusCode = err.statusCode;
+    }
+
+    if (err.originalError && err.originalError.response && err.originalError.response.data) {
+      error.response = err.originalError.response.data;
+    }
+
+    return error;
+  }
+
+  public static sanitize(value: any, redact: boolean = true, key: string = '', depth: number = 0): any {
+    const name = key.toLowerCase();
+    const isId = redact && TraceLogger.idKeys.indexOf(name) >= 0;
+
+    if (value === undefined || value === null) {
+      return value;
+    }
+
+    if (redact && TraceLogger.secretKeys.indexOf(name) >= 0) {
+      return '[REDACTED]';
+    }
+
+    if (typeof value === 'string') {
+      if (!redact) {
+        return value;
+      }
+
+      return isId ? TraceLogger.maskId(value) : value.replace(TraceLogger.idPattern, (id) => TraceLogger.maskId(id));
+    }
+
+    if (typeof value !== 'object') {
+      return value;
+    }
+
+    if (depth >= TraceLogger.maxDepth) {
+      return '[Object]';
+    }
+
+    if (Buffer.isBuffer(value)) {
+      return '[Buffer ' + value.length + ' bytes]';
+    }
+
+    if (value instanceof Error) {
+      return TraceLogger.sanitize(TraceLogger.serializeError(value), redact, key, depth);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => TraceLogger.sanitize(item, redact, isId ? name : '', depth + 1));
+    }
+
+    return Object.keys(value).reduce((result, field) => {
+      result[field] = TraceLogger.sanitize(value[field], redact, field, depth + 1);
+      return result;
+    }, {} as LogFields);
+  }
+
+  public logger: Logger;
+  public level: LoggingLevel;
+  public redact: boolean;
+  private storage: FieldStorage;
+
+  constructor(options: LoggingOptions = {}) {
+    const hooks: typeof asyncHooks & { AsyncLocalStorage?: new () => FieldStorage } = asyncHooks;
+
+    this.logger = options.logger || new JsonLogger();
+    this.level = options.level || 'info';
+    this.redact = options.redact !== false;
+    this.storage = hooks.AsyncLocalStorage ? new hooks.AsyncLocalStorage() : new ContextStorage<LogFields>();
+  }
+
+  public get fields(): LogFields {
+    return this.storage.getStore() || {};
+  }
+
+  public get correlationId(): string | undefined {
+    return this.fields.eventId || this.fields.requestId;
+  }
+
+  public run<T>(fields: LogFields, callback: () => T): T {
+    return this.storage.run({ ...this.fields, ...fields }, callback);
+  }
+
+  public isEnabled(level: LogLevel) {
+    return TraceLogger.levels[level] >= TraceLogger.levels[this.level];
+  }
+
+  public debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields) {
+    this.log('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  public log(level: LogLevel, message: string, fields?: LogFields) {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    try {
+      this.logger[level](TraceLogger.sanitize(message, this.redact),
+        TraceLogger.sanitize({ ...this.fields, ...fields }, this.redact));
+    } catch (err) {
+      // Logging must never break event handling.
+    }
+  }
+
+}
@@ -0,0 +1,131 @@
+import * as LINEBot from '@line/bot-sdk';
+import { MemberJoinedEvent, MemberLeftEvent, WebhookEventMetadata } from './event-types';
+
+export interface WebhookEventOptions {
+  source?: LINEBot.EventSource;
+  timestamp?: number;
+  replyToken?: string;
+  webhookEventId?: string;
+  isRedelivery?: boolean;
+}
+
+export class WebhookEvents {
+  public static defaultUserId = 'U00000000000000000000000000000000';
+
+  public static user(userId: string = WebhookEvents.defaultUserId): LINEBot.User {
+    return { type: 'user', userId };
+  }
+
+  public static group(groupId: string, userId?: string): LINEBot.Group {
+    return { groupId, type: 'group', userId };
+  }
+
+  public static room(roomId: string, userId?: string): LINEBot.Room {
+    return { roomId, type: 'room', userId };
+  }
+
+  public static message(message: LINEBot.EventMessage, options: WebhookEventOptions = {}): LINEBot.MessageEvent {
+    return { ...WebhookEvents.replyable(options), message, type: 'message' };
+  }
+
+  public static text(text: string, options?: WebhookEventOptions) {
+    return WebhookEvents.message({ id: WebhookEvents.nextId(), text, type: 'text' }, options);
+  }
+
+  public static image(options?: WebhookEventOptions) {
+    return WebhookEvents.message({ id: WebhookEvents.nextId(), type: 'image' }, options);
+  }
+
+  public static video(options?: WebhookEventOptions) {
+    return WebhookEvents.message({ id: WebhookEvents.nextId(), type: 'video' }, options);
+  }
+
+  public static audio(options?: WebhookEventOptions) {
+    return WebhookEvents.message({ id: WebhookEvents.nextId(), type: 'audio' }, options);
+  }
+
+  public static file(fileName: string, fileSize: number, options?: WebhookEventOptions) {
+    return WebhookEvents.message({ fileName, fileSize: String(fileSize), id: WebhookEvents.nextId(), type: 'file' },
+      options);
+  }
+
+  public static location(title: string, address: string, latitude: number, longitude: number,
+                         options?: WebhookEventOptions) {
+    return WebhookEvents.message({ address, id: WebhookEvents.nextId(), latitude, longitude, title, type: 'location' },
+      options);
+  }
+
+  public static sticker(packageId: string, stickerId: string, options?: WebhookEventOptions) {
+    return WebhookEvents.message({ id: WebhookEvents.nextId(), packageId, stickerId, type: 'sticker' }, options);
+  }
+
+  public static follow(options: WebhookEventOptions = {}): LINEBot.FollowEvent {
+    return { ...WebhookEvents.replyable(options), type: 'follow' };
+  }
+
+  public static unfollow(options: WebhookEventOptions = {}): LINEBot.UnfollowEvent {
+    return { ...WebhookEvents.base(options), type: 'unfollow' };
+  }
+
+  public static join(options: WebhookEventOptions = {}): LINEBot.JoinEvent {
+    return { ...WebhookEvents.replyable(options), type: 'join' };
+  }
+
+  public static leave(options: WebhookEventOptions = {}): LINEBot.LeaveEvent {
+    return { ...WebhookEvents.base(options), type: 'leave' };
+  }
+
+  public static postback(data: string, params?: LINEBot.Postback['params'],
+                         options: WebhookEventOptions = {}): LINEBot.PostbackEvent {
+    return { ...WebhookEvents.replyable(options), postback: params ? { data, params } : { data }, type: 'postback' };
+  }
+
+  public static beacon(hwid: string, type: LINEBot.BeaconEvent['beacon']['type'] = 'enter',
+                       options: WebhookEventOptions = {}): LINEBot.BeaconEvent {
+    return { ...WebhookEvents.replyable(options), beacon: { hwid, type }, type: 'beacon' };
+  }
+
+  public static memberJoined(userIds: string[], options: WebhookEventOptions = {}): MemberJoinedEvent {
+    return {
+      ...WebhookEvents.replyable(options),
+      joined: { members: userIds.map((userId) => WebhookEvents.user(userId)) },
+      type: 'memberJoined'
+    };
+  }
+
+  public static memberLeft(userIds: string[], options: WebhookEventOptions = {}): MemberLeftEvent {
+    return {
+      ...WebhookEvents.base(options),
+      left: { members: userIds.map((userId) => WebhookEvents.user(userId)) },
+      type: 'memberLeft'
+    };
+  }
+
+  private static lastId = 0;
+
+  private static nextId() {
+    return String(++WebhookEvents.lastId);
+  }
+
+  private static base(options: WebhookEventOptions) {
+    const base: { source: LINEBot.EventSource, timestamp: number } & WebhookEventMetadata = {
+      source: options.source || WebhookEvents.user(),
+      timestamp: options.timestamp !== undefined ? options.timestamp : Date.now()
+    };
+
+    if (options.webhookEventId !== undefined) {
+      base.webhookEventId = options.webhookEventId;
+    }
+
+    if (options.isRedelivery !== undefined) {
+      base.deliveryContext = { isRedelivery: options.isRedelivery };
+    }
+
+    return base;
+  }
+
+  private static replyable(options: WebhookEventOptions) {
+    return { ...WebhookEvents.base(options), replyToken: options.replyToken || 'reply-' + WebhookEvents.nextId() };
+  }
+
+}
@@ -0,0 +1,159 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { PassThrough } from 'stream';
+import { BotServer } from './bot-server';
+import { Channel } from './channel';
+import { BotEvent, WebhookRequestBody } from './event-types';
+import { LINEClient } from './line-client';
+
+export interface SimulatorOptions {
+  endpoint?: string;
+  destination?: string;
+  passthrough?: boolean;
+}
+
+export interface SimulatedCall {
+  channel: string;
+  method: string;
+  path: string;
+  body?: any;
+}
+
+export interface SimulatorResult {
+  status: number;
+  body: string;
+  calls: SimulatedCall[];
+}
+
+export class WebhookSimulator {
+  public static requestMethods: { [name: string]: string } = {
+    delete: 'DELETE',
+    get: 'GET',
+    post: 'POST',
+    postBinary: 'POST',
+    stream: 'GET'
+  };
+
+  public static sign(body: string, channelSecret: string) {
+    return crypto.createHmac('SHA256', channelSecret).update(body).digest('base64');
+  }
+
+  public static stubResponse(name: string) {
+    if (name !== 'stream') {
+      return {};
+    }
+
+    const stream = new PassThrough();
+
+    stream.end();
+    return stream;
+  }
+
+  public endpoint: string;
+  public calls: SimulatedCall[] = [];
+
+  constructor(public server: BotServer, public options: SimulatorOptions = {}) {
+    this.endpoint = options.endpoint || '/webhook';
+
+    server.channels.list().forEach((channel) => this.intercept(channel));
+    server.channels.on('add', (channel: Channel) => this.intercept(channel));
+  }
+
+  public async send(events: BotEvent | BotEvent[], signature?: string): Promise<SimulatorResult> {
+    const body: WebhookRequestBody = {
+      destination: this.options.destination,
+      events: Array.isArray(events) ? events : [events]
+    };
+
+    return this.post(JSON.stringify(body), signature);
+  }
+
+  public async sendTo(channelId: string, events: BotEvent | BotEvent[], signature?: string): Promise<SimulatorResult> {
+    const channel = this.server.channels.get(channelId);
+
+    if (!channel) {
+      throw new Error('Channel ' + channelId + ' is not registered');
+    }
+
+    const body = JSON.stringify({
+      destination: channel.destination || this.options.destination,
+      events: Array.isArray(events) ? events : [events]
+    } as WebhookRequestBody);
+
+    return this.post(body, signature || WebhookSimulator.sign(body, channel.options.channelSecret),
+      channel.webhookPath || this.endpoint);
+  }
+
+  public post(body: string, signature?: string, path: string = this.endpoint) {
+    const server = http.createServer(this.server.app);
+    const start = this.calls.length;
+    const channelSecret = this.server.defaultChannel.options.channelSecret;
+
+    return new Promise<SimulatorResult>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        const request = http.request({
+          headers: {
+            'Content-Length': Buffer.byteLength(body),
+            'Content-Type': 'application/json',
+            'X-Line-Signature': signature || WebhookSimulator.sign(body, channelSecret)
+          },
+          host: '127.0.0.1',
+          method: 'POST',
+          path,
+          port: (server.address() as AddressInfo).port
+        }, (res) => {
+          const chunks: Buffer[] = [];
+
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => resolve({
+            body: Buffer.concat(chunks).toString(),
+            calls: this.calls.slice(start),
+            status: res.statusCode || 0
+          }));
+        });
+
+        request.once('error', reject);
+        request.end(body);
+      });
+    }).then((result) => {
+      server.close();
+      return result;
+    }, (err) => {
+      server.close();
+      throw err;
+    });
+  }
+
+  public intercept(channel: Channel) {
+    LINEClient.use(channel.client, (request, next) => {
+      this.calls.push({
+        body: request.method === 'postBinary' || request.body === undefined
+          ? request.body
+          : JSON.parse(JSON.stringify(request.body)),
+        channel: channel.id,
+        method: WebhookSimulator.requestMethods[request.method],
+        path: request.path
+      });
+
+      return this.options.passthrough ? next() : Promise.resolve(WebhookSimulator.stubResponse(request.method));
+    });
+  }
+
+  public reset() {
+    this.calls = [];
+  }
+
+  public get replies() {
+    return this.calls.filter((call) => call.path === 'message/reply')
+      .map((call) => call.body as { replyToken: string, messages: LINEBot.Message[] });
+  }
+
+  public get pushes() {
+    return this.calls.filter((call) => call.path === 'message/push')
+      .map((call) => call.body as { to: string, messages: LINEBot.Message[] });
+  }
+
+}
@@ -0,0 +1,126 @@
+import * as chai from 'chai';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as pem from 'pem';
+import * as tls from 'tls';
+import {AcmeClient} from '../../lib/acme-client';
+import {AcmeEmulator} from '../../lib/acme-emulator';
+import {BotServer} from '../../lib/bot-server';
+import {CertificateWatcher} from '../../lib/certificate-watcher';
+
+function createCertificate() {
+  const key = AcmeClient.generateKey();
+
+  return new Promise<{ cert: string, key: string }>((resolve, reject) => {
+    pem.createCSR({clientKey: key, commonName: 'localhost'}, (csrErr, result) => {
+      if (csrErr) {
+        return reject(csrErr);
+      }
+
+      pem.createCertificate({csr: result.csr, days: 30, selfSigned: true, serviceKey: key}, (err, keys) => {
+        return err ? reject(err) : resolve({cert: keys.certificate, key});
+      });
+    });
+  });
+}
+
+function readServedExpiry(server: https.Server) {
+  return new Promise<Date>((resolve, reject) => {
+    const socket = tls.connect({
+      port: (server.address() as AddressInfo).port,
+      rejectUnauthorized: false,
+      servername: 'bot.example.com'
+    }, () => {
+      resolve(new Date(socket.getPeerCertificate().valid_to));
+      socket.end();
+    });
+
+    socket.once('error', reject);
+  });
+}
+
+describe('ACME certificates', () => {
+  let emulator: AcmeEmulator,
+    server: BotServer,
+    challengeServer: http.Server,
+    dir: string;
+
+  before(async () => {
+    emulator = new AcmeEmulator();
+    await emulator.start();
+  });
+
+  beforeEach(async () => {
+    const initial = await createCertificate();
+
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'acme-'));
+    await fs.writeFile(path.join(dir, 'server.key'), initial.key);
+    await fs.writeFile(path.join(dir, 'server.crt'), initial.cert);
+
+    server = new BotServer({
+      acme: {accountKey: AcmeClient.generateKey(), directoryURL: emulator.directoryURL, domains: ['bot.example.com'], pollInterval: 10},
+      cert: path.join(dir, 'server.crt'),
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      key: path.join(dir, 'server.key'),
+      logging: {level: 'silent'},
+      port: 1234,
+      watchCertificates: true
+    });
+    server.enableStatusEndpoint();
+
+    challengeServer = http.createServer(server.app);
+    await new Promise((resolve) => challengeServer.listen(0, '127.0.0.1', resolve));
+    emulator.options.challengeBaseURL = 'http://127.0.0.1:' + (challengeServer.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    (server.certificates as CertificateWatcher).stop();
+    await new Promise((resolve) => challengeServer.close(resolve));
+    await fs.remove(dir);
+  });
+
+  after(() => emulator.stop());
+
+  it('should renew the certificate through the bot app and hot reload it', async () => {
+    const secureServer = server.https as https.Server;
+
+    await new Promise((resolve) => secureServer.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const renewed = await server.renewCertificate();
+      const expiresAt = await CertificateWatcher.readExpiry(renewed.cert);
+
+      chai.expect(await fs.readFile(path.join(dir, 'server.crt'), 'utf8')).to.equal(renewed.cert);
+      chai.expect(await fs.readFile(path.join(dir, 'server.key'), 'utf8')).to.equal(renewed.key);
+      chai.expect((server.certificates as CertificateWatcher).expiresAt).to.deep.equal(expiresAt);
+      chai.expect(await readServedExpiry(secureServer)).to.deep.equal(expiresAt);
+    } finally {
+      await new Promise((resolve) => secureServer.close(resolve));
+    }
+  });
+
+  it('should renew automatically when the certificate is expiring', async () => {
+    const watcher = server.certificates as CertificateWatcher,
+      reloaded = new Promise((resolve) => watcher.once('reload', resolve));
+
+    watcher.options.warnBefore = 100 * 365 * 24 * 60 * 60 * 1000;
+    watcher.checkExpiry();
+    await reloaded;
+    watcher.options.warnBefore = CertificateWatcher.defaultWarnBefore;
+
+    chai.expect(emulator.validations.slice(-1)[0]).to.include({domain: 'bot.example.com', valid: true});
+  });
+
+  it('should keep serving other routes', (done) => {
+    http.get('http://127.0.0.1:' + (challengeServer.address() as AddressInfo).port + '/status', (res) => {
+      chai.expect(res.statusCode).to.equal(200);
+      res.resume();
+      done();
+    });
+  });
+});
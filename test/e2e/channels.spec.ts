@@ -0,0 +1,82 @@
+import * as chai from 'chai';
+import {BotServer} from '../../lib/bot-server';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('multiple channels', () => {
+  let server: BotServer,
+    simulator: WebhookSimulator;
+
+  beforeEach(() => {
+    server = new BotServer({
+      cert: BotServer.defaultSSLCert,
+      channelAccessToken: '',
+      channelSecret: '',
+      channels: [
+        {channelAccessToken: 'token1', channelSecret: 'secret1', destination: 'Ushop', id: 'shop'},
+        {channelAccessToken: 'token2', channelSecret: 'secret2', id: 'support', webhookPath: '/support'}
+      ],
+      key: BotServer.defaultSSLKey,
+      logging: {level: 'silent'},
+      port: 1234
+    });
+    server.setWebhook('/webhook');
+    server.onKeyword('hi', (match, context) => context.reply({text: 'hello from ' + context.channel.id, type: 'text'}));
+    simulator = new WebhookSimulator(server);
+  });
+
+  it('should use the first channel as default', () => {
+    chai.expect(server.defaultChannel.id).to.equal('shop');
+    chai.expect(server.client).to.equal(server.defaultChannel.client);
+  });
+
+  it('should resolve channels by destination', async () => {
+    let result = await simulator.sendTo('shop', WebhookEvents.text('hi'));
+
+    chai.expect(result.status).to.equal(200);
+    chai.expect(result.calls.map((call) => call.channel)).to.deep.equal(['shop']);
+    chai.expect(result.calls[0].body.messages[0].text).to.equal('hello from shop');
+  });
+
+  it('should resolve channels by webhook path', async () => {
+    let result = await simulator.sendTo('support', WebhookEvents.text('hi'));
+
+    chai.expect(result.status).to.equal(200);
+    chai.expect(result.calls.map((call) => call.channel)).to.deep.equal(['support']);
+    chai.expect(result.calls[0].body.messages[0].text).to.equal('hello from support');
+  });
+
+  it('should reject events signed with another channel secret', async () => {
+    let body = JSON.stringify({destination: 'Ushop', events: [WebhookEvents.text('hi')]}),
+      result = await simulator.post(body, WebhookSimulator.sign(body, 'secret2'));
+
+    chai.expect(result.status).not.to.equal(200);
+    chai.expect(result.calls).to.deep.equal([]);
+  });
+
+  describe('when channels change at runtime', () => {
+
+    it('should route to added channels', async () => {
+      server.addChannel({channelAccessToken: 'token3', channelSecret: 'secret3', id: 'news', webhookPath: '/news'});
+
+      let result = await simulator.sendTo('news', WebhookEvents.text('hi'));
+
+      chai.expect(result.calls.map((call) => call.channel)).to.deep.equal(['news']);
+    });
+
+    it('should stop routing to removed channels', async () => {
+      let body = JSON.stringify({events: [WebhookEvents.text('hi')]}),
+        result;
+
+      server.removeChannel('support');
+      result = await simulator.post(body, WebhookSimulator.sign(body, 'secret2'), '/support');
+
+      chai.expect(result.status).to.equal(404);
+    });
+
+    it('should not remove the default channel', () => {
+      chai.expect(() => server.removeChannel('shop')).to.throw('Cannot remove channel shop');
+    });
+  });
+
+});
@@ -0,0 +1,86 @@
+import * as chai from 'chai';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {BotServer} from '../../lib/bot-server';
+import {StoredContent} from '../../lib/content-manager';
+import {EventContext} from '../../lib/event-context';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('media content', () => {
+  let emulator: ApiEmulator,
+    server: BotServer,
+    simulator: WebhookSimulator,
+    dir: string;
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-e2e-'));
+    server = new BotServer({
+      apiBaseURL: emulator.baseURL,
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      content: {dir, maxSize: 16},
+      logging: {level: 'silent'},
+      transport: 'external'
+    });
+    server.setWebhook('/webhook');
+    simulator = new WebhookSimulator(server, {passthrough: true});
+  });
+
+  afterEach(() => fs.remove(dir));
+
+  after(() => emulator.stop());
+
+  it('should pass stored content to content handlers', async () => {
+    const event = WebhookEvents.image();
+    let stored: StoredContent | undefined;
+
+    emulator.setContent(event.message.id, new Buffer('ffd8ffe000104a46', 'hex'));
+    server.onContent(['image', 'video'], (content) => {
+      stored = content;
+    });
+
+    await simulator.send(event);
+
+    chai.expect(stored).to.deep.include({contentType: 'image/jpeg', messageId: event.message.id, size: 8});
+    chai.expect(fs.existsSync(path.join(dir, (stored as StoredContent).key))).to.equal(true);
+  });
+
+  it('should store content of opted-in types before message handlers', async () => {
+    const audio = WebhookEvents.audio();
+    const image = WebhookEvents.image();
+    const contexts: { [type: string]: EventContext } = {};
+
+    server.enableContent({dir, types: ['audio']});
+    server.onAnyMessage((event, context) => {
+      contexts[event.message.type] = context;
+    });
+    emulator.setContent(audio.message.id, new Buffer('ID3'));
+
+    await simulator.send([audio, image]);
+
+    chai.expect((contexts.audio.content as StoredContent).contentType).to.equal('audio/mpeg');
+    chai.expect(contexts.image.content).to.equal(undefined);
+  });
+
+  it('should report content over the size limit to error handlers', async () => {
+    const event = WebhookEvents.file('large.bin', 17);
+    const errors: Error[] = [];
+
+    server.onContent('file', () => undefined);
+    server.onError((err) => {
+      errors.push(err);
+    });
+
+    await simulator.send(event);
+
+    chai.expect(errors[0].message).to.contain('exceeds 16 bytes');
+  });
+});
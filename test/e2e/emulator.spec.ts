@@ -0,0 +1,59 @@
+import * as chai from 'chai';
+import ChaiHttp = require('chai-http');
+import * as crypto from 'crypto';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {BotServer} from '../../lib/bot-server';
+
+chai.use(ChaiHttp);
+
+const channelSecret = 'test';
+
+function sign(body: string) {
+  return crypto.createHmac('SHA256', channelSecret).update(body).digest('base64');
+}
+
+describe('emulator', () => {
+  let emulator: ApiEmulator,
+    server: BotServer;
+
+  before(async () => {
+    emulator = new ApiEmulator();
+    server = new BotServer({
+      apiBaseURL: await emulator.start(),
+      cert: BotServer.defaultSSLCert,
+      channelAccessToken: 'test',
+      channelSecret,
+      key: BotServer.defaultSSLKey,
+      logging: {level: 'silent'},
+      port: 1234
+    });
+    server.setWebhook('/webhook');
+    server.onKeyword('hi', (match, context) => context.reply({text: 'hello', type: 'text'}));
+  });
+
+  after(() => emulator.stop());
+
+  it('should send replies to the emulator', (done) => {
+    let body = JSON.stringify({
+      events: [{
+        message: {id: '1', text: 'hi', type: 'text'},
+        replyToken: 'r1',
+        source: {type: 'user', userId: 'U1'},
+        timestamp: Date.now(),
+        type: 'message'
+      }]
+    });
+
+    chai.request(server.app)
+      .post('/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Line-Signature', sign(body))
+      .send(body)
+      .end((err, res: ChaiHttp.Response) => {
+        chai.expect(res).to.have.status(200);
+        chai.expect(emulator.replies).to.deep.equal([{messages: [{text: 'hello', type: 'text'}], replyToken: 'r1'}]);
+        done();
+      });
+  });
+
+});
@@ -0,0 +1,130 @@
+import * as chai from 'chai';
+import ChaiHttp = require('chai-http');
+import {ApiEmulator} from '../../lib/api-emulator';
+import {BotServer} from '../../lib/bot-server';
+import {MemoryStore} from '../../lib/memory-store';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+chai.use(ChaiHttp);
+
+describe('health and metrics', () => {
+  let emulator: ApiEmulator,
+    server: BotServer;
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+  });
+
+  beforeEach(() => {
+    emulator.reset();
+    server = new BotServer({
+      apiBaseURL: emulator.baseURL,
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      logging: {level: 'silent'},
+      transport: 'external'
+    });
+    server.setWebhook('/webhook');
+  });
+
+  after(() => emulator.stop());
+
+  describe('when enableHealthEndpoints is called', () => {
+
+    beforeEach(() => {
+      server.enableHealthEndpoints();
+    });
+
+    it('should report liveness', async () => {
+      const res = await chai.request(server.app).get('/health/live');
+
+      chai.expect(res).to.have.status(200);
+      chai.expect(res.body.status).to.equal('ok');
+    });
+
+    it('should report readiness with every check', async () => {
+      server.enableSessions({store: new MemoryStore()});
+
+      const res = await chai.request(server.app).get('/health/ready');
+
+      chai.expect(res).to.have.status(200);
+      chai.expect(res.body).to.deep.equal({
+        checks: {
+          queue: {backlog: 0, maxBacklog: 1000, status: 'ok'},
+          sessions: {status: 'ok'},
+          token: {channels: {default: 'ok'}, status: 'ok'}
+        },
+        status: 'ok'
+      });
+      chai.expect(emulator.callsTo('info')).to.have.length(1);
+    });
+
+    it('should fail readiness when the access token is rejected', async () => {
+      emulator.fail({path: 'info', status: 401, body: {message: 'Authentication failed'}});
+
+      const res = await chai.request(server.app).get('/health/ready');
+
+      chai.expect(res).to.have.status(503);
+      chai.expect(res.body.status).to.equal('fail');
+      chai.expect(res.body.checks.token.status).to.equal('fail');
+    });
+
+    it('should reuse the token check until it expires', async () => {
+      await chai.request(server.app).get('/health/ready');
+      await chai.request(server.app).get('/health/ready');
+
+      chai.expect(emulator.callsTo('info')).to.have.length(1);
+
+      server.enableHealthEndpoints({readinessPath: '/ready', tokenCheckTtl: 0});
+      await chai.request(server.app).get('/ready');
+
+      chai.expect(emulator.callsTo('info')).to.have.length(2);
+    });
+
+    it('should fail readiness when a custom check fails or times out', async () => {
+      server.enableHealthEndpoints({readinessPath: '/ready', timeout: 20});
+      server.addHealthCheck('database', () => Promise.reject(new Error('connection refused')));
+      server.addHealthCheck('slow', () => new Promise((resolve) => setTimeout(resolve, 100)));
+
+      const res = await chai.request(server.app).get('/ready');
+
+      chai.expect(res).to.have.status(503);
+      chai.expect(res.body.checks.database).to.deep.equal({error: 'connection refused', status: 'fail'});
+      chai.expect(res.body.checks.slow).to.deep.equal({error: 'Timed out after 20ms', status: 'fail'});
+    });
+  });
+
+  describe('when enableMetrics is called', () => {
+    it('should expose webhook, latency and API call metrics', async () => {
+      server.enableMetrics();
+      server.onFollow((event, context) => context.reply({text: 'hello', type: 'text'}));
+
+      await new WebhookSimulator(server, {passthrough: true}).send([WebhookEvents.follow(), WebhookEvents.follow()]);
+      emulator.fail({path: 'message/push', status: 500});
+      await server.client.pushMessage('U1', {text: 'hi', type: 'text'}).catch(() => undefined);
+
+      const res = await chai.request(server.app).get('/metrics');
+
+      chai.expect(res).to.have.status(200);
+      chai.expect(res.header['content-type']).to.match(/^text\/plain;.*version=0\.0\.4/);
+      chai.expect(res.text).to.contain('line_bot_webhook_events_total{channel="default",type="follow"} 2');
+      chai.expect(res.text).to.contain('line_bot_handler_duration_seconds_count{type="follow"} 2');
+      chai.expect(res.text).to.contain('line_bot_api_requests_total{channel="default",method="post",status="200"} 2');
+      chai.expect(res.text).to.contain('line_bot_api_requests_total{channel="default",method="post",status="500"} 1');
+      chai.expect(res.text).to.contain('line_bot_outbound_queue_size{channel="default"} 0');
+    });
+  });
+
+  describe('when enableStatusMonitor is called', () => {
+    it('should serve the dashboard', async () => {
+      server.enableStatusMonitor();
+
+      const res = await chai.request(server.app).get('/status-monitor');
+
+      chai.expect(res).to.have.status(200);
+      chai.expect(res.text).to.contain('LINE Bot Status');
+    });
+  });
+});
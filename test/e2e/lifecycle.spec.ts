@@ -0,0 +1,113 @@
+import * as chai from 'chai';
+import * as http from 'http';
+import * as sinon from 'sinon';
+import {BotServer} from '../../lib/bot-server';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+function post(port: number, body: string) {
+  return new Promise<number>((resolve, reject) => {
+    const request = http.request({
+      headers: {'Content-Type': 'application/json', 'X-Line-Signature': WebhookSimulator.sign(body, 'test')},
+      hostname: '127.0.0.1',
+      method: 'POST',
+      path: '/webhook',
+      port
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode);
+    });
+
+    request.once('error', reject);
+    request.end(body);
+  });
+}
+
+describe('lifecycle', () => {
+  let server: BotServer,
+    events: string[];
+
+  beforeEach(() => {
+    events = [];
+    server = new BotServer({channelAccessToken: 'test', channelSecret: 'test', logging: {level: 'silent'}, port: 0, transport: 'http'});
+    server.setWebhook('/webhook');
+    ['listening', 'stopping', 'stopped'].forEach((name: any) => server.onLifecycle(name, () => events.push(name)));
+  });
+
+  afterEach(() => server.stop());
+
+  it('should resolve start with the bound port', async () => {
+    const port = await server.start();
+
+    chai.expect(port).to.be.above(0);
+    chai.expect(server.port).to.equal(port);
+    chai.expect(events).to.deep.equal(['listening']);
+  });
+
+  it('should wait for in-flight handlers before stopping', async () => {
+    let finished = false,
+      status: Promise<number>;
+    const started = new Promise((resolve) => server.onFollow(async () => {
+      resolve();
+      await new Promise((done) => setTimeout(done, 100));
+      finished = true;
+    }));
+
+    status = post(await server.start(), JSON.stringify({events: [WebhookEvents.follow()]}));
+    await started;
+
+    chai.expect(server.inFlight).to.equal(1);
+    chai.expect(await server.stop()).to.be.true;
+    chai.expect(finished).to.be.true;
+    chai.expect(await status).to.equal(200);
+    chai.expect(events).to.deep.equal(['listening', 'stopping', 'stopped']);
+    chai.expect(server.server && server.server.listening).to.be.false;
+  });
+
+  it('should close idle keep-alive connections when stopping', async () => {
+    const agent = new http.Agent({keepAlive: true});
+    const port = await server.start();
+
+    await new Promise((resolve, reject) => http.get({agent, hostname: '127.0.0.1', path: '/', port}, (res) => {
+      res.resume();
+      res.once('end', resolve);
+    }).once('error', reject));
+
+    try {
+      chai.expect(await server.stop()).to.be.true;
+      chai.expect(server.server && server.server.listening).to.be.false;
+    } finally {
+      agent.destroy();
+    }
+  });
+
+  it('should give up draining after the timeout', async () => {
+    const started = new Promise((resolve) => server.onFollow(() => {
+      resolve();
+      return new Promise((done) => setTimeout(done, 500));
+    }));
+
+    post(await server.start(), JSON.stringify({events: [WebhookEvents.follow()]})).catch(() => undefined);
+    await started;
+
+    chai.expect(await server.stop(20)).to.be.false;
+  });
+
+  it('should stop on SIGTERM when signals are handled', async () => {
+    const exit = sinon.stub(process, 'exit');
+    const listeners = process.listeners('SIGTERM' as any).length;
+
+    try {
+      await server.start();
+      server.handleSignals(['SIGTERM']);
+      process.emit('SIGTERM' as any, 'SIGTERM' as any);
+      await new Promise((resolve) => server.onLifecycle('stopped', resolve));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      chai.expect(exit.calledWith(0)).to.be.true;
+      chai.expect(process.listeners('SIGTERM' as any).length).to.equal(listeners);
+    } finally {
+      exit.restore();
+    }
+  });
+});
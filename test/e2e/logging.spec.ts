@@ -0,0 +1,105 @@
+import * as chai from 'chai';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {BotServer} from '../../lib/bot-server';
+import {EventContext} from '../../lib/event-context';
+import {LogFields, Logger} from '../../lib/logger';
+import {TraceLogger} from '../../lib/trace-logger';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('logging', () => {
+  let emulator: ApiEmulator,
+    server: BotServer,
+    simulator: WebhookSimulator,
+    entries: Array<LogFields & {level: string, msg: string}>,
+    userId = 'U' + 'fedcba9876543210'.repeat(2);
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+  });
+
+  beforeEach(() => {
+    const capture = (level: string) => (msg: string, fields?: LogFields) => entries.push({...fields, level, msg});
+    const logger: Logger = {debug: capture('debug'), error: capture('error'), info: capture('info'), warn: capture('warn')};
+
+    emulator.reset();
+    entries = [];
+    server = new BotServer({
+      apiBaseURL: emulator.baseURL,
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      logging: {level: 'debug', logger},
+      transport: 'external'
+    });
+    server.setWebhook('/webhook');
+    simulator = new WebhookSimulator(server, {passthrough: true});
+  });
+
+  after(() => emulator.stop());
+
+  describe('when the signature is invalid', () => {
+
+    it('should log a warning', async () => {
+      await simulator.send(WebhookEvents.follow(), 'invalid');
+
+      chai.expect(entries.filter((entry) => entry.level === 'warn').map((entry) => entry.msg))
+        .to.deep.equal(['Webhook signature validation failed']);
+    });
+  });
+
+  describe('when a handler throws', () => {
+
+    it('should log the error with the request and event IDs', async () => {
+      server.onFollow(() => {
+        throw new Error('failed');
+      });
+
+      await simulator.send(WebhookEvents.follow({webhookEventId: 'e1'}));
+
+      const entry = entries.find((item) => item.msg === 'Event handler failed');
+
+      chai.expect(entry).to.include({eventId: 'e1', level: 'error', type: 'follow'});
+      chai.expect(entry && entry.requestId).to.be.a('string');
+      chai.expect(entry && entry.error.message).to.equal('failed');
+    });
+  });
+
+  describe('when a handler calls the API', () => {
+    let context: EventContext;
+
+    beforeEach(async () => {
+      server.onFollow((event, eventContext) => {
+        context = eventContext;
+        return eventContext.client.pushMessage(userId, {text: 'Hello', type: 'text'});
+      });
+
+      await simulator.send(WebhookEvents.follow({source: WebhookEvents.user(userId), webhookEventId: 'e1'}));
+    });
+
+    it('should send the correlation ID with the request', () => {
+      chai.expect(context.correlationId).to.equal('e1');
+      chai.expect(emulator.callsTo('message/push')[0].headers['x-correlation-id']).to.equal('e1');
+    });
+
+    it('should log the request with masked user IDs', () => {
+      const entry = entries.find((item) => item.msg === 'API request succeeded');
+
+      chai.expect(entry).to.include({eventId: 'e1', method: 'post', path: 'message/push'});
+      chai.expect(JSON.stringify(entries)).not.to.include(userId);
+      chai.expect(JSON.stringify(entries)).to.include(TraceLogger.maskId(userId));
+    });
+  });
+
+  describe('when the API fails', () => {
+
+    it('should log the failed request', async () => {
+      emulator.fail({path: 'message/push', status: 500, times: 1});
+
+      await server.client.pushMessage(userId, {text: 'Hello', type: 'text'}).catch(() => undefined);
+
+      chai.expect(entries.find((item) => item.msg === 'API request failed')).to.include({level: 'error'});
+    });
+  });
+
+});
@@ -0,0 +1,130 @@
+import * as chai from 'chai';
+import {BotServer} from '../../lib/bot-server';
+import {EventContext} from '../../lib/event-context';
+import {EventPipeline} from '../../lib/event-pipeline';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('event middleware', () => {
+  let server: BotServer,
+    simulator: WebhookSimulator,
+    calls: string[];
+
+  beforeEach(() => {
+    server = new BotServer({channelAccessToken: 'test', channelSecret: 'test', logging: {level: 'silent'}, transport: 'external'});
+    server.setWebhook('/webhook');
+    simulator = new WebhookSimulator(server);
+    calls = [];
+    server.onFollow((event, context) => {
+      calls.push('handler');
+      return context.reply({text: 'Welcome', type: 'text'});
+    });
+  });
+
+  describe('when middleware is used', () => {
+
+    it('should run once per event around the handlers', async () => {
+      server.use(async (event, context, next) => {
+        calls.push('before:' + event.source.userId);
+        await next();
+        calls.push('after:' + event.source.userId);
+      });
+
+      await simulator.send(WebhookEvents.follow({source: WebhookEvents.user('U1')}));
+
+      chai.expect(calls).to.deep.equal(['before:U1', 'handler', 'after:U1']);
+    });
+
+    it('should give middleware access to the client and session', async () => {
+      let seen: EventContext | undefined;
+
+      server.enableSessions();
+      server.use((event, context, next) => {
+        seen = context;
+        return next();
+      });
+
+      await simulator.send(WebhookEvents.follow());
+
+      chai.expect(seen).to.have.property('client');
+      chai.expect(seen).to.have.property('session');
+    });
+
+    it('should let middleware short-circuit the handlers', async () => {
+      server.use((event, context) => context.reply({text: 'Forbidden', type: 'text'}));
+
+      const result = await simulator.send(WebhookEvents.follow());
+
+      chai.expect(calls).to.be.empty;
+      chai.expect(result.status).to.equal(200);
+      chai.expect(simulator.replies[0].messages).to.deep.equal([{text: 'Forbidden', type: 'text'}]);
+    });
+  });
+
+  describe('when a handler throws', () => {
+    let errors: Error[];
+
+    beforeEach(() => {
+      errors = [];
+      server.onError((err) => {
+        errors.push(err);
+      });
+      server.onJoin(() => {
+        throw new Error('failed');
+      });
+    });
+
+    it('should let error middleware handle the error', async () => {
+      server.useError((err, event, context) => context.reply({text: 'Sorry', type: 'text'}));
+
+      await simulator.send(WebhookEvents.join());
+
+      chai.expect(errors).to.be.empty;
+      chai.expect(simulator.replies[0].messages).to.deep.equal([{text: 'Sorry', type: 'text'}]);
+    });
+
+    it('should call the error handlers when error middleware passes the error on', async () => {
+      server.useError((err, event, context, next) => next());
+
+      await simulator.send(WebhookEvents.join());
+
+      chai.expect(errors.map((err) => err.message)).to.deep.equal(['failed']);
+    });
+  });
+
+  describe('when middleware is used for an endpoint', () => {
+
+    beforeEach(() => {
+      server.setWebhook('/admin', new EventPipeline().use(async (event, context, next) => {
+        calls.push('admin:' + context.endpoint);
+        await next();
+      }));
+      server.use(async (event, context, next) => {
+        calls.push('global');
+        await next();
+      });
+    });
+
+    it('should run it after the global middleware for that endpoint', async () => {
+      await new WebhookSimulator(server, {endpoint: '/admin'}).send(WebhookEvents.follow());
+
+      chai.expect(calls).to.deep.equal(['global', 'admin:/admin', 'handler']);
+    });
+
+    it('should not run it for other endpoints', async () => {
+      await simulator.send(WebhookEvents.follow());
+
+      chai.expect(calls).to.deep.equal(['global', 'handler']);
+    });
+
+    it('should run it for queued events', async () => {
+      server.enableQueue();
+
+      await new WebhookSimulator(server, {endpoint: '/admin'}).send(WebhookEvents.follow());
+      await server.queue!.drain();
+
+      chai.expect(calls).to.deep.equal(['global', 'admin:/admin', 'handler']);
+    });
+  });
+
+});
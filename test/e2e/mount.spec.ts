@@ -0,0 +1,109 @@
+import * as chai from 'chai';
+import ChaiHttp = require('chai-http');
+import * as express from 'express';
+import {BotServer} from '../../lib/bot-server';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+chai.use(ChaiHttp);
+
+describe('mounted bot', () => {
+  let server: BotServer,
+    app: express.Express;
+
+  beforeEach(() => {
+    server = new BotServer({
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      logging: {level: 'silent'},
+      transport: 'external',
+      trustProxy: true
+    });
+    server.setWebhook('/webhook');
+    server.enableStatusEndpoint();
+    app = express();
+    app.get('/', (req, res) => res.send('home'));
+    server.mount(app, '/line');
+  });
+
+  it('should keep serving the host app', (done) => {
+    chai.request(app)
+      .get('/')
+      .end((err, res: ChaiHttp.Response) => {
+        chai.expect(res.text).to.equal('home');
+        done();
+      });
+  });
+
+  it('should serve bot routes under the mount path', (done) => {
+    let handler = (event: any, context: any) => handled.push(context.channel.id),
+      handled: string[] = [],
+      body = JSON.stringify({events: [WebhookEvents.follow()]});
+
+    server.onFollow(handler);
+    chai.request(app)
+      .post('/line/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Line-Signature', WebhookSimulator.sign(body, 'test'))
+      .set('X-Forwarded-Proto', 'https')
+      .send(body)
+      .end((err, res: ChaiHttp.Response) => {
+        chai.expect(res).to.have.status(200);
+        chai.expect(handled).to.deep.equal(['default']);
+        done();
+      });
+  });
+
+  describe('when the host app parses JSON first', () => {
+    let body = JSON.stringify({events: [WebhookEvents.follow()]}),
+      post = (host: express.Express) => chai.request(host)
+        .post('/line/webhook')
+        .set('Content-Type', 'application/json')
+        .set('X-Line-Signature', WebhookSimulator.sign(body, 'test'))
+        .set('X-Forwarded-Proto', 'https')
+        .send(body);
+
+    it('should use the raw body', (done) => {
+      let host = express(),
+        handled: string[] = [];
+
+      server.onFollow((event: any, context: any) => handled.push(context.channel.id));
+      host.use(express.json({verify: (req: any, res, buf) => req.rawBody = buf}));
+      server.mount(host, '/line');
+      post(host).end((err, res: ChaiHttp.Response) => {
+        chai.expect(res).to.have.status(200);
+        chai.expect(handled).to.deep.equal(['default']);
+        done();
+      });
+    });
+
+    it('should fail fast without the raw body', (done) => {
+      let host = express(),
+        errors: Error[] = [];
+
+      host.use(express.json());
+      server.mount(host, '/line');
+      host.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+        errors.push(err);
+        res.status(500).end();
+      });
+      post(host).timeout(2000).end((err, res: ChaiHttp.Response) => {
+        chai.expect(res).to.have.status(500);
+        chai.expect(errors[0].message).to.contain('Webhook body was already parsed');
+        done();
+      });
+    });
+  });
+
+  it('should honor forwarded headers from trusted proxies', (done) => {
+    server.app.get('/protocol', (req, res) => res.send(req.protocol));
+    chai.request(app)
+      .get('/line/protocol')
+      .set('X-Forwarded-Proto', 'https')
+      .end((err, res: ChaiHttp.Response) => {
+        chai.expect(res.text).to.equal('https');
+        done();
+      });
+  });
+
+});
@@ -0,0 +1,89 @@
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {BotServer} from '../../lib/bot-server';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+chai.use(ChaiAsPromised);
+
+describe('profiles', () => {
+  let emulator: ApiEmulator,
+    server: BotServer,
+    simulator: WebhookSimulator,
+    names: string[];
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+  });
+
+  beforeEach(() => {
+    emulator.reset();
+    emulator.setProfile({displayName: 'Alice', pictureUrl: '', statusMessage: '', userId: 'U1'});
+    server = new BotServer({
+      apiBaseURL: emulator.baseURL,
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      logging: {level: 'silent'},
+      profiles: {},
+      transport: 'external'
+    });
+    server.setWebhook('/webhook');
+    simulator = new WebhookSimulator(server, {passthrough: true});
+    names = [];
+    server.onMessage('text', async (event, context) => {
+      const profile = await context.profile;
+
+      names.push(profile ? profile.displayName : '-');
+    });
+  });
+
+  after(() => emulator.stop());
+
+  describe('when a handler reads the profile', () => {
+
+    it('should resolve the profile of the event source', async () => {
+      await simulator.send(WebhookEvents.text('hi', {source: WebhookEvents.user('U1')}));
+
+      chai.expect(names).to.deep.equal(['Alice']);
+    });
+
+    it('should call the API once for repeated lookups', async () => {
+      await simulator.send(WebhookEvents.text('hi', {source: WebhookEvents.user('U1')}));
+      await simulator.send(WebhookEvents.text('again', {source: WebhookEvents.user('U1')}));
+
+      chai.expect(names).to.deep.equal(['Alice', 'Alice']);
+      chai.expect(emulator.callsTo('profile/U1')).to.have.length(1);
+    });
+
+    it('should not call the API when the profile is not read', async () => {
+      server.onFollow(() => undefined);
+
+      await simulator.send(WebhookEvents.follow({source: WebhookEvents.user('U1')}));
+
+      chai.expect(emulator.callsTo('profile/U1')).to.be.empty;
+    });
+  });
+
+  describe('when the user unfollows', () => {
+
+    it('should fetch the profile again afterwards', async () => {
+      await simulator.send(WebhookEvents.text('hi', {source: WebhookEvents.user('U1')}));
+      await simulator.send(WebhookEvents.unfollow({source: WebhookEvents.user('U1')}));
+      await simulator.send(WebhookEvents.text('back', {source: WebhookEvents.user('U1')}));
+
+      chai.expect(emulator.callsTo('profile/U1')).to.have.length(2);
+    });
+  });
+
+  describe('when profiles are not enabled', () => {
+
+    it('should reject reading the profile', async () => {
+      server.profiles = undefined;
+
+      await chai.expect(server.getProfile(WebhookEvents.user('U1'))).to.be.rejectedWith(/not enabled/);
+    });
+  });
+
+});
@@ -0,0 +1,87 @@
+import * as chai from 'chai';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {BotServer} from '../../lib/bot-server';
+import {BotServerQueuedEvent} from '../../lib/bot-server-options';
+import {JobQueue} from '../../lib/job-queue';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('queued webhook events', () => {
+  let server: BotServer,
+    dir: string,
+    queue = () => server.queue as JobQueue<BotServerQueuedEvent>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'queue-e2e-'));
+    server = new BotServer({
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      logging: {level: 'silent'},
+      queue: {file: path.join(dir, 'queue.json'), maxRetries: 1, retryDelay: 1},
+      transport: 'external'
+    });
+    server.setWebhook('/webhook');
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.remove(dir);
+  });
+
+  it('should acknowledge webhooks before handlers finish', async () => {
+    let release: () => void = () => undefined;
+    const handled: string[] = [];
+
+    server.onKeyword('report', async () => {
+      await new Promise<void>((resolve) => release = resolve);
+      handled.push('report');
+    });
+
+    const result = await new WebhookSimulator(server).send(WebhookEvents.text('report'));
+
+    chai.expect(result.status).to.equal(200);
+    chai.expect(handled).to.deep.equal([]);
+    chai.expect(fs.readJsonSync(path.join(dir, 'queue.json')).jobs).to.have.length(1);
+
+    release();
+    await queue().drain();
+
+    chai.expect(handled).to.deep.equal(['report']);
+  });
+
+  it('should handle messages of a user in sequence', async () => {
+    const handled: string[] = [];
+
+    server.onTextFallback(async (match) => {
+      await new Promise((resolve) => setTimeout(resolve, match.text === 'first' ? 20 : 1));
+      handled.push(match.text);
+    });
+
+    await new WebhookSimulator(server).send([WebhookEvents.text('first'), WebhookEvents.text('second')]);
+    await queue().drain();
+
+    chai.expect(handled).to.deep.equal(['first', 'second']);
+  });
+
+  it('should report events to error handlers once retries are exhausted', async () => {
+    let attempts = 0;
+    const errors: Error[] = [];
+
+    server.onFollow(() => {
+      attempts++;
+      throw new Error('ERP is down');
+    });
+    server.onError((err) => {
+      errors.push(err);
+    });
+
+    await new WebhookSimulator(server).send(WebhookEvents.follow());
+    await queue().drain();
+
+    chai.expect(attempts).to.equal(2);
+    chai.expect(errors.map((err) => err.message)).to.deep.equal(['ERP is down']);
+    chai.expect(queue().deadLetters).to.have.length(1);
+  });
+});
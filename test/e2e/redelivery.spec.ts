@@ -0,0 +1,75 @@
+import * as chai from 'chai';
+import {BotServer} from '../../lib/bot-server';
+import {EventContext} from '../../lib/event-context';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('webhook redelivery', () => {
+  let server: BotServer,
+    simulator: WebhookSimulator,
+    contexts: EventContext[];
+
+  beforeEach(() => {
+    server = new BotServer({channelAccessToken: 'test', channelSecret: 'test', logging: {level: 'silent'}, transport: 'external'});
+    server.setWebhook('/webhook');
+    simulator = new WebhookSimulator(server);
+    contexts = [];
+    server.onFollow((event, context) => {
+      contexts.push(context);
+      return context.reply({text: 'Welcome', type: 'text'});
+    });
+  });
+
+  describe('when deduplication is not enabled', () => {
+    it('should expose the redelivery flag sent by LINE', async () => {
+      await simulator.send(WebhookEvents.follow({isRedelivery: true, webhookEventId: 'e1'}));
+
+      chai.expect(contexts[0].deliveryContext).to.deep.equal({isRedelivery: true});
+    });
+  });
+
+  describe('when deduplication is enabled', () => {
+
+    beforeEach(() => {
+      server.enableDeduplication();
+    });
+
+    it('should skip events received before', async () => {
+      await simulator.send(WebhookEvents.follow({webhookEventId: 'e1'}));
+      const result = await simulator.send(WebhookEvents.follow({isRedelivery: true, webhookEventId: 'e1'}));
+
+      chai.expect(result.status).to.equal(200);
+      chai.expect(contexts).to.have.length(1);
+    });
+
+    it('should let handlers reprocess redeliveries when redelivery is process', async () => {
+      server.enableDeduplication({redelivery: 'process'});
+
+      await simulator.send(WebhookEvents.follow({webhookEventId: 'e1'}));
+      await simulator.send(WebhookEvents.follow({isRedelivery: true, webhookEventId: 'e1'}));
+
+      chai.expect(contexts.map((context) => context.deliveryContext.isRedelivery)).to.deep.equal([false, true]);
+    });
+
+    it('should process events again when their handler failed', async () => {
+      let failed = false;
+
+      server.onError(() => {
+        failed = true;
+      });
+      server.onJoin(() => {
+        if (!failed) {
+          throw new Error('Temporary failure');
+        }
+
+        contexts.push({} as EventContext);
+      });
+
+      await simulator.send(WebhookEvents.join({webhookEventId: 'e2'}));
+      await simulator.send(WebhookEvents.join({isRedelivery: true, webhookEventId: 'e2'}));
+
+      chai.expect(failed).to.equal(true);
+      chai.expect(contexts).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import * as chai from 'chai';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {BotServer} from '../../lib/bot-server';
+import {WebhookEvents} from '../../lib/webhook-events';
+import {WebhookSimulator} from '../../lib/webhook-simulator';
+
+describe('rich menus', () => {
+  let emulator: ApiEmulator,
+    server: BotServer,
+    dir: string;
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rich-menu-e2e-'));
+    await fs.writeFile(path.join(dir, 'menu.png'), 'image');
+    await fs.writeJson(path.join(dir, 'menus.json'), ['guest', 'admin'].map((name) => ({
+      areas: [],
+      chatBarText: name,
+      default: name === 'guest',
+      image: 'menu.png',
+      name,
+      selected: true,
+      size: {height: 843, width: 2500}
+    })));
+    server = new BotServer({
+      apiBaseURL: emulator.baseURL,
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      logging: {level: 'silent'},
+      richMenus: {file: path.join(dir, 'menus.json')},
+      transport: 'external'
+    });
+    server.setWebhook('/webhook');
+  });
+
+  afterEach(() => fs.remove(dir));
+
+  after(() => emulator.stop());
+
+  it('should switch menus from handlers', async () => {
+    const results = await server.syncRichMenus();
+
+    server.onKeyword('promote', (match, context) => context.linkRichMenu('admin'));
+    server.onKeyword('demote', (match, context) => context.unlinkRichMenu());
+
+    await new WebhookSimulator(server, {passthrough: true}).send(WebhookEvents.text('promote', {source: WebhookEvents.user('U1')}));
+
+    chai.expect(results.default.defaultRichMenuId).to.equal(server.getRichMenus().ids.guest);
+    chai.expect(emulator.userRichMenus.U1).to.equal(server.getRichMenus().ids.admin);
+
+    await new WebhookSimulator(server, {passthrough: true}).send(WebhookEvents.text('demote', {source: WebhookEvents.user('U1')}));
+
+    chai.expect(emulator.userRichMenus.U1).to.equal(undefined);
+  });
+
+  it('should reject linking menus without enabling them', () => {
+    const plain = new BotServer({channelAccessToken: 'test', channelSecret: 'test', logging: {level: 'silent'}, transport: 'external'});
+
+    chai.expect(() => plain.getRichMenus()).to.throw('Rich menus are not enabled\nPlease call enableRichMenus first.');
+  });
+});
@@ -13,6 +13,7 @@ describe('/status', () => {
       channelAccessToken: 'test',
       channelSecret: 'test',
       key: BotServer.defaultSSLKey,
+      logging: {level: 'silent'},
       port: 1234
     });
   });
@@ -0,0 +1,125 @@
+import * as chai from 'chai';
+import ChaiHttp = require('chai-http');
+import * as crypto from 'crypto';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {BotServer} from '../../lib/bot-server';
+
+chai.use(ChaiHttp);
+
+const channelSecret = 'test';
+
+function sign(body: string) {
+  return crypto.createHmac('SHA256', channelSecret).update(body).digest('base64');
+}
+
+describe('webhook', () => {
+  let server: BotServer,
+    source = {type: 'user', userId: 'U1'},
+    body = JSON.stringify({
+      destination: 'Ubot',
+      events: [
+        {type: 'message', replyToken: 'r1', source, timestamp: 1, message: {id: '1', type: 'text', text: 'hi'}},
+        {type: 'follow', replyToken: 'r2', source, timestamp: 2}
+      ]
+    });
+
+  beforeEach(() => {
+    server = new BotServer({
+      cert: BotServer.defaultSSLCert,
+      channelAccessToken: 'test',
+      channelSecret,
+      key: BotServer.defaultSSLKey,
+      logging: {level: 'silent'},
+      port: 1234
+    });
+    server.setWebhook('/webhook');
+  });
+
+  describe('when signature is invalid', () => {
+
+    it('should not dispatch events', (done) => {
+      let handler = sinon.stub();
+
+      server.onAny(handler);
+      chai.request(server.app)
+        .post('/webhook')
+        .set('Content-Type', 'application/json')
+        .set('X-Line-Signature', 'invalid')
+        .send(body)
+        .end((err, res: ChaiHttp.Response) => {
+          chai.expect(res.status).not.to.equal(200);
+          chai.expect(handler.called).to.be.false;
+          done();
+        });
+    });
+
+  });
+
+  describe('when signature is valid', () => {
+    let textHandler: SinonStub,
+      followHandler: SinonStub,
+      errorHandler: SinonStub;
+
+    beforeEach(() => {
+      textHandler = sinon.stub();
+      followHandler = sinon.stub().rejects(new Error('Test follow error'));
+      errorHandler = sinon.stub();
+      server.onMessage('text', textHandler).onFollow(followHandler).onError(errorHandler);
+    });
+
+    it('should dispatch every event and acknowledge with 200', (done) => {
+      chai.request(server.app)
+        .post('/webhook')
+        .set('Content-Type', 'application/json')
+        .set('X-Line-Signature', sign(body))
+        .send(body)
+        .end((err, res: ChaiHttp.Response) => {
+          chai.expect(res).to.have.status(200);
+          chai.expect(textHandler.calledOnce).to.be.true;
+          chai.expect(textHandler.getCall(0).args[1].destination).to.equal('Ubot');
+          chai.expect(textHandler.getCall(0).args[1].client).to.equal(server.client);
+          chai.expect(followHandler.calledOnce).to.be.true;
+          done();
+        });
+    });
+
+    it('should pass handler errors to error handlers', (done) => {
+      chai.request(server.app)
+        .post('/webhook')
+        .set('Content-Type', 'application/json')
+        .set('X-Line-Signature', sign(body))
+        .send(body)
+        .end(() => {
+          chai.expect(errorHandler.calledOnce).to.be.true;
+          chai.expect(errorHandler.getCall(0).args[0].message).to.equal('Test follow error');
+          chai.expect(errorHandler.getCall(0).args[1].type).to.equal('follow');
+          done();
+        });
+    });
+
+  });
+
+  describe('when events come from several sources', () => {
+
+    it('should handle the events of a source one at a time', async () => {
+      let calls: string[] = [];
+
+      server.onFollow(async (event) => {
+        calls.push('start:' + event.timestamp);
+        await new Promise((resolve) => setTimeout(resolve, event.source.userId === 'U1' ? 20 : 5));
+        calls.push('end:' + event.timestamp);
+      });
+
+      await server.handleEvents([
+        {type: 'follow', replyToken: 'r1', source: {type: 'user', userId: 'U1'}, timestamp: 1},
+        {type: 'follow', replyToken: 'r2', source: {type: 'user', userId: 'U1'}, timestamp: 2},
+        {type: 'follow', replyToken: 'r3', source: {type: 'user', userId: 'U2'}, timestamp: 3}
+      ]);
+
+      chai.expect(calls).to.deep.equal(['start:1', 'start:3', 'end:3', 'end:1', 'start:2', 'end:2']);
+    });
+
+  });
+
+});
@@ -0,0 +1,148 @@
+import { expect } from 'chai';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AcmeClient } from '../../lib/acme-client';
+import { AcmeEmulator } from '../../lib/acme-emulator';
+import { CertificateWatcher } from '../../lib/certificate-watcher';
+
+describe('AcmeClient', () => {
+  let emulator: AcmeEmulator,
+    challengeServer: http.Server,
+    client: AcmeClient,
+    accountKey = AcmeClient.generateKey();
+
+  before(async () => {
+    emulator = new AcmeEmulator();
+    await emulator.start();
+  });
+
+  beforeEach((done) => {
+    client = new AcmeClient({accountKey, directoryURL: emulator.directoryURL, pollInterval: 10});
+    challengeServer = http.createServer(client.challengeHandler());
+    challengeServer.listen(0, '127.0.0.1', () => {
+      emulator.options.challengeBaseURL = 'http://127.0.0.1:' + (challengeServer.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterEach((done) => {
+    challengeServer.close(() => done());
+  });
+
+  after(() => emulator.stop());
+
+  describe('constructor', () => {
+
+    describe('when directoryURL is not provided', () => {
+      it('should throw an error', () => {
+        expect(() => new AcmeClient({accountKey, directoryURL: ''}))
+          .to.throw('Missing options.directoryURL\nPlease set ACME_DIRECTORY_URL environment variable.');
+      });
+    });
+
+    describe('when accountKey is not provided', () => {
+      it('should throw an error', () => {
+        expect(() => new AcmeClient({accountKey: '', directoryURL: emulator.directoryURL}))
+          .to.throw('Missing options.accountKey\nPlease set ACME_ACCOUNT_KEY environment variable.');
+      });
+    });
+  });
+
+  describe('getThumbprint', () => {
+    it('should compute the RFC 7638 thumbprint of the account key', () => {
+      const jwk = client.jwk,
+        expected = crypto.createHash('sha256').update('{"e":"' + jwk.e + '","kty":"RSA","n":"' + jwk.n + '"}').digest();
+
+      expect(client.thumbprint).to.equal(AcmeClient.base64url(expected));
+    });
+  });
+
+  describe('challengeHandler', () => {
+    it('should serve pending key authorizations only', (done) => {
+      client.challenges.abc = client.getKeyAuthorization('abc');
+
+      http.get('http://127.0.0.1:' + (challengeServer.address() as AddressInfo).port + AcmeClient.challengePath + 'abc', (res) => {
+        let body = '';
+
+        res.on('data', (chunk) => body += chunk);
+        res.on('end', () => {
+          expect(res.statusCode).to.equal(200);
+          expect(body).to.equal('abc.' + client.thumbprint);
+
+          http.get('http://127.0.0.1:' + (challengeServer.address() as AddressInfo).port + AcmeClient.challengePath + 'xyz', (missing) => {
+            expect(missing.statusCode).to.equal(404);
+            missing.resume();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  describe('when the server returns malformed JSON', () => {
+    let server: http.Server,
+      status: number,
+      directoryURL: string;
+
+    beforeEach((done) => {
+      server = http.createServer((req, res) => {
+        res.writeHead(status, {'Content-Type': 'application/json'});
+        res.end('<html>Bad Gateway</html>');
+      });
+      server.listen(0, '127.0.0.1', () => {
+        directoryURL = 'http://127.0.0.1:' + (server.address() as AddressInfo).port + '/directory';
+        done();
+      });
+    });
+
+    afterEach((done) => {
+      server.close(() => done());
+    });
+
+    it('should reject with the raw text', async () => {
+      status = 200;
+
+      await new AcmeClient({accountKey, directoryURL}).getDirectory()
+        .then(() => expect.fail(), (err) => expect(err.message).to.match(/^Invalid ACME response .*\n<html>/));
+    });
+
+    it('should report the failed request with the raw text', async () => {
+      status = 502;
+
+      await new AcmeClient({accountKey, directoryURL}).getDirectory()
+        .then(() => expect.fail(), (err) => expect(err.message).to.match(/^ACME request failed .*\(502\)\n<html>/));
+    });
+  });
+
+  describe('register', () => {
+    it('should create an account once and reuse it', async () => {
+      const accountURL = await client.register();
+
+      expect(accountURL).to.match(/\/account\/\d+$/);
+      expect(await client.register()).to.equal(accountURL);
+      expect(await new AcmeClient({accountKey, directoryURL: emulator.directoryURL}).register()).to.equal(accountURL);
+    });
+  });
+
+  describe('obtainCertificate', () => {
+    it('should answer the http-01 challenge and return a certificate for the domains', async () => {
+      const certificate = await client.obtainCertificate(['bot.example.com'], AcmeClient.generateKey());
+      const expiresAt = await CertificateWatcher.readExpiry(certificate);
+
+      expect(certificate).to.contain('-----BEGIN CERTIFICATE-----');
+      expect(expiresAt.getTime()).to.be.closeTo(Date.now() + 90 * 24 * 60 * 60 * 1000, 24 * 60 * 60 * 1000);
+      expect(emulator.validations.slice(-1)[0]).to.include({domain: 'bot.example.com', valid: true});
+      expect(client.challenges).to.deep.equal({});
+    });
+
+    describe('when the challenge cannot be served', () => {
+      it('should reject with the failed authorization', async () => {
+        emulator.options.challengeBaseURL = 'http://127.0.0.1:1';
+
+        await client.obtainCertificate(['bot.example.com'], AcmeClient.generateKey())
+          .then(() => expect.fail(), (err) => expect(err.message).to.match(/^ACME request failed for .*\(invalid\)/));
+      });
+    });
+  });
+});
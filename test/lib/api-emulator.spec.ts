@@ -0,0 +1,173 @@
+import * as LINEBot from '@line/bot-sdk';
+import { expect } from 'chai';
+import { ApiEmulator } from '../../lib/api-emulator';
+import { LINEClient } from '../../lib/line-client';
+
+describe('ApiEmulator', () => {
+  let emulator: ApiEmulator,
+    client: LINEBot.Client,
+    message: LINEBot.TextMessage = {text: 'hello', type: 'text'};
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    client = LINEClient.create({apiBaseURL: await emulator.start(), channelAccessToken: 'test'});
+  });
+
+  beforeEach(() => {
+    emulator.reset();
+  });
+
+  after(() => emulator.stop());
+
+  describe('baseURL', () => {
+
+    describe('when not started', () => {
+      it('should throw an error', () => {
+        expect(() => new ApiEmulator().baseURL).to.throw('ApiEmulator is not started\nPlease call start() first.');
+      });
+    });
+
+    describe('when started', () => {
+      it('should point to the local server', () => {
+        expect(emulator.baseURL).to.match(/^http:\/\/127\.0\.0\.1:\d+\/v2\/bot\/$/);
+      });
+    });
+  });
+
+  describe('when channel access token does not match', () => {
+    it('should reject with 401', async () => {
+      let error: LINEBot.HTTPError | undefined;
+
+      try {
+        await LINEClient.create({apiBaseURL: emulator.baseURL, channelAccessToken: 'wrong'}).pushMessage('U1', message);
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).to.be.instanceOf(LINEBot.HTTPError);
+      expect((error as LINEBot.HTTPError).statusCode).to.equal(401);
+      expect(emulator.calls[0].status).to.equal(401);
+    });
+  });
+
+  describe('reply', () => {
+
+    it('should record the reply', async () => {
+      await client.replyMessage('r1', message);
+
+      expect(emulator.replies).to.deep.equal([{messages: [message], replyToken: 'r1'}]);
+      expect(emulator.calls[0].headers.authorization).to.equal('Bearer test');
+    });
+
+    describe('when reply token is reused', () => {
+      it('should reject with 400', async () => {
+        let error: LINEBot.HTTPError | undefined;
+
+        await client.replyMessage('r1', message);
+
+        try {
+          await client.replyMessage('r1', message);
+        } catch (err) {
+          error = err;
+        }
+
+        expect((error as LINEBot.HTTPError).statusCode).to.equal(400);
+      });
+    });
+  });
+
+  describe('push and multicast', () => {
+    it('should record the messages', async () => {
+      await client.pushMessage('U1', message);
+      await client.multicast(['U1', 'U2'], [message]);
+
+      expect(emulator.pushes).to.deep.equal([{messages: [message], to: 'U1'}]);
+      expect(emulator.multicasts).to.deep.equal([{messages: [message], to: ['U1', 'U2']}]);
+    });
+  });
+
+  describe('profile', () => {
+
+    describe('when profile is set', () => {
+      it('should return the profile', async () => {
+        let profile = {displayName: 'Alice', pictureUrl: 'https://example.com/a.png', statusMessage: 'hi', userId: 'U1'};
+
+        emulator.setProfile(profile);
+
+        expect(await client.getProfile('U1')).to.deep.equal(profile);
+      });
+    });
+
+    describe('when group member is not in the member list', () => {
+      it('should reject with 404', async () => {
+        let error: LINEBot.HTTPError | undefined;
+
+        emulator.setMembers('G1', ['U1']);
+
+        try {
+          await client.getGroupMemberProfile('G1', 'U2');
+        } catch (err) {
+          error = err;
+        }
+
+        expect((error as LINEBot.HTTPError).statusCode).to.equal(404);
+        expect(await client.getGroupMemberIds('G1')).to.deep.equal(['U1']);
+      });
+    });
+  });
+
+  describe('content', () => {
+    it('should return the stored content', async () => {
+      let stream: NodeJS.ReadableStream,
+        chunks: Buffer[] = [];
+
+      emulator.setContent('m1', new Buffer('binary'), 'image/jpeg');
+      stream = await client.getMessageContent('m1');
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      await new Promise((resolve) => stream.on('end', resolve));
+
+      expect(Buffer.concat(chunks).toString()).to.equal('binary');
+    });
+  });
+
+  describe('rich menu', () => {
+    it('should create, link and delete rich menus', async () => {
+      let richMenu: LINEBot.RichMenu = {
+          areas: [],
+          chatBarText: 'Menu',
+          name: 'main',
+          selected: false,
+          size: {height: 843, width: 2500}
+        },
+        richMenuId = await client.createRichMenu(richMenu);
+
+      await client.setRichMenuImage(richMenuId, new Buffer('png'), 'image/png');
+      await client.linkRichMenuToUser('U1', richMenuId);
+      await client.setDefaultRichMenu(richMenuId);
+
+      expect(await client.getRichMenuIdOfUser('U1')).to.equal(richMenuId);
+      expect(await client.getDefaultRichMenuId()).to.equal(richMenuId);
+      expect(await client.getRichMenuList()).to.deep.equal([{...richMenu, richMenuId}]);
+      expect(emulator.richMenuImages[richMenuId].data.toString()).to.equal('png');
+
+      await client.deleteRichMenu(richMenuId);
+
+      expect(await client.getRichMenuList()).to.deep.equal([]);
+    });
+  });
+
+  describe('fail', () => {
+    it('should fail matching requests the given number of times', async () => {
+      let statusCodes: number[] = [];
+
+      emulator.fail({path: 'message/push', status: 500, times: 2});
+
+      for (let i = 0; i < 3; i++) {
+        await client.pushMessage('U1', message).then(() => statusCodes.push(200), (err: LINEBot.HTTPError) => statusCodes.push(err.statusCode));
+      }
+
+      expect(statusCodes).to.deep.equal([500, 500, 200]);
+    });
+  });
+
+});
@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import * as fs from 'fs-extra';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as pem from 'pem';
+import * as sinon from 'sinon';
+import * as tls from 'tls';
+import { CertificateWatcher } from '../../lib/certificate-watcher';
+import { RsaKey } from '../../lib/rsa-key';
+
+function createCertificate(days: number) {
+  const key = RsaKey.generate();
+
+  return new Promise<{ cert: string, key: string }>((resolve, reject) => {
+    pem.createCSR({clientKey: key, commonName: 'localhost'}, (csrErr, result) => {
+      if (csrErr) {
+        return reject(csrErr);
+      }
+
+      pem.createCertificate({csr: result.csr, days, selfSigned: true, serviceKey: key}, (err, keys) => {
+        return err ? reject(err) : resolve({cert: keys.certificate, key});
+      });
+    });
+  });
+}
+
+function readServedExpiry(server: https.Server) {
+  return new Promise<Date>((resolve, reject) => {
+    const socket = tls.connect({
+      port: (server.address() as AddressInfo).port,
+      rejectUnauthorized: false,
+      servername: 'localhost'
+    }, () => {
+      resolve(new Date(socket.getPeerCertificate().valid_to));
+      socket.end();
+    });
+
+    socket.once('error', reject);
+  });
+}
+
+describe('CertificateWatcher', () => {
+  let dir: string,
+    keyFile: string,
+    certFile: string,
+    server: https.Server,
+    watcher: CertificateWatcher,
+    sandbox = sinon.createSandbox();
+
+  beforeEach(async () => {
+    const initial = await createCertificate(30);
+
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'certificate-watcher-'));
+    keyFile = path.join(dir, 'server.key');
+    certFile = path.join(dir, 'server.crt');
+    await fs.writeFile(keyFile, initial.key);
+    await fs.writeFile(certFile, initial.cert);
+    watcher = new CertificateWatcher({cert: certFile, interval: 50, key: keyFile, warnBefore: 0});
+    server = https.createServer({
+      SNICallback: (servername, callback) => callback(null, watcher.context || tls.createSecureContext(initial)),
+      cert: initial.cert,
+      key: initial.key
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    watcher.stop();
+    await new Promise((resolve) => server.close(resolve));
+    sandbox.restore();
+    await fs.remove(dir);
+  });
+
+  describe('readExpiry', () => {
+    it('should read the expiry date of a certificate', async () => {
+      const expiresAt = await CertificateWatcher.readExpiry(await fs.readFile(certFile));
+
+      expect(expiresAt.getTime()).to.be.closeTo(Date.now() + 30 * 24 * 60 * 60 * 1000, 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('reload', () => {
+    it('should serve the new certificate', async () => {
+      const next = await createCertificate(60);
+
+      await fs.writeFile(keyFile, next.key);
+      await fs.writeFile(certFile, next.cert);
+
+      const expiresAt = await watcher.reload();
+
+      expect(await readServedExpiry(server)).to.deep.equal(expiresAt);
+      expect(expiresAt).to.deep.equal(await CertificateWatcher.readExpiry(next.cert));
+    });
+
+    it('should reject and keep the current context when the files do not match', async () => {
+      const served = await readServedExpiry(server);
+
+      await fs.writeFile(keyFile, RsaKey.generate());
+
+      await watcher.reload().then(() => expect.fail(), (err) => expect(err).to.be.instanceOf(Error));
+      expect(watcher.context).to.be.undefined;
+      expect(await readServedExpiry(server)).to.deep.equal(served);
+    });
+  });
+
+  describe('checkExpiry', () => {
+    it('should emit expiring when the certificate expires within warnBefore', async () => {
+      const expiring = sinon.spy();
+
+      watcher.options.warnBefore = 60 * 24 * 60 * 60 * 1000;
+      watcher.on('expiring', expiring);
+      await watcher.checkExpiry();
+
+      expect(expiring.calledOnce).to.be.true;
+      expect(expiring.getCall(0).args[0]).to.equal(watcher.expiresAt);
+    });
+
+    it('should emit expired when the certificate has expired', async () => {
+      const expired = sinon.spy();
+
+      sandbox.stub(Date, 'now').returns(new Date().getTime() + 31 * 24 * 60 * 60 * 1000);
+      watcher.on('expired', expired);
+      await watcher.checkExpiry();
+
+      expect(expired.calledOnce).to.be.true;
+    });
+  });
+
+  describe('when certificate files change', () => {
+    it('should reload them automatically', async () => {
+      const next = await createCertificate(60);
+      const reloaded = new Promise((resolve) => watcher.once('reload', resolve));
+
+      watcher.start();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await fs.writeFile(keyFile, next.key);
+      await fs.writeFile(certFile, next.cert);
+      await reloaded;
+
+      expect(watcher.expiresAt && watcher.expiresAt.getTime())
+        .to.be.closeTo(Date.now() + 60 * 24 * 60 * 60 * 1000, 24 * 60 * 60 * 1000);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { ChannelRegistry } from '../../lib/channel-registry';
+
+describe('ChannelRegistry', () => {
+  let registry: ChannelRegistry,
+    shop = {channelAccessToken: 'token1', channelSecret: 'secret1', destination: 'Ushop', id: 'shop', webhookPath: '/shop'},
+    support = {channelAccessToken: 'token2', channelSecret: 'secret2', destination: 'Usupport', id: 'support'};
+
+  beforeEach(() => {
+    registry = new ChannelRegistry([shop]);
+  });
+
+  describe('add', () => {
+
+    it('should register the channel and emit add', () => {
+      let listener = sinon.spy();
+
+      registry.on('add', listener);
+      registry.add(support);
+
+      expect(registry.size).to.equal(2);
+      expect(registry.has('support')).to.be.true;
+      expect(listener.getCall(0).args[0]).to.equal(registry.get('support'));
+    });
+
+    describe('when id is already registered', () => {
+      it('should throw an error', () => {
+        expect(() => registry.add(shop)).to.throw('Channel shop is already registered');
+      });
+    });
+
+    describe('when webhook path is already used', () => {
+      it('should throw an error', () => {
+        expect(() => registry.add({...support, webhookPath: '/shop'}))
+          .to.throw('Webhook path /shop is already used by channel shop');
+      });
+    });
+  });
+
+  describe('remove', () => {
+
+    it('should unregister the channel and emit remove', () => {
+      let listener = sinon.spy();
+
+      registry.on('remove', listener);
+
+      expect(registry.remove('shop')).to.be.true;
+      expect(registry.has('shop')).to.be.false;
+      expect(listener.calledOnce).to.be.true;
+    });
+
+    describe('when channel is not registered', () => {
+      it('should return false', () => {
+        expect(registry.remove('unknown')).to.be.false;
+      });
+    });
+  });
+
+  describe('find', () => {
+    it('should find channels by webhook path and destination', () => {
+      registry.add(support);
+
+      expect(registry.findByPath('/shop')).to.equal(registry.get('shop'));
+      expect(registry.findByDestination('Usupport')).to.equal(registry.get('support'));
+      expect(registry.findByPath('/unknown')).to.be.undefined;
+    });
+  });
+
+  describe('fromEnv', () => {
+    it('should read every channel listed in CHANNELS', () => {
+      expect(ChannelRegistry.fromEnv({
+        CHANNELS: 'shop, front-desk',
+        CHANNEL_FRONT_DESK_ACCESS_TOKEN: 'token2',
+        CHANNEL_FRONT_DESK_SECRET: 'secret2',
+        CHANNEL_SHOP_ACCESS_TOKEN: 'token1',
+        CHANNEL_SHOP_DESTINATION: 'Ushop',
+        CHANNEL_SHOP_SECRET: 'secret1',
+        CHANNEL_SHOP_WEBHOOK_PATH: '/shop'
+      })).to.deep.equal([
+        {apiBaseURL: undefined, channelAccessToken: 'token1', channelSecret: 'secret1', destination: 'Ushop', id: 'shop', token: undefined, webhookPath: '/shop'},
+        {apiBaseURL: undefined, channelAccessToken: 'token2', channelSecret: 'secret2', destination: undefined, id: 'front-desk', token: undefined, webhookPath: undefined}
+      ]);
+    });
+
+    describe('when CHANNELS is not set', () => {
+      it('should return no channels', () => {
+        expect(ChannelRegistry.fromEnv({})).to.deep.equal([]);
+      });
+    });
+  });
+
+  describe('fromFile', () => {
+    let fileName = path.resolve(__dirname, '../../.test-channels.json');
+
+    afterEach(() => fs.removeSync(fileName));
+
+    it('should read an array of channels', () => {
+      fs.writeJsonSync(fileName, [shop]);
+      expect(ChannelRegistry.fromFile(fileName)).to.deep.equal([shop]);
+    });
+
+    it('should read an object with a channels array', () => {
+      fs.writeJsonSync(fileName, {channels: [shop, support]});
+      expect(ChannelRegistry.fromFile(fileName)).to.deep.equal([shop, support]);
+    });
+
+    describe('when file has no channels array', () => {
+      it('should throw an error', () => {
+        fs.writeJsonSync(fileName, {});
+        expect(() => ChannelRegistry.fromFile(fileName)).to.throw('Invalid channels file');
+      });
+    });
+  });
+
+});
@@ -0,0 +1,188 @@
+import { expect } from 'chai';
+import * as crypto from 'crypto';
+import { ApiEmulator } from '../../lib/api-emulator';
+import { Channel } from '../../lib/channel';
+import { ChannelToken, ChannelTokenManager } from '../../lib/channel-token-manager';
+import { MemoryStore } from '../../lib/memory-store';
+import { RsaKey } from '../../lib/rsa-key';
+
+describe('ChannelTokenManager', () => {
+  let emulator: ApiEmulator,
+    privateKey = RsaKey.generate(),
+    keys = {privateKey, publicKey: RsaKey.fromJwk(RsaKey.toJwk(privateKey))};
+
+  before(async () => {
+    emulator = new ApiEmulator();
+    await emulator.start();
+  });
+
+  beforeEach(() => {
+    emulator.reset();
+  });
+
+  after(() => emulator.stop());
+
+  describe('constructor', () => {
+
+    describe('when channelId is not provided', () => {
+      it('should throw an error', () => {
+        expect(() => new ChannelTokenManager({channelId: '', channelSecret: 'secret'}))
+          .to.throw('Missing channelId\nPlease set CHANNEL_ID environment variable.');
+      });
+    });
+
+    describe('when neither channelSecret nor assertionKey is provided', () => {
+      it('should throw an error', () => {
+        expect(() => new ChannelTokenManager({channelId: '123'})).to.throw('Missing channelSecret or assertionKey');
+      });
+    });
+  });
+
+  describe('createAssertion', () => {
+    it('should create a JWT signed with the assertion key', () => {
+      let [header, payload, signature] = ChannelTokenManager.createAssertion('123', keys.privateKey, 'kid1', 3600).split('.');
+
+      expect(JSON.parse(new Buffer(header, 'base64').toString())).to.deep.equal({alg: 'RS256', kid: 'kid1', typ: 'JWT'});
+      expect(JSON.parse(new Buffer(payload, 'base64').toString())).to.include({aud: 'https://api.line.me/', iss: '123', sub: '123', token_exp: 3600});
+      expect(crypto.createVerify('RSA-SHA256').update(header + '.' + payload).verify(keys.publicKey, new Buffer(signature, 'base64'))).to.be.true;
+    });
+  });
+
+  describe('when using short-lived tokens', () => {
+    let manager: ChannelTokenManager;
+
+    beforeEach(() => {
+      manager = new ChannelTokenManager({channelId: '123', channelSecret: 'secret', oauthBaseURL: emulator.oauthBaseURL});
+    });
+
+    afterEach(() => manager.stop());
+
+    it('should issue a token once and cache it', async () => {
+      let tokens = await Promise.all([manager.getToken(), manager.getToken()]);
+
+      expect(tokens[0]).to.equal(tokens[1]);
+      expect(await manager.getToken()).to.equal(tokens[0]);
+      expect(emulator.callsTo('/v2/oauth/accessToken').length).to.equal(1);
+      expect(emulator.calls[0].body).to.deep.equal({client_id: '123', client_secret: 'secret', grant_type: 'client_credentials'});
+      expect(manager.version).to.equal('v2');
+    });
+
+    it('should revoke the token', async () => {
+      let token = await manager.getToken();
+
+      await manager.revoke();
+
+      expect(emulator.issuedTokens[token].revoked).to.be.true;
+      expect(manager.token).to.be.undefined;
+      expect(await manager.getToken()).not.to.equal(token);
+    });
+
+    describe('when issuing fails', () => {
+      it('should reject with the reason', async () => {
+        let error: Error | undefined;
+
+        emulator.fail({path: '/v2/oauth/accessToken', status: 400, body: {error: 'invalid_client', error_description: 'invalid secret'}});
+
+        try {
+          await manager.getToken();
+        } catch (err) {
+          error = err;
+        }
+
+        expect((error as Error).message).to.equal('Failed to request v2/oauth/accessToken (400)\ninvalid secret');
+      });
+    });
+  });
+
+  describe('when a fresh token is in the store', () => {
+    it('should use the stored token', async () => {
+      let store = new MemoryStore<ChannelToken>(),
+        manager = new ChannelTokenManager({channelId: '123', channelSecret: 'secret', oauthBaseURL: emulator.oauthBaseURL, store});
+
+      await store.set(manager.storeKey, {accessToken: 'stored', expiresAt: Date.now() + 3600000});
+
+      expect(await manager.getToken()).to.equal('stored');
+      expect(emulator.calls).to.deep.equal([]);
+      manager.stop();
+    });
+  });
+
+  describe('when the token is about to expire', () => {
+    it('should refresh it before expiry', async () => {
+      let manager = new ChannelTokenManager({
+          channelId: '123',
+          channelSecret: 'secret',
+          oauthBaseURL: emulator.oauthBaseURL,
+          refreshBefore: 30 * 24 * 60 * 60 * 1000 - 20
+        }),
+        first = await manager.getToken(),
+        refreshed = await new Promise<ChannelToken>((resolve) => manager.once('token', resolve));
+
+      expect(refreshed.accessToken).not.to.equal(first);
+      manager.stop();
+    });
+  });
+
+  describe('when using v2.1 tokens', () => {
+    it('should issue tokens with a signed assertion', async () => {
+      let manager = new ChannelTokenManager({
+          assertionKey: keys.privateKey,
+          assertionKeyId: 'kid1',
+          channelId: '123',
+          channelSecret: 'secret',
+          expiresIn: 3600,
+          oauthBaseURL: emulator.oauthBaseURL
+        }),
+        token = await manager.getToken();
+
+      expect(manager.version).to.equal('v2.1');
+      expect(emulator.issuedTokens[token]).to.include({channelId: '123', keyId: 'kid1'});
+      expect((manager.token as ChannelToken).expiresAt).to.be.closeTo(Date.now() + 3600000, 1000);
+
+      await manager.revoke();
+
+      expect(emulator.callsTo('/oauth2/v2.1/revoke')[0].body).to.deep.equal({access_token: token, client_id: '123', client_secret: 'secret'});
+    });
+
+    describe('when channelSecret is not provided', () => {
+      it('should refuse to revoke the token', async () => {
+        let manager = new ChannelTokenManager({assertionKey: keys.privateKey, channelId: '123', oauthBaseURL: emulator.oauthBaseURL}),
+          error: Error | undefined;
+
+        await manager.getToken();
+
+        try {
+          await manager.revoke();
+        } catch (err) {
+          error = err;
+        }
+
+        expect((error as Error).message).to.equal('Missing channelSecret\nPlease set CHANNEL_SECRET environment variable ' +
+          'to revoke v2.1 channel access tokens.');
+        expect(emulator.callsTo('/oauth2/v2.1/revoke')).to.be.empty;
+      });
+    });
+  });
+
+  describe('when used by a channel', () => {
+    it('should authorize API requests with the issued token', async () => {
+      let channel = new Channel({
+        apiBaseURL: emulator.baseURL,
+        channelSecret: 'secret',
+        id: 'shop',
+        token: {channelId: '123', oauthBaseURL: emulator.oauthBaseURL}
+      });
+
+      await channel.client.pushMessage('U1', {text: 'hello', type: 'text'});
+
+      let token = (channel.tokens as ChannelTokenManager).token as ChannelToken;
+
+      expect(emulator.callsTo('message/push')[0].headers.authorization).to.equal('Bearer ' + token.accessToken);
+
+      await channel.stop();
+
+      expect(emulator.issuedTokens[token.accessToken].revoked).to.be.true;
+    });
+  });
+
+});
@@ -0,0 +1,50 @@
+import * as LINEBot from '@line/bot-sdk';
+import { expect } from 'chai';
+import { Channel } from '../../lib/channel';
+import { OutboundSender } from '../../lib/outbound-sender';
+
+describe('Channel', () => {
+
+  describe('when all options are provided', () => {
+    let channel: Channel;
+
+    before(() => {
+      channel = new Channel({channelAccessToken: 'token', channelSecret: 'secret', destination: 'U1', id: 'shop', webhookPath: '/shop'});
+    });
+
+    it('should expose id, webhookPath and destination', () => {
+      expect(channel.id).to.equal('shop');
+      expect(channel.webhookPath).to.equal('/shop');
+      expect(channel.destination).to.equal('U1');
+    });
+
+    it('should create its own client, sender and middleware', () => {
+      expect(channel.clientConfig).to.deep.equal({channelAccessToken: 'token', channelSecret: 'secret'});
+      expect(channel.client).to.be.instanceOf(LINEBot.Client);
+      expect(channel.sender).to.be.instanceOf(OutboundSender);
+      expect(channel.middleware).to.be.a('function');
+    });
+  });
+
+  describe('when id is not provided', () => {
+    it('should throw an error', () => {
+      expect(() => new Channel({channelAccessToken: 'token', channelSecret: 'secret', id: ''}))
+        .to.throw('Missing channel id\nPlease set id for every channel.');
+    });
+  });
+
+  describe('when channelSecret is not provided', () => {
+    it('should throw an error', () => {
+      expect(() => new Channel({channelAccessToken: 'token', channelSecret: '', id: 'shop'}))
+        .to.throw('Missing channelSecret for channel shop\nPlease set channelSecret.');
+    });
+  });
+
+  describe('when channelAccessToken is not provided', () => {
+    it('should throw an error', () => {
+      expect(() => new Channel({channelAccessToken: '', channelSecret: 'secret', id: 'shop'}))
+        .to.throw('Missing channelAccessToken for channel shop\nPlease set channelAccessToken or token.');
+    });
+  });
+
+});
@@ -0,0 +1,162 @@
+import { expect } from 'chai';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as pem from 'pem';
+import { ApiEmulator } from '../../lib/api-emulator';
+import { Cli } from '../../lib/cli';
+
+declare module 'pem' {
+  interface CertificateSubjectReadResult {
+    san?: { dns: string[] };
+  }
+}
+
+describe('Cli', () => {
+  let dir: string,
+    cli: Cli,
+    logs: string[],
+    errors: string[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+    logs = [];
+    errors = [];
+    cli = new Cli({error: (message) => errors.push(message), log: (message) => logs.push(message)});
+  });
+
+  afterEach(async () => {
+    if (cli.server) {
+      await cli.server.stop();
+    }
+
+    await fs.remove(dir);
+  });
+
+  describe('parseArgs', () => {
+    it('should split arguments, value flags and boolean flags', () => {
+      expect(Cli.parseArgs(['ssl', 'certs', '--days', '30', '--cn=example.com', '--force', '-h'])).to.deep.equal({
+        args: ['ssl', 'certs'],
+        flags: {cn: 'example.com', days: '30', force: true, help: true}
+      });
+    });
+  });
+
+  describe('when the command is unknown', () => {
+    it('should print the usage and fail', async () => {
+      expect(await cli.run(['deploy'])).to.equal(1);
+      expect(errors[0]).to.contain('Unknown command deploy\nUsage: line-bot-server');
+    });
+  });
+
+  describe('init', () => {
+    it('should scaffold the project', async () => {
+      expect(await cli.run(['init', dir, '--secret', 'abc'])).to.equal(0);
+
+      expect(fs.existsSync(path.join(dir, 'ssl', 'localhost.key'))).to.equal(true);
+      expect(fs.existsSync(path.join(dir, 'ssl', 'localhost.crt'))).to.equal(true);
+      expect(fs.readFileSync(path.join(dir, '.env'), 'utf8')).to.contain('\nCHANNEL_SECRET=abc\n');
+      expect(typeof require(path.join(dir, 'bot.js'))).to.equal('function');
+    });
+
+    it('should not overwrite existing files without --force', async () => {
+      await fs.writeFile(path.join(dir, 'bot.js'), '// mine');
+
+      await cli.run(['init', dir]);
+
+      expect(fs.readFileSync(path.join(dir, 'bot.js'), 'utf8')).to.equal('// mine');
+      expect(logs).to.include('Skipped ' + path.join(dir, 'bot.js') + ' (already exists, use --force to overwrite)');
+    });
+  });
+
+  describe('ssl', () => {
+    it('should generate a certificate with the common name and alt names', async () => {
+      expect(await cli.run(['ssl', dir, '--days', '30', '--cn', 'bot.example.com', '--san', 'bot.example.com,localhost']))
+        .to.equal(0);
+
+      const info = await new Promise<pem.CertificateSubjectReadResult>((resolve, reject) => {
+        pem.readCertificateInfo(fs.readFileSync(path.join(dir, 'localhost.crt'), 'utf8'), (err, result) => {
+          return err ? reject(err) : resolve(result);
+        });
+      });
+
+      expect(info.commonName).to.equal('bot.example.com');
+      expect(info.san && info.san.dns).to.deep.equal(['bot.example.com', 'localhost']);
+    });
+
+    it('should reject invalid days', async () => {
+      expect(await cli.run(['ssl', dir, '--days', 'soon'])).to.equal(1);
+      expect(errors[0]).to.equal('Invalid --days soon\nPlease set a positive number of days.');
+    });
+  });
+
+  describe('config check', () => {
+
+    beforeEach(() => fs.writeFile(path.join(dir, '.env'), ''));
+    it('should print a summary of a valid configuration', async () => {
+      await fs.writeFile(path.join(dir, 'config.json'), JSON.stringify({
+        channelAccessToken: 'token', channelSecret: 'secret', port: 8080, transport: 'http'
+      }));
+
+      expect(await cli.run(['config', 'check', '--env-file', path.join(dir, '.env'), '--config', path.join(dir, 'config.json')]))
+        .to.equal(0);
+      expect(logs[0]).to.equal('Configuration is valid\n  transport: http\n  port: 8080\n  channels: default');
+    });
+
+    it('should print the errors of an invalid configuration', async () => {
+      await fs.writeFile(path.join(dir, 'config.json'), JSON.stringify({port: 'abc', transport: 'http'}));
+
+      expect(await cli.run(['config', 'check', '--env-file', path.join(dir, '.env'), '--config', path.join(dir, 'config.json')]))
+        .to.equal(1);
+      expect(errors[0]).to.contain('Invalid configuration\n- PORT (port) must be a port number between 0 and 65535');
+    });
+  });
+
+  describe('serve and send', () => {
+    let emulator: ApiEmulator;
+
+    before(async () => {
+      emulator = new ApiEmulator({channelAccessToken: 'token'});
+      await emulator.start();
+    });
+
+    beforeEach(() => emulator.reset());
+
+    after(() => emulator.stop());
+
+    it('should start the handler module and answer signed events', async () => {
+      await fs.writeFile(path.join(dir, '.env'), 'CHANNEL_ACCESS_TOKEN=token\nCHANNEL_SECRET=secret\n' +
+        'TRANSPORT=http\nPORT=0\nLOG_LEVEL=silent\nAPI_BASE_URL=' + emulator.baseURL + '\n');
+      await fs.writeFile(path.join(dir, 'bot.js'), Cli.sampleHandler);
+
+      expect(await cli.run(['serve', path.join(dir, 'bot.js'), '--env-file', path.join(dir, '.env')])).to.equal(0);
+      expect(await cli.run(['send', 'http://localhost:' + cli.server!.port + '/webhook', '--secret', 'secret', '--text', 'hello']))
+        .to.equal(0);
+
+      expect(logs[1]).to.match(/^200/);
+      expect(emulator.replies[0].messages).to.deep.equal([{text: 'Hello!', type: 'text'}]);
+    });
+
+    it('should echo other text through the fallback handler of the sample module', async () => {
+      await fs.writeFile(path.join(dir, '.env'), 'CHANNEL_ACCESS_TOKEN=token\nCHANNEL_SECRET=secret\n' +
+        'TRANSPORT=http\nPORT=0\nLOG_LEVEL=silent\nAPI_BASE_URL=' + emulator.baseURL + '\n');
+      await fs.writeFile(path.join(dir, 'bot.js'), Cli.sampleHandler);
+
+      expect(await cli.run(['serve', path.join(dir, 'bot.js'), '--env-file', path.join(dir, '.env')])).to.equal(0);
+      expect(await cli.run(['send', 'http://localhost:' + cli.server!.port + '/webhook', '--secret', 'secret', '--text', 'good night']))
+        .to.equal(0);
+
+      expect(logs[1]).to.match(/^200/);
+      expect(emulator.replies[0].messages).to.deep.equal([{text: 'good night', type: 'text'}]);
+    });
+
+    it('should reject a module without a setup function', async () => {
+      await fs.writeFile(path.join(dir, '.env'), 'CHANNEL_ACCESS_TOKEN=token\nCHANNEL_SECRET=secret\nTRANSPORT=http\nPORT=0\n');
+      await fs.writeFile(path.join(dir, 'bot.js'), 'module.exports = {};');
+
+      expect(await cli.run(['serve', path.join(dir, 'bot.js'), '--env-file', path.join(dir, '.env')])).to.equal(1);
+      expect(errors[0]).to.equal('Invalid handler module ' + path.join(dir, 'bot.js') +
+        '\nPlease export a function that receives the BotServer.');
+    });
+  });
+});
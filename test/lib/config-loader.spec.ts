@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import * as Dotenv from 'dotenv';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BotServer } from '../../lib/bot-server';
+import { ConfigError, ConfigLoader } from '../../lib/config-loader';
+
+describe('ConfigLoader', () => {
+  let dir: string,
+    baseEnv = {CHANNEL_ACCESS_TOKEN: 'token', CHANNEL_SECRET: 'secret', TRANSPORT: 'http'};
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-loader-'));
+  });
+
+  afterEach(() => fs.remove(dir));
+
+  describe('load', () => {
+
+    describe('when environment variables are valid', () => {
+      it('should convert them to typed options', () => {
+        let options = ConfigLoader.load({
+          env: {...baseEnv, HANDLE_SIGNALS: 'yes', PORT: '8080', STOP_TIMEOUT: '500', TRUST_PROXY: '2'},
+          envFile: false
+        });
+
+        expect(options).to.deep.equal({
+          channelAccessToken: 'token',
+          channelSecret: 'secret',
+          handleSignals: true,
+          port: 8080,
+          stopTimeout: 500,
+          transport: 'http',
+          trustProxy: 2
+        });
+      });
+    });
+
+    describe('when sources overlap', () => {
+      it('should prefer explicit options, then env, then the env file, then the config file', () => {
+        let envFile = path.join(dir, '.env'),
+          configFile = path.join(dir, 'config.yml'),
+          options: any;
+
+        fs.writeFileSync(envFile, 'PORT=2000\nHOST=envfile\nSTOP_TIMEOUT=100\n');
+        fs.writeFileSync(configFile, 'port: 1000\nhost: config\nstopTimeout: 50\nreplyTokenTtl: 30000\n');
+
+        options = ConfigLoader.load({
+          configFile,
+          env: {...baseEnv, HOST: 'env', PORT: '3000'},
+          envFile,
+          options: {port: 4000}
+        });
+
+        expect(options.port).to.equal(4000);
+        expect(options.host).to.equal('env');
+        expect(options.stopTimeout).to.equal(100);
+        expect(options.replyTokenTtl).to.equal(30000);
+      });
+    });
+
+    describe('when CONFIG_FILE is a JSON file', () => {
+      it('should load options and channels from it', () => {
+        let configFile = path.join(dir, 'config.json');
+
+        fs.writeJsonSync(configFile, {channels: [{channelAccessToken: 'a', channelSecret: 'b', id: 'shop'}], transport: 'external'});
+
+        expect(ConfigLoader.load({env: {CONFIG_FILE: configFile}, envFile: false})).to.deep.equal({
+          channels: [{channelAccessToken: 'a', channelSecret: 'b', id: 'shop'}],
+          transport: 'external'
+        });
+      });
+    });
+
+    describe('when a *_FILE variable is set', () => {
+      it('should read the secret from the file', () => {
+        let secretFile = path.join(dir, 'secret');
+
+        fs.writeFileSync(secretFile, 'fromFile\n');
+
+        expect(ConfigLoader.load({env: {...baseEnv, CHANNEL_SECRET: '', CHANNEL_SECRET_FILE: secretFile}, envFile: false})
+          .channelSecret).to.equal('fromFile');
+      });
+
+      it('should report a missing file', () => {
+        expect(() => ConfigLoader.load({env: {...baseEnv, CHANNEL_SECRET: '', CHANNEL_SECRET_FILE: '/missing/secret'}, envFile: false}))
+          .to.throw('- CHANNEL_SECRET_FILE file not found: /missing/secret');
+      });
+    });
+
+    describe('when values are invalid', () => {
+      it('should collect every error', () => {
+        let error: ConfigError | undefined;
+
+        try {
+          ConfigLoader.load({
+            env: {ACME_DIRECTORY_URL: 'ftp://acme', API_BASE_URL: 'nowhere', PORT: 'abc', SSL_WATCH: 'maybe', TRANSPORT: 'smtp'},
+            envFile: false
+          });
+        } catch (err) {
+          error = err;
+        }
+
+        expect(error && error.errors).to.deep.equal([
+          'PORT (port) must be a number',
+          'SSL_WATCH (watchCertificates) must be true or false',
+          'TRANSPORT (transport) must be one of https, http, external',
+          'API_BASE_URL (apiBaseURL) must be an http or https URL',
+          'ACME_DIRECTORY_URL (acme.directoryURL) must be an http or https URL',
+          'Missing CHANNEL_SECRET (channelSecret)',
+          'Missing CHANNEL_ACCESS_TOKEN (channelAccessToken)',
+          'Missing ACME_ACCOUNT_KEY (acme.accountKey)',
+          'Missing ACME_DOMAINS (acme.domains)'
+        ]);
+      });
+
+      it('should validate typed values from config files', () => {
+        let configFile = path.join(dir, 'config.json');
+
+        fs.writeJsonSync(configFile, {channels: [{id: 'shop'}], port: 70000, transport: 'http'});
+
+        expect(() => ConfigLoader.load({configFile, env: {}, envFile: false})).to.throw('Invalid configuration\n' +
+          '- PORT (port) must be a port number between 0 and 65535\n' +
+          '- Missing CHANNEL_SHOP_SECRET (channels[0].channelSecret)\n' +
+          '- Missing CHANNEL_SHOP_ACCESS_TOKEN (channels[0].channelAccessToken)');
+      });
+
+      it('should report unreadable config files', () => {
+        let configFile = path.join(dir, 'config.yaml');
+
+        fs.writeFileSync(configFile, '- just\n- a list\n');
+
+        expect(() => ConfigLoader.load({configFile, env: baseEnv, envFile: false}))
+          .to.throw('- Invalid config file ' + configFile + ': expected an object of options');
+      });
+    });
+  });
+
+  describe('generateTemplate', () => {
+    it('should describe every variable of the schema', () => {
+      let template = ConfigLoader.generateTemplate({acme: {accountKey: 'k', directoryURL: 'https://acme', domains: ['a.com', 'b.com']}, port: 8080});
+
+      ConfigLoader.schema.forEach((field) => expect(template).to.contain('\n' + field.env + '='));
+      expect(template).to.contain('# Port to listen on. (port, default 443 for https, 80 for http)\nPORT=8080\n');
+      expect(template).to.contain('# Channel secret used to verify webhook signatures. (string, secret)\nCHANNEL_SECRET=\n');
+      expect(Dotenv.parse(template).ACME_DOMAINS).to.equal('a.com,b.com');
+    });
+
+    it('should be written by generateEnvFile', () => {
+      let envFile = path.join(dir, '.env');
+
+      BotServer.generateEnvFile(envFile);
+
+      expect(fs.readFileSync(envFile, 'utf8')).to.equal(ConfigLoader.generateTemplate());
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {ContentEvent, ContentManager} from '../../lib/content-manager';
+import {LINEClient} from '../../lib/line-client';
+import {WebhookEvents} from '../../lib/webhook-events';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('ContentManager', () => {
+  let emulator: ApiEmulator,
+    client: LINEBot.Client,
+    dir: string,
+    manager: ContentManager,
+    png = new Buffer('89504e470d0a1a0a0000000d49484452', 'hex');
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+    client = LINEClient.create({apiBaseURL: emulator.baseURL, channelAccessToken: 'test', channelSecret: 'test'});
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-'));
+    manager = new ContentManager({dir, maxSize: 64});
+  });
+
+  afterEach(() => fs.remove(dir));
+
+  after(() => emulator.stop());
+
+  describe('detectType', () => {
+    it('should detect types from magic numbers', () => {
+      expect(ContentManager.detectType(png)).to.equal('image/png');
+      expect(ContentManager.detectType(new Buffer('ffd8ffe0', 'hex'))).to.equal('image/jpeg');
+      expect(ContentManager.detectType(new Buffer('\0\0\0\x20ftypM4A ', 'binary'))).to.equal('audio/x-m4a');
+      expect(ContentManager.detectType(new Buffer('\0\0\0\x20ftypisom', 'binary'))).to.equal('video/mp4');
+      expect(ContentManager.detectType(new Buffer('%PDF-1.4'))).to.equal('application/pdf');
+      expect(ContentManager.detectType(new Buffer('plain'), 'image/jpeg')).to.equal('image/jpeg');
+    });
+  });
+
+  describe('store', () => {
+    it('should stream content to the storage and describe it', async () => {
+      const event = WebhookEvents.image() as ContentEvent;
+
+      emulator.setContent(event.message.id, png);
+
+      const content = await manager.store(client, event);
+
+      expect(content).to.deep.include({
+        contentType: 'image/png',
+        duplicate: false,
+        hash: crypto.createHash('sha256').update(png).digest('hex'),
+        messageId: event.message.id,
+        size: png.length,
+        type: 'image'
+      });
+      expect(content.key).to.equal(content.hash + '.png');
+      expect(fs.readFileSync(path.join(dir, content.key))).to.deep.equal(png);
+    });
+
+    it('should deduplicate identical content', async () => {
+      const first = WebhookEvents.image() as ContentEvent;
+      const second = WebhookEvents.image() as ContentEvent;
+
+      emulator.setContent(first.message.id, png).setContent(second.message.id, png);
+
+      await manager.store(client, first);
+
+      const content = await manager.store(client, second);
+
+      expect(content.duplicate).to.equal(true);
+      expect(content.location).to.equal(path.join(dir, content.key));
+      expect(fs.readdirSync(dir)).to.deep.equal([content.key]);
+    });
+
+    it('should keep the extension of unknown files', async () => {
+      const event = WebhookEvents.file('notes.TXT', 5) as ContentEvent;
+
+      emulator.setContent(event.message.id, new Buffer('notes'));
+
+      const content = await manager.store(client, event);
+
+      expect(content.contentType).to.equal('application/octet-stream');
+      expect(content.fileName).to.equal('notes.TXT');
+      expect(content.key).to.match(/^[0-9a-f]{64}\.txt$/);
+    });
+
+    it('should reject content over the size limit', async () => {
+      const event = WebhookEvents.video() as ContentEvent;
+
+      emulator.setContent(event.message.id, new Buffer(65));
+
+      await expect(manager.store(client, event)).to.be.rejectedWith('Content of message ' + event.message.id +
+        ' exceeds 64 bytes\nPlease raise the maxSize option to accept larger content.');
+      expect(fs.readdirSync(dir)).to.deep.equal([]);
+    });
+
+    it('should reject files over the size limit before downloading', async () => {
+      const event = WebhookEvents.file('big.zip', 100) as ContentEvent;
+
+      emulator.reset();
+
+      await expect(manager.store(client, event)).to.be.rejectedWith('exceeds 64 bytes');
+      expect(emulator.callsTo(/content$/)).to.have.length(0);
+    });
+  });
+});
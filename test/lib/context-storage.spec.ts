@@ -0,0 +1,59 @@
+import * as chai from 'chai';
+import {ContextStorage} from '../../lib/context-storage';
+
+const expect = chai.expect;
+
+describe('ContextStorage', () => {
+  let storage: ContextStorage<string>;
+
+  beforeEach(() => {
+    storage = new ContextStorage<string>();
+  });
+
+  describe('run', () => {
+
+    it('should return the result of the callback', () => {
+      expect(storage.run('a', () => 1)).to.equal(1);
+    });
+
+    it('should keep the store across async calls', async () => {
+      const stores: Array<string | undefined> = [];
+
+      await storage.run('a', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        stores.push(storage.getStore());
+        await Promise.resolve();
+        stores.push(storage.getStore());
+      });
+
+      expect(stores).to.deep.equal(['a', 'a']);
+      expect(storage.getStore()).to.be.undefined;
+    });
+
+    it('should keep concurrent callbacks apart', async () => {
+      const stores = await Promise.all(['a', 'b'].map((store) => storage.run(store, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return storage.getStore();
+      })));
+
+      expect(stores).to.deep.equal(['a', 'b']);
+    });
+
+    it('should restore the outer store after a nested run', () => {
+      storage.run('a', () => {
+        storage.run('b', () => expect(storage.getStore()).to.equal('b'));
+        expect(storage.getStore()).to.equal('a');
+      });
+    });
+
+    it('should keep stores of other storages', () => {
+      const other = new ContextStorage<string>();
+
+      other.run('x', () => storage.run('a', () => {
+        expect(other.getStore()).to.equal('x');
+        expect(storage.getStore()).to.equal('a');
+      }));
+    });
+  });
+
+});
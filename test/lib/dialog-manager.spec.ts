@@ -0,0 +1,191 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {Dialog, DialogDefinition} from '../../lib/dialog';
+import {DialogManager, DialogState} from '../../lib/dialog-manager';
+import {EventContext} from '../../lib/event-context';
+import {FileStore} from '../../lib/file-store';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function textEvent(text: string, source: LINEBot.EventSource = {type: 'user', userId: 'U1'}): LINEBot.MessageEvent {
+  return {message: {id: '1', text, type: 'text'}, replyToken: 'r', source, timestamp: 1, type: 'message'};
+}
+
+function postbackEvent(data: string): LINEBot.PostbackEvent {
+  return {postback: {data}, replyToken: 'r', source: {type: 'user', userId: 'U1'}, timestamp: 1, type: 'postback'};
+}
+
+describe('DialogManager', () => {
+  let onComplete: SinonStub,
+    onCancel: SinonStub,
+    reply: SinonStub,
+    context: EventContext,
+    definition: () => DialogDefinition = () => ({
+      cancelText: 'Cancelled',
+      maxRetries: 1,
+      name: 'booking',
+      onCancel,
+      onComplete,
+      steps: [
+        {name: 'name', prompt: {text: 'Your name?', type: 'text'}},
+        {
+          name: 'guests',
+          prompt: {text: 'How many guests?', type: 'text'},
+          validate: (input) => {
+            let guests = Number(input.text);
+
+            if (!(guests > 0)) {
+              throw new Error('Please enter a number');
+            }
+
+            return guests;
+          }
+        },
+        {name: 'confirmed', prompt: (values) => ({text: 'Book for ' + values.name + '?', type: 'confirm'})}
+      ]
+    });
+
+  beforeEach(() => {
+    onComplete = sinon.stub();
+    onCancel = sinon.stub();
+    reply = sinon.stub().resolves({});
+    context = {channel: {id: 'c1'}, reply} as any as EventContext;
+  });
+
+  describe('getKey', () => {
+
+    it('should key group members separately', () => {
+      expect(DialogManager.getKey({type: 'group', groupId: 'G1', userId: 'U1'}, 'c1')).to.equal('c1:group:G1:user:U1');
+      expect(DialogManager.getKey({type: 'user', userId: 'U1'}, 'c1')).to.equal('c1:user:U1');
+    });
+
+    it('should key channels separately', () => {
+      expect(DialogManager.getKey({type: 'user', userId: 'U1'}, 'c2')).to.equal('c2:user:U1');
+    });
+
+  });
+
+  describe('begin', () => {
+
+    it('should reply the first prompt', async () => {
+      let manager = new DialogManager().add(definition());
+
+      await manager.begin('booking', textEvent('/book'), context);
+
+      expect(reply.getCall(0).args[0]).to.deep.equal({text: 'Your name?', type: 'text'});
+    });
+
+    it('should reject when dialog is not registered', () => {
+      return expect(new DialogManager().begin('unknown', textEvent('/book'), context)).to.eventually.rejectedWith('Dialog unknown is not registered');
+    });
+
+  });
+
+  describe('handle', () => {
+
+    describe('when no dialog is active', () => {
+
+      it('should resolve false', () => {
+        return expect(new DialogManager().add(definition()).handle(textEvent('hello'), context)).to.eventually.be.false;
+      });
+
+    });
+
+    describe('when every step is answered', () => {
+      let manager: DialogManager;
+
+      beforeEach(async () => {
+        manager = new DialogManager().add(definition());
+        await manager.begin('booking', textEvent('/book'), context);
+        await manager.handle(textEvent('Bob'), context);
+        await manager.handle(textEvent('2'), context);
+        await manager.handle(postbackEvent(Dialog.confirmYesData), context);
+      });
+
+      it('should prompt each step', () => {
+        expect(reply.getCall(1).args[0]).to.deep.equal({text: 'How many guests?', type: 'text'});
+        expect(reply.getCall(2).args[0].template.text).to.equal('Book for Bob?');
+      });
+
+      it('should complete with collected values', () => {
+        expect(onComplete.getCall(0).args[0]).to.deep.equal({confirmed: true, guests: 2, name: 'Bob'});
+        expect(onComplete.getCall(0).args[1]).to.equal(context);
+      });
+
+      it('should clear dialog state', () => {
+        return expect(manager.getState(textEvent('x'), 'c1')).to.eventually.be.undefined;
+      });
+
+    });
+
+    describe('when input is invalid', () => {
+      let manager: DialogManager;
+
+      beforeEach(async () => {
+        manager = new DialogManager().add(definition());
+        await manager.begin('booking', textEvent('/book'), context);
+        await manager.handle(textEvent('Bob'), context);
+        await manager.handle(textEvent('many'), context);
+      });
+
+      it('should reply validation error and prompt again', () => {
+        expect(reply.getCall(2).args[0]).to.deep.equal([
+          {text: 'Please enter a number', type: 'text'},
+          {text: 'How many guests?', type: 'text'}
+        ]);
+      });
+
+      it('should cancel after too many retries', async () => {
+        await manager.handle(textEvent('lots'), context);
+
+        expect(onCancel.getCall(0).args[0]).to.deep.equal({name: 'Bob'});
+        expect(await manager.getState(textEvent('x'), 'c1')).to.be.undefined;
+      });
+
+    });
+
+    describe('when user sends cancel keyword', () => {
+
+      it('should cancel dialog', async () => {
+        let manager = new DialogManager().add(definition());
+
+        await manager.begin('booking', textEvent('/book'), context);
+        await manager.handle(textEvent('Cancel'), context);
+
+        expect(reply.getCall(1).args[0]).to.deep.equal({text: 'Cancelled', type: 'text'});
+        expect(onCancel.calledOnce).to.be.true;
+        expect(onComplete.called).to.be.false;
+      });
+
+    });
+
+    describe('when server restarts during dialog', () => {
+      let fileName = path.resolve(__dirname, '../../.test-dialogs.json');
+
+      it('should resume from persisted step', async () => {
+        let manager = new DialogManager({store: new FileStore<DialogState>(fileName)}).add(definition()),
+          restarted = new DialogManager({store: new FileStore<DialogState>(fileName)}).add(definition());
+
+        await manager.begin('booking', textEvent('/book'), context);
+        await manager.handle(textEvent('Bob'), context);
+        await restarted.handle(textEvent('3'), context);
+
+        expect(reply.getCall(2).args[0].template.text).to.equal('Book for Bob?');
+      });
+
+      after(() => {
+        fs.removeSync(fileName);
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,85 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import {Dialog, DialogInput} from '../../lib/dialog';
+
+const expect = chai.expect;
+
+describe('Dialog', () => {
+  let event: LINEBot.MessageEvent = {
+    message: {id: '1', text: 'hi', type: 'text'},
+    replyToken: 'r',
+    source: {type: 'user', userId: 'U1'},
+    timestamp: 1,
+    type: 'message'
+  };
+
+  describe('constructor', () => {
+
+    describe('when dialog has no steps', () => {
+
+      it('should throw an error', () => {
+        expect(() => new Dialog({name: 'empty', onComplete: () => undefined, steps: []})).to.throw('Dialog empty has no steps');
+      });
+
+    });
+
+  });
+
+  describe('promptMessage', () => {
+
+    it('should create text message from text prompt', () => {
+      expect(Dialog.promptMessage({text: 'Name?', type: 'text'})).to.deep.equal({text: 'Name?', type: 'text'});
+    });
+
+    it('should create quick reply items from options', () => {
+      let message = Dialog.promptMessage({options: ['Mon', 'Tue'], text: 'Day?', type: 'quickReply'}) as LINEBot.TextMessage;
+
+      expect(message.text).to.equal('Day?');
+      expect(message.quickReply && message.quickReply.items.map((item) => item.action.label)).to.deep.equal(['Mon', 'Tue']);
+    });
+
+    it('should create confirm template with postback actions', () => {
+      let message = Dialog.promptMessage({noLabel: 'Nope', text: 'Sure?', type: 'confirm'}) as LINEBot.TemplateMessage,
+        template = message.template as LINEBot.TemplateConfirm;
+
+      expect(template.type).to.equal('confirm');
+      expect(template.actions.map((action) => action.label)).to.deep.equal(['Yes', 'Nope']);
+      expect((template.actions[0] as LINEBot.PostbackAction).data).to.equal(Dialog.confirmYesData);
+    });
+
+  });
+
+  describe('defaultValidate', () => {
+
+    it('should accept non-empty text for text prompt', () => {
+      expect(Dialog.defaultValidate({text: 'Name?', type: 'text'}, {event, text: ' Bob '})).to.equal('Bob');
+      expect(Dialog.defaultValidate({text: 'Name?', type: 'text'}, {event, text: ' '})).to.be.undefined;
+    });
+
+    it('should accept only listed options for quick reply prompt', () => {
+      expect(Dialog.defaultValidate({options: ['Mon'], text: 'Day?', type: 'quickReply'}, {event, text: 'Mon'})).to.equal('Mon');
+      expect(Dialog.defaultValidate({options: ['Mon'], text: 'Day?', type: 'quickReply'}, {event, text: 'Sun'})).to.be.undefined;
+    });
+
+    it('should convert confirm postback to boolean', () => {
+      let input = (data: string): DialogInput => ({data, event});
+
+      expect(Dialog.defaultValidate({text: 'Sure?', type: 'confirm'}, input(Dialog.confirmYesData))).to.be.true;
+      expect(Dialog.defaultValidate({text: 'Sure?', type: 'confirm'}, input(Dialog.confirmNoData))).to.be.false;
+      expect(Dialog.defaultValidate({text: 'Sure?', type: 'confirm'}, {event, text: 'maybe'})).to.be.undefined;
+    });
+
+  });
+
+  describe('isCancel', () => {
+
+    it('should match cancel keywords ignoring case', () => {
+      let dialog = new Dialog({cancelKeywords: ['Stop'], name: 'd', onComplete: () => undefined, steps: [{name: 'a', prompt: {text: 'a', type: 'text'}}]});
+
+      expect(dialog.isCancel({event, text: ' STOP'})).to.be.true;
+      expect(dialog.isCancel({event, text: 'cancel'})).to.be.false;
+    });
+
+  });
+
+});
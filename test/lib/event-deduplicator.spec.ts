@@ -0,0 +1,109 @@
+import * as chai from 'chai';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {EventDeduplicator} from '../../lib/event-deduplicator';
+import {FileStore} from '../../lib/file-store';
+import {WebhookEvents} from '../../lib/webhook-events';
+
+const expect = chai.expect;
+
+describe('EventDeduplicator', () => {
+
+  describe('getKey', () => {
+    it('should prefer the webhook event ID', () => {
+      expect(EventDeduplicator.getKey(WebhookEvents.follow({webhookEventId: '01H'}))).to.equal('01H');
+    });
+
+    it('should hash the source, timestamp and content without the reply token', () => {
+      const first = WebhookEvents.text('hi', {replyToken: 'r1', timestamp: 1});
+      const second = {...first, deliveryContext: {isRedelivery: true}, replyToken: 'r2'};
+
+      expect(EventDeduplicator.getKey(second)).to.equal(EventDeduplicator.getKey(first));
+      expect(EventDeduplicator.getKey(WebhookEvents.text('hi', {timestamp: 2})))
+        .to.not.equal(EventDeduplicator.getKey(first));
+    });
+  });
+
+  describe('begin', () => {
+    let deduplicator: EventDeduplicator;
+
+    beforeEach(() => {
+      deduplicator = new EventDeduplicator();
+    });
+
+    it('should report events seen before as redeliveries', async () => {
+      const event = WebhookEvents.follow({webhookEventId: 'e1'});
+
+      expect(await deduplicator.begin(event, 'default')).to.deep.equal({isRedelivery: false});
+
+      const deliveryContext = await deduplicator.begin(event, 'default');
+
+      expect(deliveryContext.isRedelivery).to.equal(true);
+      expect(deliveryContext.seenAt).to.be.a('number');
+      expect(deduplicator.shouldSkip(deliveryContext)).to.equal(true);
+    });
+
+    it('should keep channels apart', async () => {
+      const event = WebhookEvents.follow({webhookEventId: 'e1'});
+
+      await deduplicator.begin(event, 'shop');
+
+      expect(await deduplicator.begin(event, 'support')).to.deep.equal({isRedelivery: false});
+    });
+
+    it('should detect duplicates received concurrently', async () => {
+      const event = WebhookEvents.follow({webhookEventId: 'e1'});
+      const results = await Promise.all([deduplicator.begin(event, 'default'), deduplicator.begin(event, 'default')]);
+
+      expect(results.filter((result) => result.seenAt !== undefined)).to.have.length(1);
+    });
+
+    it('should pass on the redelivery flag of events it has not seen', async () => {
+      const deliveryContext = await deduplicator.begin(WebhookEvents.follow({isRedelivery: true}), 'default');
+
+      expect(deliveryContext).to.deep.equal({isRedelivery: true});
+      expect(deduplicator.shouldSkip(deliveryContext)).to.equal(false);
+    });
+
+    it('should process seen events again when redelivery is process', async () => {
+      const event = WebhookEvents.follow({webhookEventId: 'e1'});
+
+      deduplicator = new EventDeduplicator({redelivery: 'process'});
+      await deduplicator.begin(event, 'default');
+
+      expect(deduplicator.shouldSkip(await deduplicator.begin(event, 'default'))).to.equal(false);
+    });
+
+    it('should forget events so they can be retried', async () => {
+      const event = WebhookEvents.follow({webhookEventId: 'e1'});
+
+      await deduplicator.begin(event, 'default');
+      await deduplicator.forget(event, 'default');
+
+      expect(await deduplicator.begin(event, 'default')).to.deep.equal({isRedelivery: false});
+    });
+  });
+
+  describe('when file is set', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedupe-'));
+    });
+
+    afterEach(() => fs.remove(dir));
+
+    it('should remember events across instances', async () => {
+      const event = WebhookEvents.follow({webhookEventId: 'e1'});
+      const file = path.join(dir, 'events.json');
+
+      await new EventDeduplicator({file}).begin(event, 'default');
+
+      const deduplicator = new EventDeduplicator({file});
+
+      expect(deduplicator.store).to.be.instanceOf(FileStore);
+      expect((await deduplicator.begin(event, 'default')).isRedelivery).to.equal(true);
+    });
+  });
+});
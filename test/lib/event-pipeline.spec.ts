@@ -0,0 +1,225 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {EventContext} from '../../lib/event-context';
+import {EventPipeline} from '../../lib/event-pipeline';
+import {BotEvent} from '../../lib/event-types';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('EventPipeline', () => {
+  let context = {client: {} as LINEBot.Client} as any as EventContext,
+    event: BotEvent = {type: 'follow', replyToken: 'r', source: {type: 'user', userId: 'U1'}, timestamp: 1},
+    pipeline: EventPipeline,
+    calls: string[];
+
+  beforeEach(() => {
+    pipeline = new EventPipeline();
+    calls = [];
+  });
+
+  describe('run', () => {
+
+    describe('when middleware calls next', () => {
+
+      it('should run middleware around the handler in order', async () => {
+        pipeline.use(async (e, c, next) => {
+          calls.push('a:before');
+          await next();
+          calls.push('a:after');
+        }, async (e, c, next) => {
+          calls.push('b:before');
+          await next();
+          calls.push('b:after');
+        });
+
+        await pipeline.run(event, context, async () => {
+          calls.push('handler');
+        });
+
+        expect(calls).to.deep.equal(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+      });
+
+      it('should pass the event and context to middleware', async () => {
+        const middleware = sinon.spy((e: BotEvent, c: EventContext, next: () => Promise<void>) => next());
+
+        pipeline.use(middleware);
+        await pipeline.run(event, context, () => Promise.resolve());
+
+        expect(middleware.getCall(0).args[0]).to.equal(event);
+        expect(middleware.getCall(0).args[1]).to.equal(context);
+      });
+
+      it('should reject when next is called twice', async () => {
+        pipeline.use(async (e, c, next) => {
+          await next();
+          await next();
+        });
+
+        await expect(pipeline.run(event, context, () => Promise.resolve())).to.be.rejectedWith(/multiple times/);
+      });
+    });
+
+    describe('when middleware does not call next', () => {
+
+      it('should skip the rest of the chain and the handler', async () => {
+        const handler = sinon.stub().resolves();
+        const skipped = sinon.stub().resolves();
+
+        pipeline.use(() => undefined, skipped);
+        await pipeline.run(event, context, handler);
+
+        expect(skipped.called).to.be.false;
+        expect(handler.called).to.be.false;
+      });
+    });
+
+    describe('when the handler throws', () => {
+
+      it('should let middleware catch the error', async () => {
+        let caught: Error | undefined;
+
+        pipeline.use(async (e, c, next) => {
+          try {
+            await next();
+          } catch (err) {
+            caught = err;
+          }
+        });
+
+        await pipeline.run(event, context, () => {
+          throw new Error('failed');
+        });
+
+        expect(caught).to.have.property('message', 'failed');
+      });
+
+      it('should reject when no middleware catches the error', async () => {
+        pipeline.use((e, c, next) => next());
+
+        await expect(pipeline.run(event, context, () => Promise.reject(new Error('failed'))))
+          .to.be.rejectedWith('failed');
+      });
+    });
+
+    describe('when a pipeline is used as middleware', () => {
+
+      it('should run its middleware in place', async () => {
+        const nested = new EventPipeline().use(async (e, c, next) => {
+          calls.push('nested');
+          await next();
+        });
+
+        pipeline.use(async (e, c, next) => {
+          calls.push('outer');
+          await next();
+        }, nested);
+        await pipeline.run(event, context, async () => {
+          calls.push('handler');
+        });
+
+        expect(calls).to.deep.equal(['outer', 'nested', 'handler']);
+      });
+
+      it('should run middleware added to it later', async () => {
+        const nested = new EventPipeline();
+
+        pipeline.use(nested);
+        nested.use(async (e, c, next) => {
+          calls.push('nested');
+          await next();
+        });
+        await pipeline.run(event, context, async () => {
+          calls.push('handler');
+        });
+
+        expect(calls).to.deep.equal(['nested', 'handler']);
+      });
+    });
+  });
+
+  describe('handleError', () => {
+
+    describe('when there is no error middleware', () => {
+
+      it('should return the error', async () => {
+        const error = new Error('failed');
+
+        expect(await pipeline.handleError(error, event, context)).to.equal(error);
+      });
+    });
+
+    describe('when error middleware does not call next', () => {
+
+      it('should handle the error', async () => {
+        const skipped = sinon.stub();
+
+        pipeline.useError(() => undefined, skipped);
+
+        expect(await pipeline.handleError(new Error('failed'), event, context)).to.be.undefined;
+        expect(skipped.called).to.be.false;
+      });
+    });
+
+    describe('when error middleware calls next', () => {
+
+      it('should pass the error or its replacement on', async () => {
+        const replacement = new Error('replaced');
+        const last = sinon.spy((err: Error, e: BotEvent, c: EventContext, next: (err?: Error) => Promise<void>) => {
+          return next();
+        });
+
+        pipeline.useError((err, e, c, next) => next(replacement), last);
+
+        expect(await pipeline.handleError(new Error('failed'), event, context)).to.equal(replacement);
+        expect(last.getCall(0).args[0]).to.equal(replacement);
+      });
+    });
+
+    describe('when error middleware throws', () => {
+
+      it('should pass the thrown error on', async () => {
+        pipeline.useError(() => {
+          throw new Error('thrown');
+        });
+
+        expect(await pipeline.handleError(new Error('failed'), event, context)).to.have.property('message', 'thrown');
+      });
+    });
+
+    describe('when a pipeline is used as middleware', () => {
+
+      it('should run its error middleware first', async () => {
+        const nested = new EventPipeline().useError((err, e, c, next) => {
+          calls.push('nested');
+          return next();
+        });
+
+        pipeline.useError((err, e, c, next) => {
+          calls.push('outer');
+          return next();
+        }).use(nested);
+        await pipeline.handleError(new Error('failed'), event, context);
+
+        expect(calls).to.deep.equal(['nested', 'outer']);
+      });
+
+      it('should run error middleware added to it later', async () => {
+        const nested = new EventPipeline();
+
+        pipeline.use(nested);
+        nested.useError((err, e, c, next) => {
+          calls.push('nested');
+          return next();
+        });
+        await pipeline.handleError(new Error('failed'), event, context);
+
+        expect(calls).to.deep.equal(['nested']);
+      });
+    });
+  });
+
+});
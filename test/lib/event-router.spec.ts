@@ -0,0 +1,123 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {EventContext} from '../../lib/event-context';
+import {EventRouter} from '../../lib/event-router';
+import {BotEvent} from '../../lib/event-types';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('EventRouter', () => {
+  let context = {client: {} as LINEBot.Client, reply: () => Promise.resolve()} as any as EventContext,
+    source: LINEBot.User = {type: 'user', userId: 'U1'},
+    textEvent: BotEvent = {type: 'message', replyToken: 'r', source, timestamp: 1, message: {id: '1', type: 'text', text: 'hi'}},
+    imageEvent: BotEvent = {type: 'message', replyToken: 'r', source, timestamp: 1, message: {id: '2', type: 'image'}},
+    followEvent: BotEvent = {type: 'follow', replyToken: 'r', source, timestamp: 1};
+
+  describe('dispatch', () => {
+
+    describe('when a handler is registered for the message type', () => {
+      let router: EventRouter,
+        textHandler: SinonStub,
+        imageHandler: SinonStub;
+
+      before(() => {
+        router = new EventRouter();
+        textHandler = sinon.stub();
+        imageHandler = sinon.stub();
+        router.onMessage('text', textHandler).onMessage('image', imageHandler);
+        return router.dispatch(textEvent, context);
+      });
+
+      it('should call the matching handler with event and context', () => {
+        expect(textHandler.calledOnce).to.be.true;
+        expect(textHandler.getCall(0).args[0]).to.equal(textEvent);
+        expect(textHandler.getCall(0).args[1]).to.equal(context);
+      });
+
+      it('should not call handlers of other message types', () => {
+        expect(imageHandler.called).to.be.false;
+      });
+
+    });
+
+    describe('when handlers are registered for event types', () => {
+      let router: EventRouter,
+        followHandler: SinonStub,
+        anyMessageHandler: SinonStub,
+        anyHandler: SinonStub;
+
+      before(async () => {
+        router = new EventRouter();
+        followHandler = sinon.stub();
+        anyMessageHandler = sinon.stub();
+        anyHandler = sinon.stub();
+        router.onFollow(followHandler).onAnyMessage(anyMessageHandler).onAny(anyHandler);
+        await router.dispatch(followEvent, context);
+        await router.dispatch(imageEvent, context);
+      });
+
+      it('should call the event type handler', () => {
+        expect(followHandler.calledOnce).to.be.true;
+      });
+
+      it('should call the message handler for every message type', () => {
+        expect(anyMessageHandler.calledOnce).to.be.true;
+        expect(anyMessageHandler.getCall(0).args[0]).to.equal(imageEvent);
+      });
+
+      it('should call the catch-all handler for every event', () => {
+        expect(anyHandler.calledTwice).to.be.true;
+      });
+
+    });
+
+    describe('when no handler is registered', () => {
+
+      it('should resolve false', () => {
+        return expect(new EventRouter().dispatch(followEvent, context)).to.eventually.be.false;
+      });
+
+    });
+
+    describe('when a handler throws', () => {
+
+      it('should reject with the error', () => {
+        let router = new EventRouter().onFollow(() => {
+          throw new Error('Test handler error');
+        });
+
+        return expect(router.dispatch(followEvent, context)).to.eventually.rejectedWith('Test handler error');
+      });
+
+    });
+
+  });
+
+  describe('handleError', () => {
+    let router: EventRouter,
+      firstHandler: SinonStub,
+      secondHandler: SinonStub,
+      error = new Error('Test error');
+
+    before(() => {
+      router = new EventRouter();
+      firstHandler = sinon.stub().throws(new Error('Error handler error'));
+      secondHandler = sinon.stub();
+      router.onError(firstHandler).onError(secondHandler);
+      return router.handleError(error, followEvent, context);
+    });
+
+    it('should call every error handler even if one throws', () => {
+      expect(firstHandler.calledOnce).to.be.true;
+      expect(secondHandler.calledOnce).to.be.true;
+      expect(secondHandler.getCall(0).args).to.deep.equal([error, followEvent, context]);
+    });
+
+  });
+
+});
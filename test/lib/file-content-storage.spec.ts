@@ -0,0 +1,62 @@
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {PassThrough, Readable} from 'stream';
+import {FileContentStorage} from '../../lib/file-content-storage';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function readAll(stream: Readable) {
+  return new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    stream.on('error', reject);
+  });
+}
+
+describe('FileContentStorage', () => {
+  let dir: string,
+    storage: FileContentStorage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-storage-'));
+    storage = new FileContentStorage(dir);
+  });
+
+  afterEach(() => fs.remove(dir));
+
+  describe('when content is written', () => {
+    it('should be readable and removable by key', async () => {
+      const stream = new PassThrough();
+
+      stream.end('data');
+
+      expect(await storage.write('images/a.png', stream, 'image/png')).to.equal(path.join(dir, 'images', 'a.png'));
+      expect(await storage.exists('images/a.png')).to.equal(true);
+
+      expect(await readAll(await storage.read('images/a.png'))).to.equal('data');
+
+      await storage.delete('images/a.png');
+
+      expect(await storage.exists('images/a.png')).to.equal(false);
+    });
+  });
+
+  describe('when a key leaves the directory', () => {
+    it('should throw an error', () => {
+      expect(() => storage.locate('../escape')).to.throw('Invalid content key ../escape');
+    });
+  });
+
+  describe('when content is missing', () => {
+    it('should reject reads', () => {
+      return expect(storage.read('missing')).to.be.rejectedWith('Content missing is not stored');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {FileStore} from '../../lib/file-store';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('FileStore', () => {
+  let fileName = path.resolve(__dirname, '../../.test-file-store.json');
+
+  describe('when value is set', () => {
+    let store: FileStore<{ count: number }>;
+
+    before(() => {
+      store = new FileStore(fileName);
+      return store.set('key', {count: 1});
+    });
+
+    it('should write the value to file', () => {
+      expect(fs.readJsonSync(fileName).key.value).to.deep.equal({count: 1});
+    });
+
+    it('should be readable by another store using the same file', () => {
+      return expect(new FileStore(fileName).get('key')).to.eventually.deep.equal({count: 1});
+    });
+
+    after(() => {
+      fs.removeSync(fileName);
+    });
+
+  });
+
+  describe('when value is expired', () => {
+    let store: FileStore<string>;
+
+    before(() => {
+      fs.writeJsonSync(fileName, {expired: {expiresAt: Date.now() - 1, value: 'old'}, valid: {value: 'new'}});
+      store = new FileStore(fileName);
+    });
+
+    it('should not return the value', () => {
+      return expect(store.get('expired')).to.eventually.be.undefined;
+    });
+
+    it('should remove the value from file', () => {
+      expect(fs.readJsonSync(fileName)).to.deep.equal({valid: {value: 'new'}});
+    });
+
+    after(() => {
+      fs.removeSync(fileName);
+    });
+
+  });
+
+  describe('when many values are set concurrently', () => {
+    let store: FileStore<number>;
+
+    before(() => {
+      store = new FileStore(fileName);
+      return Promise.all([1, 2, 3, 4, 5].map((value) => store.set('key' + value, value)));
+    });
+
+    it('should keep every value', () => {
+      expect(Object.keys(fs.readJsonSync(fileName))).to.have.lengthOf(5);
+    });
+
+    after(() => {
+      fs.removeSync(fileName);
+    });
+
+  });
+
+  describe('delete', () => {
+
+    it('should remove the value from file', () => {
+      let store = new FileStore<string>(fileName);
+
+      return store.set('key', 'value')
+        .then(() => store.delete('key'))
+        .then(() => expect(fs.readJsonSync(fileName)).to.deep.equal({}));
+    });
+
+    after(() => {
+      fs.removeSync(fileName);
+    });
+
+  });
+
+});
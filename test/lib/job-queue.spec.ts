@@ -0,0 +1,187 @@
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import {Job, JobQueue} from '../../lib/job-queue';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('JobQueue', () => {
+  let queue: JobQueue<string>;
+
+  afterEach(() => queue.stop());
+
+  describe('when jobs are added', () => {
+    it('should process them with limited concurrency', async () => {
+      let running = 0,
+        maxRunning = 0;
+
+      queue = new JobQueue<string>(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await delay(10);
+        running--;
+      }, {concurrency: 2});
+      await queue.start();
+      await queue.addAll(['a', 'b', 'c', 'd', 'e'].map((group) => ({data: group, group})));
+      await queue.drain();
+
+      expect(maxRunning).to.equal(2);
+      expect(queue.size).to.equal(0);
+    });
+
+    it('should process jobs of the same group in order', async () => {
+      const processed: string[] = [];
+
+      queue = new JobQueue<string>(async (job) => {
+        await delay(job.group + job.data === 'user:A1' ? 20 : 1);
+        processed.push(job.group + job.data);
+      }, {concurrency: 4});
+      await queue.start();
+      await queue.addAll([
+        {data: '1', group: 'user:A'},
+        {data: '2', group: 'user:A'},
+        {data: '1', group: 'user:B'},
+        {data: '3', group: 'user:A'}
+      ]);
+      await queue.drain();
+
+      expect(processed.filter((item) => item.indexOf('user:A') === 0)).to.deep.equal(['user:A1', 'user:A2', 'user:A3']);
+      expect(processed.indexOf('user:B1')).to.be.lessThan(processed.indexOf('user:A1'));
+    });
+  });
+
+  describe('when a job fails', () => {
+    it('should retry it before the next job of its group', async () => {
+      const attempts: string[] = [];
+
+      queue = new JobQueue<string>(async (job) => {
+        attempts.push(job.data + job.attempts);
+
+        if (job.data === 'a' && job.attempts < 3) {
+          throw new Error('Temporary failure');
+        }
+      }, {retryDelay: 5});
+      await queue.start();
+      await queue.addAll([{data: 'a', group: 'g'}, {data: 'b', group: 'g'}]);
+      await queue.drain();
+
+      expect(attempts).to.deep.equal(['a1', 'a2', 'a3', 'b1']);
+    });
+
+    it('should move it to the dead letters after the last retry', async () => {
+      const failed: Array<Job<string>> = [];
+
+      queue = new JobQueue<string>(() => Promise.reject(new Error('Permanent failure')), {maxRetries: 1, retryDelay: 1});
+      queue.on('failed', (failedJob: Job<string>) => failed.push(failedJob));
+      await queue.start();
+
+      const job = await queue.add('g', 'a');
+
+      await queue.drain();
+
+      expect(failed).to.have.length(1);
+      expect(queue.deadLetters).to.deep.equal([{...job, attempts: 2, error: 'Permanent failure'}]);
+    });
+
+    it('should keep retrying when the clock moves while scheduling', async () => {
+      let now = Date.now(),
+        clock = sinon.stub(Date, 'now').callsFake(() => now++);
+
+      queue = new JobQueue<string>(async (job) => {
+        if (job.attempts < 3) {
+          throw new Error('Temporary failure');
+        }
+      }, {retryDelay: 1});
+
+      try {
+        await queue.start();
+        await queue.add('g', 'a');
+        await queue.drain();
+      } finally {
+        clock.restore();
+      }
+
+      expect(queue.size).to.equal(0);
+    });
+
+    it('should requeue dead letters', async () => {
+      let fail = true;
+
+      queue = new JobQueue<string>(async () => {
+        if (fail) {
+          throw new Error('Permanent failure');
+        }
+      }, {maxRetries: 0});
+      await queue.start();
+
+      const job = await queue.add('g', 'a');
+
+      await queue.drain();
+      fail = false;
+      await queue.requeue(job.id);
+      await queue.drain();
+
+      expect(queue.deadLetters).to.have.length(0);
+      await expect(queue.requeue('missing')).to.be.rejectedWith('Job missing is not in the dead letters');
+    });
+  });
+
+  describe('when the queue is paused', () => {
+    it('should reject drain', async () => {
+      queue = new JobQueue<string>(async () => undefined);
+      await queue.add('g', 'a');
+
+      await expect(queue.drain()).to.eventually.rejectedWith('Cannot drain the queue while it is paused');
+    });
+
+    it('should reject a pending drain', async () => {
+      let draining;
+
+      queue = new JobQueue<string>(() => delay(10));
+      await queue.start();
+      await queue.add('g', 'a');
+      draining = queue.drain();
+      queue.pause();
+
+      await expect(draining).to.eventually.rejectedWith('Cannot drain the queue while it is paused');
+    });
+  });
+
+  describe('when file is set', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-queue-'));
+    });
+
+    afterEach(() => fs.remove(dir));
+
+    it('should persist jobs until they are processed', async () => {
+      const file = path.join(dir, 'queue.json');
+      const processed: string[] = [];
+
+      queue = new JobQueue<string>(async () => undefined, {file});
+      await queue.add('g', 'a');
+
+      expect(fs.readJsonSync(file).jobs).to.have.length(1);
+
+      queue = new JobQueue<string>(async (job) => {
+        processed.push(job.data);
+      }, {file});
+      await queue.start();
+      await queue.drain();
+      await queue.stop();
+
+      expect(processed).to.deep.equal(['a']);
+      expect(fs.readJsonSync(file)).to.deep.equal({deadLetters: [], jobs: []});
+    });
+  });
+});
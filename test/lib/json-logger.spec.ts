@@ -0,0 +1,42 @@
+import * as chai from 'chai';
+import {PassThrough} from 'stream';
+import {JsonLogger} from '../../lib/json-logger';
+
+const expect = chai.expect;
+
+describe('JsonLogger', () => {
+  let stream: PassThrough,
+    logger: JsonLogger;
+
+  beforeEach(() => {
+    stream = new PassThrough();
+    logger = new JsonLogger(stream);
+  });
+
+  describe('when an entry is written', () => {
+
+    it('should write one JSON line with level, message, time and fields', () => {
+      logger.warn('Webhook rejected', {channel: 'shop'});
+
+      const output = stream.read().toString();
+      const entry = JSON.parse(output);
+
+      expect(output).to.match(/\n$/);
+      expect(entry).to.include({channel: 'shop', level: 'warn', msg: 'Webhook rejected'});
+      expect(new Date(entry.time).getTime()).to.be.closeTo(Date.now(), 1000);
+    });
+  });
+
+  describe('when fields use reserved names', () => {
+
+    it('should keep the level and message', () => {
+      logger.info('Handled', {level: 'debug', msg: 'Other', time: 'now'});
+
+      const entry = JSON.parse(stream.read().toString());
+
+      expect(entry).to.include({level: 'info', msg: 'Handled'});
+      expect(entry.time).not.to.equal('now');
+    });
+  });
+
+});
@@ -0,0 +1,150 @@
+import * as LINEBot from '@line/bot-sdk';
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ApiEmulator } from '../../lib/api-emulator';
+import { LINEClient, LINEClientRequest } from '../../lib/line-client';
+
+describe('LINEClient', () => {
+
+  describe('normalizeBaseURL', () => {
+
+    describe('when apiBaseURL is not provided', () => {
+      it('should return the SDK base URL', () => {
+        expect(LINEClient.normalizeBaseURL()).to.equal('https://api.line.me/v2/bot/');
+      });
+    });
+
+    describe('when apiBaseURL has no trailing slash', () => {
+      it('should append one', () => {
+        expect(LINEClient.normalizeBaseURL('http://127.0.0.1:8080/v2/bot')).to.equal('http://127.0.0.1:8080/v2/bot/');
+      });
+    });
+  });
+
+  describe('resolveURL', () => {
+
+    it('should rewrite SDK URLs onto the base URL', () => {
+      expect(LINEClient.resolveURL('https://api.line.me/v2/bot/profile/U1', 'http://127.0.0.1:8080/v2/bot/'))
+        .to.equal('http://127.0.0.1:8080/v2/bot/profile/U1');
+    });
+
+    it('should leave other URLs unchanged', () => {
+      expect(LINEClient.resolveURL('https://example.com/v2/bot/profile/U1', 'http://127.0.0.1:8080/v2/bot/'))
+        .to.equal('https://example.com/v2/bot/profile/U1');
+    });
+  });
+
+  describe('create', () => {
+
+    it('should return an SDK client', () => {
+      expect(LINEClient.create({channelAccessToken: 'test'})).to.be.instanceOf(LINEBot.Client);
+    });
+
+    describe('when apiBaseURL is provided', () => {
+      it('should send requests to the base URL', async () => {
+        let get = sinon.stub(LINEBot.Client.prototype as any, 'get').resolves({}),
+          client = LINEClient.create({apiBaseURL: 'http://127.0.0.1:8080/v2/bot', channelAccessToken: 'test'});
+
+        try {
+          await client.getProfile('U1');
+          expect(get.getCall(0).args[0]).to.equal('http://127.0.0.1:8080/v2/bot/profile/U1');
+        } finally {
+          get.restore();
+        }
+      });
+    });
+  });
+
+  describe('use', () => {
+    let post: sinon.SinonStub,
+      client: LINEBot.Client;
+
+    beforeEach(() => {
+      post = sinon.stub(LINEBot.Client.prototype as any, 'post');
+      post.callsFake(function(this: any) {
+        return Promise.resolve(this.authHeader());
+      });
+      client = LINEClient.create({apiBaseURL: 'http://127.0.0.1:8080/v2/bot', channelAccessToken: 'test'});
+    });
+
+    afterEach(() => post.restore());
+
+    it('should pass each request through the hooks', async () => {
+      const requests: LINEClientRequest[] = [];
+
+      LINEClient.use(client, (request, next) => {
+        requests.push(request);
+        request.headers['X-Test'] = 'yes';
+        return next();
+      });
+
+      const headers = await client.pushMessage('U1', {text: 'Hello', type: 'text'});
+
+      expect(requests).to.have.length(1);
+      expect(requests[0]).to.include({method: 'post', path: 'message/push', url: 'http://127.0.0.1:8080/v2/bot/message/push'});
+      expect(requests[0].body).to.deep.equal({messages: [{text: 'Hello', type: 'text'}], to: 'U1'});
+      expect(headers).to.deep.equal({'Authorization': 'Bearer test', 'X-Test': 'yes'});
+    });
+
+    it('should run hooks added later first', async () => {
+      const order: string[] = [];
+
+      LINEClient.use(client, (request, next) => {
+        order.push('first');
+        return next();
+      });
+      LINEClient.use(client, (request, next) => {
+        order.push('second');
+        return next();
+      });
+
+      await client.pushMessage('U1', {text: 'Hello', type: 'text'});
+
+      expect(order).to.deep.equal(['second', 'first']);
+    });
+
+    it('should let a hook answer without sending the request', async () => {
+      LINEClient.use(client, () => Promise.resolve({}));
+
+      expect(await client.pushMessage('U1', {text: 'Hello', type: 'text'})).to.deep.equal({});
+      expect(post.called).to.be.false;
+    });
+  });
+
+  describe('when requests go through the installed SDK', () => {
+    let emulator: ApiEmulator;
+
+    before(async () => {
+      emulator = new ApiEmulator({channelAccessToken: 'test'});
+      await emulator.start();
+    });
+
+    after(() => emulator.stop());
+
+    it('should send them to the base URL through the hooks', async () => {
+      const client = LINEClient.create({apiBaseURL: emulator.baseURL, channelAccessToken: 'test'}),
+        paths: string[] = [];
+
+      LINEClient.use(client, (request, next) => {
+        paths.push(request.path);
+        request.headers['X-Test'] = 'yes';
+        return next();
+      });
+
+      await client.pushMessage('U1', {text: 'Hello', type: 'text'});
+
+      expect(paths).to.deep.equal(['message/push']);
+      expect(emulator.callsTo('message/push')).to.have.length(1);
+      expect(emulator.callsTo('message/push')[0].headers['x-test']).to.equal('yes');
+    });
+
+    it('should fail when the SDK client does not have the methods it extends', () => {
+      const client = new LINEBot.Client({channelAccessToken: 'test'});
+
+      (client as any).post = undefined;
+
+      expect(() => LINEClient.use(client, (request, next) => next())).to.throw('Unsupported @line/bot-sdk version');
+    });
+  });
+
+});
@@ -0,0 +1,69 @@
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonFakeTimers} from 'sinon';
+import {MemoryStore} from '../../lib/memory-store';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('MemoryStore', () => {
+  let clock: SinonFakeTimers;
+
+  before(() => {
+    clock = sinon.useFakeTimers();
+  });
+
+  describe('when value is set without ttl', () => {
+    let store: MemoryStore<string>;
+
+    before(() => {
+      store = new MemoryStore<string>();
+      return store.set('key', 'value');
+    });
+
+    it('should keep the value', () => {
+      clock.tick(1000 * 60 * 60 * 24 * 365);
+      return expect(store.get('key')).to.eventually.equal('value');
+    });
+
+  });
+
+  describe('when value is set with ttl', () => {
+    let store: MemoryStore<string>;
+
+    before(() => {
+      store = new MemoryStore<string>();
+      return store.set('key', 'value', 1000);
+    });
+
+    it('should return the value before expiry', () => {
+      clock.tick(999);
+      return expect(store.get('key')).to.eventually.equal('value');
+    });
+
+    it('should not return the value after expiry', () => {
+      clock.tick(1);
+      return expect(store.get('key')).to.eventually.be.undefined;
+    });
+
+  });
+
+  describe('delete', () => {
+
+    it('should remove the value', () => {
+      let store = new MemoryStore<string>();
+
+      return store.set('key', 'value')
+        .then(() => store.delete('key'))
+        .then(() => expect(store.get('key')).to.eventually.be.undefined);
+    });
+
+  });
+
+  after(() => {
+    clock.restore();
+  });
+
+});
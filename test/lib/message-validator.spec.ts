@@ -0,0 +1,148 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as _ from 'lodash';
+import {MessageValidator} from '../../lib/message-validator';
+
+const expect = chai.expect;
+
+describe('MessageValidator', () => {
+  let text: LINEBot.TextMessage = {text: 'hello', type: 'text'};
+
+  describe('validateMessages', () => {
+
+    it('should accept up to 5 messages', () => {
+      expect(MessageValidator.validateMessages([text, text, text, text, text])).to.have.lengthOf(5);
+    });
+
+    it('should accept a single message', () => {
+      expect(MessageValidator.validateMessages(text)).to.deep.equal([text]);
+    });
+
+    it('should reject more than 5 messages', () => {
+      expect(() => MessageValidator.validateMessages([text, text, text, text, text, text]))
+        .to.throw('Invalid messages: at most 5 messages can be sent in one request (got 6)');
+    });
+
+    it('should reject empty list', () => {
+      expect(() => MessageValidator.validateMessages([])).to.throw('at least one message is required');
+    });
+
+    it('should report the path of the invalid message', () => {
+      expect(() => MessageValidator.validateMessages([text, {text: '', type: 'text'}]))
+        .to.throw('Invalid messages[1].text: must be a non-empty string');
+    });
+
+  });
+
+  describe('validateMessage', () => {
+
+    it('should reject too long text', () => {
+      expect(() => MessageValidator.validateMessage({text: _.repeat('a', 2001), type: 'text'}))
+        .to.throw('Invalid message.text: must be at most 2000 characters (got 2001)');
+    });
+
+    it('should reject non-HTTPS image URL', () => {
+      expect(() => MessageValidator.validateMessage({originalContentUrl: 'http://a/b.jpg', previewImageUrl: 'https://a/b.jpg', type: 'image'}))
+        .to.throw('Invalid message.originalContentUrl: must be an HTTPS URL');
+    });
+
+    it('should reject audio without positive duration', () => {
+      expect(() => MessageValidator.validateMessage({duration: 0, originalContentUrl: 'https://a/b.m4a', type: 'audio'}))
+        .to.throw('Invalid message.duration: must be a positive number');
+    });
+
+    it('should reject location out of range', () => {
+      expect(() => MessageValidator.validateMessage({address: 'a', latitude: 91, longitude: 0, title: 't', type: 'location'}))
+        .to.throw('Invalid message.latitude: must be between -90 and 90');
+    });
+
+    it('should reject imagemap without actions', () => {
+      expect(() => MessageValidator.validateMessage({actions: [], altText: 'a', baseSize: {height: 1040, width: 1040}, baseUrl: 'https://a/b', type: 'imagemap'}))
+        .to.throw('Invalid message.actions: must have 1 to 50 items (got 0)');
+    });
+
+    it('should reject buttons with too many actions', () => {
+      let action: LINEBot.Action = {label: 'a', text: 'a', type: 'message'};
+
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        template: {actions: [action, action, action, action, action], text: 'text', type: 'buttons'},
+        type: 'template'
+      })).to.throw('Invalid message.template.actions: must have 1 to 4 items (got 5)');
+    });
+
+    it('should apply shorter buttons text limit with title', () => {
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        template: {actions: [{label: 'a', text: 'a', type: 'message'}], text: _.repeat('a', 61), title: 'title', type: 'buttons'},
+        type: 'template'
+      })).to.throw('Invalid message.template.text: must be at most 60 characters');
+    });
+
+    it('should reject too long action labels', () => {
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        template: {actions: [{label: _.repeat('a', 21), text: 'a', type: 'message'}, {label: 'b', text: 'b', type: 'message'}], text: 'ok?', type: 'confirm'},
+        type: 'template'
+      })).to.throw('Invalid message.template.actions[0].label: must be at most 20 characters (got 21)');
+    });
+
+    it('should reject confirm without exactly 2 actions', () => {
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        template: {actions: [{label: 'a', text: 'a', type: 'message'}], text: 'ok?', type: 'confirm'},
+        type: 'template'
+      })).to.throw('Invalid message.template.actions: must have 2 items (got 1)');
+    });
+
+    it('should reject carousel columns with different number of actions', () => {
+      let action: LINEBot.Action = {label: 'a', text: 'a', type: 'message'};
+
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        template: {columns: [{actions: [action], text: 'a'}, {actions: [action, action], text: 'b'}], type: 'carousel'},
+        type: 'template'
+      })).to.throw('Invalid message.template.columns[1].actions: every carousel column must have the same number of actions');
+    });
+
+    it('should reject carousel with too many columns', () => {
+      let column: LINEBot.TemplateColumn = {actions: [{label: 'a', text: 'a', type: 'message'}], text: 'a'};
+
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        template: {columns: _.times(11, () => column), type: 'carousel'},
+        type: 'template'
+      })).to.throw('Invalid message.template.columns: must have 1 to 10 items (got 11)');
+    });
+
+    it('should reject empty flex bubble', () => {
+      expect(() => MessageValidator.validateMessage({altText: 'alt', contents: {type: 'bubble'}, type: 'flex'}))
+        .to.throw('Invalid message.contents: bubble must have at least one of header, hero, body or footer');
+    });
+
+    it('should reject invalid flex button action', () => {
+      expect(() => MessageValidator.validateMessage({
+        altText: 'alt',
+        contents: {body: {contents: [{action: {label: 'a', type: 'uri', uri: 'ftp://a'}, type: 'button'}], layout: 'vertical', type: 'box'}, type: 'bubble'},
+        type: 'flex'
+      })).to.throw('Invalid message.contents.body.contents[0].action.uri: must be an http, https, tel or line URI');
+    });
+
+    it('should reject too many quick reply items', () => {
+      let item: LINEBot.QuickReplyItem = {action: {label: 'a', text: 'a', type: 'message'}, type: 'action'};
+
+      expect(() => MessageValidator.validateMessage({quickReply: {items: _.times(14, () => item)}, text: 'a', type: 'text'}))
+        .to.throw('Invalid message.quickReply.items: must have 1 to 13 items (got 14)');
+    });
+
+    it('should reject too long postback data', () => {
+      expect(() => MessageValidator.validateMessage({
+        quickReply: {items: [{action: {data: _.repeat('a', 301), label: 'a', type: 'postback'}, type: 'action'}]},
+        text: 'a',
+        type: 'text'
+      })).to.throw('Invalid message.quickReply.items[0].action.data: must be at most 300 characters (got 301)');
+    });
+
+  });
+
+});
@@ -0,0 +1,149 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import {Flex} from '../../lib/flex';
+import {Messages} from '../../lib/messages';
+
+const expect = chai.expect;
+
+describe('Messages', () => {
+  let action: LINEBot.Action = {label: 'OK', text: 'ok', type: 'message'};
+
+  describe('text', () => {
+
+    it('should build text message with quick reply', () => {
+      expect(Messages.text('Pick one').quickReply(Messages.quickReply().message('A').message('B', 'b')).build()).to.deep.equal({
+        quickReply: {
+          items: [
+            {action: {label: 'A', text: 'A', type: 'message'}, type: 'action'},
+            {action: {label: 'B', text: 'b', type: 'message'}, type: 'action'}
+          ]
+        },
+        text: 'Pick one',
+        type: 'text'
+      });
+    });
+
+    it('should throw when text is empty', () => {
+      expect(() => Messages.text('').build()).to.throw('Invalid message.text: must be a non-empty string');
+    });
+
+  });
+
+  describe('media messages', () => {
+
+    it('should use original image as preview by default', () => {
+      expect(Messages.image('https://a/b.jpg').build()).to.deep.equal({originalContentUrl: 'https://a/b.jpg', previewImageUrl: 'https://a/b.jpg', type: 'image'});
+    });
+
+    it('should build video, audio, location and sticker messages', () => {
+      expect(Messages.video('https://a/b.mp4', 'https://a/b.jpg').build().type).to.equal('video');
+      expect(Messages.audio('https://a/b.m4a', 1000).build().duration).to.equal(1000);
+      expect(Messages.location('Home', 'Bangkok', 13.7, 100.5).build().title).to.equal('Home');
+      expect(Messages.sticker(1, 2).build()).to.deep.equal({packageId: '1', stickerId: '2', type: 'sticker'});
+    });
+
+  });
+
+  describe('imagemap', () => {
+
+    it('should build imagemap actions', () => {
+      let message = Messages.imagemap('https://a/map', 'Map')
+        .uri('https://example.com', {height: 520, width: 520, x: 0, y: 0})
+        .text('hello', {height: 520, width: 520, x: 520, y: 0})
+        .build();
+
+      expect(message.baseSize).to.deep.equal({height: 1040, width: 1040});
+      expect(message.actions.map((imagemapAction) => imagemapAction.type)).to.deep.equal(['uri', 'message']);
+    });
+
+  });
+
+  describe('buttons', () => {
+
+    it('should build buttons template', () => {
+      let message = Messages.buttons('Menu', 'Choose').title('Menu').thumbnail('https://a/b.jpg', {aspectRatio: 'square'}).action(action).build();
+
+      expect(message.template).to.deep.equal({
+        actions: [action],
+        imageAspectRatio: 'square',
+        text: 'Choose',
+        thumbnailImageUrl: 'https://a/b.jpg',
+        title: 'Menu',
+        type: 'buttons'
+      });
+    });
+
+    it('should throw when there is no action', () => {
+      expect(() => Messages.buttons('Menu', 'Choose').build()).to.throw('Invalid message.template.actions: must have 1 to 4 items (got 0)');
+    });
+
+  });
+
+  describe('confirm', () => {
+
+    it('should build confirm template', () => {
+      let message = Messages.confirm('Sure?', 'Sure?').actions(action, action).build();
+
+      expect((message.template as LINEBot.TemplateConfirm).actions).to.have.lengthOf(2);
+    });
+
+  });
+
+  describe('carousel', () => {
+
+    it('should build carousel template', () => {
+      let message = Messages.carousel('Items', {size: 'contain'})
+        .column({actions: [action], text: 'One'})
+        .column({actions: [action], text: 'Two'})
+        .build(),
+        template = message.template as LINEBot.TemplateCarousel;
+
+      expect(template.imageSize).to.equal('contain');
+      expect(template.columns).to.have.lengthOf(2);
+    });
+
+  });
+
+  describe('flex', () => {
+
+    it('should build flex bubble message', () => {
+      let bubble = Messages.bubble()
+        .hero(Flex.image('https://a/b.jpg', {size: 'full'}))
+        .body(Flex.box('vertical', [Flex.text('Title', {weight: 'bold'}), Flex.separator(), Flex.spacer()]))
+        .footer(Flex.box('horizontal', [Flex.button(action, {style: 'primary'}), Flex.filler()]))
+        .style('footer', {separator: true}),
+        message = Messages.flex('Card', bubble).build();
+
+      expect(message.contents).to.deep.include({type: 'bubble'});
+      expect((message.contents as LINEBot.FlexBubble).styles).to.deep.equal({footer: {separator: true}});
+      expect((message.contents as LINEBot.FlexBubble).hero).to.deep.equal({size: 'full', type: 'image', url: 'https://a/b.jpg'});
+    });
+
+    it('should build flex carousel message', () => {
+      let bubble = Messages.bubble().body(Flex.box('vertical', [Flex.text('One')])),
+        message = Messages.flex('Cards', Messages.flexCarousel().bubble(bubble).bubble(bubble.build())).build();
+
+      expect((message.contents as LINEBot.FlexCarousel).contents).to.have.lengthOf(2);
+    });
+
+    it('should throw when bubble has empty box', () => {
+      expect(() => Messages.bubble().body(Flex.box('vertical', [])).build()).to.throw('Invalid bubble.body.contents: box must have at least one component');
+    });
+
+  });
+
+  describe('build', () => {
+
+    it('should build and validate builders and plain messages together', () => {
+      expect(Messages.build(Messages.text('a'), {text: 'b', type: 'text'})).to.deep.equal([{text: 'a', type: 'text'}, {text: 'b', type: 'text'}]);
+    });
+
+    it('should throw when there are more than 5 messages', () => {
+      let text = Messages.text('a');
+
+      expect(() => Messages.build(text, text, text, text, text, text)).to.throw('at most 5 messages');
+    });
+
+  });
+
+});
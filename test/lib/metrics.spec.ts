@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { Metrics } from '../../lib/metrics';
+
+describe('Metrics', () => {
+  let metrics: Metrics;
+
+  beforeEach(() => {
+    metrics = new Metrics('test_')
+      .define('events_total', 'counter', 'Events received.')
+      .define('queue_size', 'gauge', 'Queue size.')
+      .define('duration_seconds', 'histogram', 'Duration.', [0.1, 1]);
+  });
+
+  describe('formatLabels', () => {
+    it('should sort and escape label values', () => {
+      expect(Metrics.formatLabels({type: 'a"b', channel: 'c\\d'})).to.equal('{channel="c\\\\d",type="a\\"b"}');
+      expect(Metrics.formatLabels({})).to.equal('');
+    });
+  });
+
+  describe('when recording unknown metrics', () => {
+    it('should throw an error', () => {
+      expect(() => metrics.increment('missing')).to.throw('Unknown metric test_missing\nPlease define it before recording values.');
+    });
+  });
+
+  describe('when recording with the wrong type', () => {
+    it('should throw an error', () => {
+      expect(() => metrics.observe('events_total', 1)).to.throw('Metric test_events_total is a counter, not a histogram');
+    });
+  });
+
+  describe('increment', () => {
+    it('should count by labels', () => {
+      metrics.increment('events_total', {type: 'message'});
+      metrics.increment('events_total', {type: 'message'});
+      metrics.increment('events_total', {type: 'follow'}, 3);
+
+      expect(metrics.get('events_total', {type: 'message'})).to.equal(2);
+      expect(metrics.get('events_total', {type: 'follow'})).to.equal(3);
+      expect(metrics.get('events_total', {type: 'join'})).to.equal(0);
+    });
+  });
+
+  describe('render', () => {
+    it('should render the Prometheus text format', () => {
+      metrics.increment('events_total', {type: 'message'});
+      metrics.set('queue_size', 4);
+      metrics.observe('duration_seconds', 0.05, {type: 'message'});
+      metrics.observe('duration_seconds', 0.5, {type: 'message'});
+
+      expect(metrics.render()).to.equal([
+        '# HELP test_events_total Events received.',
+        '# TYPE test_events_total counter',
+        'test_events_total{type="message"} 1',
+        '# HELP test_queue_size Queue size.',
+        '# TYPE test_queue_size gauge',
+        'test_queue_size 4',
+        '# HELP test_duration_seconds Duration.',
+        '# TYPE test_duration_seconds histogram',
+        'test_duration_seconds_bucket{le="0.1",type="message"} 1',
+        'test_duration_seconds_bucket{le="1",type="message"} 2',
+        'test_duration_seconds_bucket{le="+Inf",type="message"} 2',
+        'test_duration_seconds_sum{type="message"} 0.55',
+        'test_duration_seconds_count{type="message"} 2',
+        ''
+      ].join('\n'));
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear recorded values but keep definitions', () => {
+      metrics.increment('events_total');
+      metrics.reset();
+
+      expect(metrics.get('events_total')).to.equal(0);
+      expect(metrics.render()).to.contain('# TYPE test_events_total counter');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as _ from 'lodash';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {OutboundResult, OutboundSender} from '../../lib/outbound-sender';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function httpError(statusCode: number, retryAfter?: string) {
+  return new LINEBot.HTTPError('Request failed', statusCode, 'Error', {response: {headers: {'retry-after': retryAfter}}} as any);
+}
+
+describe('OutboundSender', () => {
+  let client: LINEBot.Client,
+    stubPush: SinonStub,
+    stubMulticast: SinonStub,
+    message: LINEBot.TextMessage = {text: 'hello', type: 'text'};
+
+  beforeEach(() => {
+    client = new LINEBot.Client({channelAccessToken: 'test'});
+    stubPush = sinon.stub(client, 'pushMessage').resolves({});
+    stubMulticast = sinon.stub(client, 'multicast').resolves({});
+  });
+
+  describe('push', () => {
+
+    it('should resolve with result after sending', async () => {
+      let sender = new OutboundSender(client),
+        sent = sinon.stub(),
+        result;
+
+      sender.on('sent', sent);
+      result = await sender.push('U1', message);
+
+      expect(stubPush.getCall(0).args).to.deep.equal(['U1', [message]]);
+      expect(result).to.deep.include({attempts: 1, method: 'push', to: 'U1'});
+      expect(sent.getCall(0).args[0].id).to.equal(result.id);
+    });
+
+    it('should reject invalid messages without calling client', () => {
+      expect(() => new OutboundSender(client).push('U1', {text: '', type: 'text'})).to.throw('Invalid messages[0].text');
+      expect(stubPush.called).to.be.false;
+    });
+
+    describe('when request fails with retryable status', () => {
+
+      it('should retry with exponential backoff', async () => {
+        let sender = new OutboundSender(client, {retryDelay: 5}),
+          retry = sinon.stub();
+
+        stubPush.onFirstCall().rejects(httpError(500));
+        stubPush.onSecondCall().rejects(httpError(429));
+        sender.on('retry', retry);
+
+        expect((await sender.push('U1', message)).attempts).to.equal(3);
+        expect(retry.getCall(0).args[1]).to.equal(5);
+        expect(retry.getCall(1).args[1]).to.equal(10);
+      });
+
+      it('should fail after max retries', async () => {
+        let sender = new OutboundSender(client, {maxRetries: 2, retryDelay: 1}),
+          failed = sinon.stub();
+
+        stubPush.rejects(httpError(503));
+        sender.on('failed', failed);
+
+        await expect(sender.push('U1', message)).to.eventually.rejectedWith('Request failed');
+        expect(stubPush.callCount).to.equal(3);
+        expect(failed.getCall(0).args[0].attempts).to.equal(3);
+      });
+
+    });
+
+    describe('when request fails with non-retryable status', () => {
+
+      it('should reject without retry', async () => {
+        let sender = new OutboundSender(client, {retryDelay: 1});
+
+        stubPush.rejects(httpError(400));
+
+        await expect(sender.push('U1', message)).to.eventually.rejectedWith('Request failed');
+        expect(stubPush.calledOnce).to.be.true;
+      });
+
+    });
+
+  });
+
+  describe('getRetryDelay', () => {
+    let sender: OutboundSender;
+
+    beforeEach(() => {
+      sender = new OutboundSender(client, {maxRetryDelay: 5000, retryDelay: 1000});
+    });
+
+    it('should cap delay at max retry delay', () => {
+      expect(sender.getRetryDelay(10, httpError(500))).to.equal(5000);
+    });
+
+    it('should respect Retry-After header', () => {
+      expect(sender.getRetryDelay(1, httpError(429, '3'))).to.equal(3000);
+    });
+
+    it('should ignore Retry-After of errors that did not come from the API', () => {
+      let error = Object.assign(new Error('Request failed'), {originalError: {response: {headers: {'retry-after': '3'}}}});
+
+      expect(OutboundSender.getRetryAfter(error)).to.be.undefined;
+    });
+
+  });
+
+  describe('multicast', () => {
+
+    it('should chunk recipients to the multicast limit', async () => {
+      let sender = new OutboundSender(client),
+        recipients = _.times(320, (i) => 'U' + i),
+        results: OutboundResult[] = await sender.multicast(recipients, message);
+
+      expect(stubMulticast.callCount).to.equal(3);
+      expect(stubMulticast.getCall(0).args[0]).to.have.lengthOf(150);
+      expect(stubMulticast.getCall(2).args[0]).to.have.lengthOf(20);
+      expect(results.map((result) => result.method)).to.deep.equal(['multicast', 'multicast', 'multicast']);
+    });
+
+  });
+
+  describe('rate limit', () => {
+
+    it('should space out requests', async () => {
+      let sender = new OutboundSender(client, {rateLimit: 50}),
+        started = Date.now();
+
+      await Promise.all([sender.push('U1', message), sender.push('U2', message), sender.push('U3', message)]);
+
+      expect(Date.now() - started).to.be.at.least(35);
+    });
+
+  });
+
+  describe('drain', () => {
+
+    it('should resolve when every job is settled', async () => {
+      let sender = new OutboundSender(client, {retryDelay: 1});
+
+      stubPush.onFirstCall().rejects(httpError(500));
+      sender.push('U1', message);
+      sender.push('U2', message);
+
+      expect(sender.pending).to.equal(2);
+      await sender.drain();
+      expect(sender.pending).to.equal(0);
+      expect(stubPush.callCount).to.equal(3);
+    });
+
+  });
+
+});
@@ -0,0 +1,77 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {EventContext} from '../../lib/event-context';
+import {Postback} from '../../lib/postback';
+import {PostbackRouter} from '../../lib/postback-router';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function postbackEvent(postback: LINEBot.Postback): LINEBot.PostbackEvent {
+  return {postback, replyToken: 'r', source: {type: 'user', userId: 'U1'}, timestamp: 1, type: 'postback'};
+}
+
+describe('PostbackRouter', () => {
+  let context = {reply: () => Promise.resolve()} as any as EventContext;
+
+  describe('on', () => {
+
+    describe('when action name is invalid', () => {
+
+      it('should throw an error', () => {
+        expect(() => new PostbackRouter().on('a b', () => undefined)).to.throw('Invalid postback action name: a b');
+      });
+
+    });
+
+  });
+
+  describe('handle', () => {
+    let router: PostbackRouter,
+      orderHandler: SinonStub,
+      dateHandler: SinonStub;
+
+    beforeEach(() => {
+      orderHandler = sinon.stub();
+      dateHandler = sinon.stub();
+      router = new PostbackRouter().on('order', orderHandler).on('booking.date', dateHandler);
+    });
+
+    it('should dispatch decoded payload to action handler', async () => {
+      let event = postbackEvent({data: Postback.encode('order', {id: 3})});
+
+      expect(await router.handle(event, context)).to.be.true;
+      expect(orderHandler.getCall(0).args[0]).to.deep.include({action: 'order', event, payload: {id: 3}});
+      expect(orderHandler.getCall(0).args[1]).to.equal(context);
+    });
+
+    it('should pass datetime picker params', async () => {
+      await router.handle(postbackEvent({data: 'booking.date', params: {date: '2018-12-25'}}), context);
+
+      expect(dateHandler.getCall(0).args[0].params).to.deep.equal({date: '2018-12-25'});
+    });
+
+    describe('when no handler matches', () => {
+
+      it('should resolve false without fallback', () => {
+        return expect(router.handle(postbackEvent({data: 'unknown'}), context)).to.eventually.be.false;
+      });
+
+      it('should call fallback with raw data', async () => {
+        let fallback = sinon.stub();
+
+        router.fallback(fallback);
+        await router.handle(postbackEvent({data: 'action=buy'}), context);
+
+        expect(fallback.getCall(0).args[0]).to.deep.include({action: '', data: 'action=buy'});
+      });
+
+    });
+
+  });
+
+});
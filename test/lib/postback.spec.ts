@@ -0,0 +1,78 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as _ from 'lodash';
+import {Postback} from '../../lib/postback';
+
+const expect = chai.expect;
+
+describe('Postback', () => {
+
+  describe('encode', () => {
+
+    it('should encode action without payload', () => {
+      expect(Postback.encode('menu')).to.equal('menu');
+    });
+
+    it('should encode action with payload', () => {
+      expect(Postback.encode('order.add', {id: 3, size: 'L'})).to.equal('order.add:{"id":3,"size":"L"}');
+    });
+
+    describe('when action name is invalid', () => {
+
+      it('should throw an error', () => {
+        expect(() => Postback.encode('order add')).to.throw('Invalid postback action name: order add');
+      });
+
+    });
+
+    describe('when data exceeds limit', () => {
+
+      it('should throw an error', () => {
+        expect(() => Postback.encode('note', {text: _.repeat('a', 300)})).to.throw('Postback data of note is 316 characters long');
+      });
+
+    });
+
+  });
+
+  describe('decode', () => {
+
+    it('should decode encoded data', () => {
+      expect(Postback.decode(Postback.encode('order.add', {id: 3}))).to.deep.equal({action: 'order.add', payload: {id: 3}});
+    });
+
+    it('should decode action without payload', () => {
+      expect(Postback.decode('menu')).to.deep.equal({action: 'menu'});
+    });
+
+    it('should not decode foreign data', () => {
+      expect(Postback.decode('action=buy&itemid=111')).to.be.undefined;
+      expect(Postback.decode('order:{broken')).to.be.undefined;
+    });
+
+  });
+
+  describe('action', () => {
+
+    it('should create postback action', () => {
+      expect(Postback.action('Buy', 'buy', {id: 1}, {displayText: 'Buy it'})).to.deep.equal({
+        data: 'buy:{"id":1}',
+        displayText: 'Buy it',
+        label: 'Buy',
+        type: 'postback'
+      });
+    });
+
+  });
+
+  describe('datetimePicker', () => {
+
+    it('should create datetime picker action', () => {
+      let action = Postback.datetimePicker('Pick', 'date', 'booking.date', undefined, {min: '2018-01-01'}) as LINEBot.DatetimePickerAction;
+
+      expect(action).to.deep.equal({data: 'booking.date', label: 'Pick', min: '2018-01-01', mode: 'date', type: 'datetimepicker'});
+    });
+
+  });
+
+});
@@ -0,0 +1,189 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {ProfileManager} from '../../lib/profile-manager';
+import {WebhookEvents} from '../../lib/webhook-events';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('ProfileManager', () => {
+  let manager: ProfileManager,
+    client: LINEBot.Client,
+    getProfile: SinonStub,
+    getGroupMemberProfile: SinonStub,
+    getRoomMemberProfile: SinonStub,
+    user: LINEBot.EventSource = {type: 'user', userId: 'U1'},
+    member: LINEBot.EventSource = {groupId: 'G1', type: 'group', userId: 'U1'};
+
+  const profile = (userId: string): LINEBot.Profile => ({displayName: 'User ' + userId, pictureUrl: '', statusMessage: '', userId});
+
+  beforeEach(() => {
+    manager = new ProfileManager();
+    getProfile = sinon.stub().callsFake((...args: string[]) => Promise.resolve(profile(args[0])));
+    getGroupMemberProfile = sinon.stub().callsFake((...args: string[]) => Promise.resolve(profile(args[1])));
+    getRoomMemberProfile = sinon.stub().callsFake((...args: string[]) => Promise.resolve(profile(args[1])));
+    client = {getGroupMemberProfile, getProfile, getRoomMemberProfile} as any as LINEBot.Client;
+  });
+
+  describe('get', () => {
+
+    describe('when the source is a user', () => {
+
+      it('should get the user profile', async () => {
+        expect(await manager.get(client, user)).to.deep.equal(profile('U1'));
+        expect(getProfile.calledWith('U1')).to.be.true;
+      });
+    });
+
+    describe('when the source is a group or room member', () => {
+
+      it('should get the member profile', async () => {
+        await manager.get(client, member);
+        await manager.get(client, {roomId: 'R1', type: 'room', userId: 'U2'});
+
+        expect(getGroupMemberProfile.calledWith('G1', 'U1')).to.be.true;
+        expect(getRoomMemberProfile.calledWith('R1', 'U2')).to.be.true;
+      });
+    });
+
+    describe('when the source has no user', () => {
+
+      it('should resolve undefined without calling the API', async () => {
+        expect(await manager.get(client, {groupId: 'G1', type: 'group'})).to.be.undefined;
+        expect(getGroupMemberProfile.called).to.be.false;
+      });
+    });
+
+    describe('when the profile was fetched before', () => {
+
+      it('should return the cached profile', async () => {
+        await manager.get(client, user);
+        await manager.get(client, user);
+
+        expect(getProfile.calledOnce).to.be.true;
+      });
+
+      it('should cache profiles per scope', async () => {
+        await manager.get(client, user, 'a');
+        await manager.get(client, user, 'b');
+
+        expect(getProfile.calledTwice).to.be.true;
+      });
+
+      it('should fetch the profile again after the ttl', async () => {
+        const clock = sinon.useFakeTimers(Date.now());
+
+        try {
+          manager.ttl = 1000;
+          await manager.get(client, user);
+          clock.tick(1001);
+          await manager.get(client, user);
+        } finally {
+          clock.restore();
+        }
+
+        expect(getProfile.calledTwice).to.be.true;
+      });
+    });
+
+    describe('when profiles are requested at the same time', () => {
+
+      it('should call the API once', async () => {
+        const profiles = await Promise.all([manager.get(client, user), manager.get(client, user)]);
+
+        expect(profiles[0]).to.equal(profiles[1]);
+        expect(getProfile.calledOnce).to.be.true;
+      });
+    });
+
+    describe('when the cache is full', () => {
+
+      it('should evict the least recently used profile', async () => {
+        manager.maxSize = 2;
+        await manager.get(client, {type: 'user', userId: 'U1'});
+        await manager.get(client, {type: 'user', userId: 'U2'});
+        await manager.get(client, {type: 'user', userId: 'U1'});
+        await manager.get(client, {type: 'user', userId: 'U3'});
+        getProfile.resetHistory();
+        await manager.get(client, {type: 'user', userId: 'U1'});
+        await manager.get(client, {type: 'user', userId: 'U2'});
+
+        expect(manager.size).to.equal(2);
+        expect(getProfile.args).to.deep.equal([['U2']]);
+      });
+    });
+
+    describe('when the profile does not exist', () => {
+
+      it('should resolve undefined', async () => {
+        getProfile.rejects(Object.assign(new Error('Not found'), {statusCode: 404}));
+
+        expect(await manager.get(client, user)).to.be.undefined;
+      });
+    });
+
+    describe('when the API fails', () => {
+
+      it('should reject and not cache the failure', async () => {
+        getProfile.onFirstCall().rejects(Object.assign(new Error('Server error'), {statusCode: 500}));
+
+        await expect(manager.get(client, user)).to.be.rejectedWith('Server error');
+        expect(await manager.get(client, user)).to.deep.equal(profile('U1'));
+      });
+    });
+  });
+
+  describe('invalidate', () => {
+
+    describe('when a user unfollows', () => {
+
+      it('should forget the user profile', async () => {
+        await manager.get(client, user);
+        manager.invalidate(WebhookEvents.unfollow({source: user}));
+        await manager.get(client, user);
+
+        expect(getProfile.calledTwice).to.be.true;
+      });
+    });
+
+    describe('when the bot leaves a group', () => {
+
+      it('should forget the member profiles of the group only', async () => {
+        await manager.get(client, member);
+        await manager.get(client, {groupId: 'G2', type: 'group', userId: 'U1'});
+        manager.invalidate(WebhookEvents.leave({source: {groupId: 'G1', type: 'group'}}));
+
+        expect(manager.size).to.equal(1);
+      });
+    });
+
+    describe('when members leave a group', () => {
+
+      it('should forget their member profiles', async () => {
+        await manager.get(client, member);
+        await manager.get(client, {groupId: 'G1', type: 'group', userId: 'U2'});
+        manager.invalidate(WebhookEvents.memberLeft(['U1'], {source: {groupId: 'G1', type: 'group'}}));
+        await manager.get(client, member);
+
+        expect(getGroupMemberProfile.args).to.deep.equal([['G1', 'U1'], ['G1', 'U2'], ['G1', 'U1']]);
+      });
+    });
+
+    describe('when a lookup is in flight', () => {
+
+      it('should not cache its result', async () => {
+        const fetching = manager.get(client, user);
+
+        manager.invalidate(WebhookEvents.unfollow({source: user}));
+        await fetching;
+
+        expect(manager.size).to.equal(0);
+      });
+    });
+  });
+
+});
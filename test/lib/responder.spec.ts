@@ -0,0 +1,202 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {OutboundSender} from '../../lib/outbound-sender';
+import {Responder} from '../../lib/responder';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function followEvent(timestamp: number = Date.now(), source: LINEBot.EventSource = {type: 'user', userId: 'U1'}): LINEBot.FollowEvent {
+  return {replyToken: 'testReplyToken', source, timestamp, type: 'follow'};
+}
+
+function httpError(statusCode: number, message: string) {
+  return new LINEBot.HTTPError('Request failed with status code ' + statusCode, statusCode, 'Bad Request',
+    {response: {data: {message}}} as any);
+}
+
+function text(value: string): LINEBot.TextMessage {
+  return {text: value, type: 'text'};
+}
+
+describe('Responder', () => {
+  let client: LINEBot.Client,
+    stubReply: SinonStub,
+    stubPush: SinonStub;
+
+  beforeEach(() => {
+    client = new LINEBot.Client({channelAccessToken: 'test'});
+    stubReply = sinon.stub(client, 'replyMessage').resolves({});
+    stubPush = sinon.stub(client, 'pushMessage').resolves({});
+  });
+
+  describe('getSourceId', () => {
+
+    it('should return user, group or room id', () => {
+      expect(Responder.getSourceId({type: 'user', userId: 'U1'})).to.equal('U1');
+      expect(Responder.getSourceId({groupId: 'G1', type: 'group', userId: 'U1'})).to.equal('G1');
+      expect(Responder.getSourceId({roomId: 'R1', type: 'room'})).to.equal('R1');
+    });
+
+  });
+
+  describe('reply', () => {
+
+    describe('when reply token is fresh', () => {
+
+      it('should merge replies of the same tick into one reply call', async () => {
+        let responder = new Responder(client, followEvent());
+
+        await Promise.all([responder.reply(text('a')), responder.reply([text('b'), text('c')])]);
+
+        expect(stubReply.calledOnce).to.be.true;
+        expect(stubReply.getCall(0).args).to.deep.equal(['testReplyToken', [text('a'), text('b'), text('c')]]);
+        expect(stubPush.called).to.be.false;
+      });
+
+      it('should push messages beyond the 5 message limit', async () => {
+        let responder = new Responder(client, followEvent());
+
+        await Promise.all([
+          responder.reply([text('1'), text('2'), text('3')]),
+          responder.reply([text('4'), text('5'), text('6')])
+        ]);
+
+        expect(stubReply.getCall(0).args[1]).to.have.lengthOf(5);
+        expect(stubPush.getCall(0).args).to.deep.equal(['U1', [text('6')]]);
+      });
+
+      it('should only reject replies in chunks that failed', async () => {
+        let responder = new Responder(client, followEvent()),
+          results: string[] = [],
+          settle = (name: string, promise: Promise<any>) => promise.then(
+            (response) => results.push(name + ':' + response), (err) => results.push(name + ':' + err.message));
+
+        stubReply.resolves('replied');
+        stubPush.rejects(new Error('Push failed'));
+        await Promise.all([
+          settle('first', responder.reply([text('1'), text('2'), text('3')])),
+          settle('second', responder.reply([text('4'), text('5'), text('6')])),
+          settle('third', responder.reply(text('7')))
+        ]);
+
+        expect(results).to.deep.equal(['first:replied', 'second:Push failed', 'third:Push failed']);
+      });
+
+    });
+
+    describe('when reply token is already used', () => {
+
+      it('should push later replies to the source', async () => {
+        let responder = new Responder(client, followEvent(Date.now(), {groupId: 'G1', type: 'group'}));
+
+        await responder.reply(text('a'));
+        await responder.reply(text('b'));
+
+        expect(stubReply.calledOnce).to.be.true;
+        expect(stubPush.getCall(0).args).to.deep.equal(['G1', [text('b')]]);
+      });
+
+    });
+
+    describe('when reply token is expired', () => {
+
+      it('should push without calling reply', async () => {
+        let responder = new Responder(client, followEvent(Date.now() - 1000), {replyTokenTtl: 500});
+
+        await responder.reply(text('a'));
+
+        expect(stubReply.called).to.be.false;
+        expect(stubPush.calledOnce).to.be.true;
+      });
+
+    });
+
+    describe('when reply is rejected as invalid token', () => {
+
+      it('should fall back to push', async () => {
+        let responder = new Responder(client, followEvent());
+
+        stubReply.rejects(httpError(400, 'Invalid reply token'));
+        await responder.reply(text('a'));
+
+        expect(stubPush.getCall(0).args).to.deep.equal(['U1', [text('a')]]);
+      });
+
+    });
+
+    describe('when reply is rejected as a bad request', () => {
+
+      it('should reject without pushing', async () => {
+        let responder = new Responder(client, followEvent());
+
+        stubReply.rejects(httpError(400, 'The request body has 1 error(s)'));
+
+        await expect(responder.reply(text('a'))).to.eventually.rejectedWith('Request failed with status code 400');
+        expect(stubPush.called).to.be.false;
+      });
+
+    });
+
+    describe('when reply fails with other error', () => {
+
+      it('should reject every merged reply', async () => {
+        let responder = new Responder(client, followEvent()),
+          first, second;
+
+        stubReply.rejects(new LINEBot.HTTPError('Server error', 500, 'Error', new Error()));
+        first = responder.reply(text('a'));
+        second = responder.reply(text('b'));
+
+        await expect(first).to.eventually.rejectedWith('Server error');
+        await expect(second).to.eventually.rejectedWith('Server error');
+      });
+
+    });
+
+    describe('when sender is provided', () => {
+
+      it('should push through the sender', async () => {
+        let sender = new OutboundSender(client),
+          stubSenderPush = sinon.stub(sender, 'push').resolves({}),
+          responder = new Responder(client, followEvent(1), {sender});
+
+        await responder.reply(text('a'));
+
+        expect(stubSenderPush.getCall(0).args).to.deep.equal(['U1', [text('a')]]);
+      });
+
+    });
+
+  });
+
+  describe('push', () => {
+
+    it('should reject invalid messages instead of throwing', async () => {
+      let responder = new Responder(client, followEvent()),
+        pushing = responder.push([]);
+
+      await expect(pushing).to.eventually.rejectedWith(Error);
+      expect(stubPush.called).to.be.false;
+    });
+
+  });
+
+  describe('flush', () => {
+
+    it('should send pending replies immediately', async () => {
+      let responder = new Responder(client, followEvent());
+
+      responder.reply(text('a'));
+      await responder.flush();
+
+      expect(stubReply.calledOnce).to.be.true;
+    });
+
+  });
+
+});
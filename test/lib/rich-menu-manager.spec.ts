@@ -0,0 +1,149 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {ApiEmulator} from '../../lib/api-emulator';
+import {LINEClient} from '../../lib/line-client';
+import {RichMenuDefinition, RichMenuManager} from '../../lib/rich-menu-manager';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('RichMenuManager', () => {
+  let emulator: ApiEmulator,
+    client: LINEBot.Client,
+    dir: string,
+    menu: (name: string, options?: Partial<RichMenuDefinition>) => RichMenuDefinition;
+
+  before(async () => {
+    emulator = new ApiEmulator({channelAccessToken: 'test'});
+    await emulator.start();
+    client = LINEClient.create({apiBaseURL: emulator.baseURL, channelAccessToken: 'test', channelSecret: 'test'});
+  });
+
+  beforeEach(async () => {
+    emulator.reset();
+    emulator.richMenus = {};
+    emulator.richMenuImages = {};
+    emulator.userRichMenus = {};
+    emulator.defaultRichMenuId = undefined;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rich-menu-'));
+    await fs.writeFile(path.join(dir, 'guest.png'), 'guest image');
+    await fs.writeFile(path.join(dir, 'member.jpg'), 'member image');
+    menu = (name, options) => ({
+      areas: [{action: {data: 'action=' + name, type: 'postback'}, bounds: {height: 843, width: 2500, x: 0, y: 0}}],
+      chatBarText: name,
+      image: path.join(dir, name === 'guest' ? 'guest.png' : 'member.jpg'),
+      name,
+      selected: false,
+      size: {height: 843, width: 2500},
+      ...options
+    });
+  });
+
+  afterEach(() => fs.remove(dir));
+
+  after(() => emulator.stop());
+
+  describe('fromFile', () => {
+    it('should resolve images relative to the file', async () => {
+      const fileName = path.join(dir, 'menus.json');
+
+      await fs.writeJson(fileName, {menus: [{...menu('guest'), image: 'guest.png'}]});
+
+      expect(RichMenuManager.fromFile(fileName)[0].image).to.equal(path.join(dir, 'guest.png'));
+    });
+  });
+
+  describe('when two menus are the default', () => {
+    it('should throw an error', () => {
+      expect(() => new RichMenuManager(client, {menus: [menu('guest', {default: true}), menu('member', {default: true})]}))
+        .to.throw('Rich menu guest is already the default\nPlease set default on a single rich menu.');
+    });
+  });
+
+  describe('sync', () => {
+    it('should create menus, upload images and set the default', async () => {
+      const manager = new RichMenuManager(client, {menus: [menu('guest', {default: true}), menu('member')]});
+      const result = await manager.sync();
+
+      expect(result.created).to.deep.equal(['guest', 'member']);
+      expect(result.defaultRichMenuId).to.equal(manager.ids.guest);
+      expect(emulator.defaultRichMenuId).to.equal(manager.ids.guest);
+      expect(emulator.richMenuImages[manager.ids.member]).to.deep.equal({
+        contentType: 'image/jpeg',
+        data: new Buffer('member image')
+      });
+    });
+
+    it('should be idempotent', async () => {
+      await new RichMenuManager(client, {menus: [menu('guest', {default: true}), menu('member')]}).sync();
+      emulator.reset();
+
+      const result = await new RichMenuManager(client, {menus: [menu('guest', {default: true}), menu('member')]}).sync();
+
+      expect(result).to.deep.include({created: [], deletedIds: [], unchanged: ['guest', 'member']});
+      expect(emulator.callsTo('richmenu', 'POST')).to.have.length(0);
+      expect(emulator.callsTo(/^user\/all\/richmenu\//, 'POST')).to.have.length(0);
+    });
+
+    it('should replace changed menus and keep menus it does not declare', async () => {
+      const first = new RichMenuManager(client, {menus: [menu('guest'), menu('member')]});
+
+      await first.sync();
+      await fs.writeFile(path.join(dir, 'guest.png'), 'new guest image');
+
+      const second = new RichMenuManager(client, {menus: [menu('guest')]});
+      const result = await second.sync();
+
+      expect(result.created).to.deep.equal(['guest']);
+      expect(result.deletedIds).to.deep.equal([first.ids.guest]);
+      expect(Object.keys(emulator.richMenus)).to.have.members([first.ids.member, second.ids.guest]);
+    });
+
+    it('should delete menus it does not declare when deleteStale is true', async () => {
+      const richMenuId = await client.createRichMenu(RichMenuManager.toRichMenu(menu('console')));
+      const manager = new RichMenuManager(client, {deleteStale: true, menus: [menu('guest')]});
+      const result = await manager.sync();
+
+      expect(result.deletedIds).to.deep.equal([richMenuId]);
+      expect(Object.keys(emulator.richMenus)).to.deep.equal([manager.ids.guest]);
+    });
+  });
+
+  describe('link', () => {
+    it('should link and unlink menus per user', async () => {
+      const manager = new RichMenuManager(client, {menus: [menu('guest'), menu('member')]});
+
+      await manager.sync();
+      await manager.link('U1', 'member');
+
+      expect(emulator.userRichMenus.U1).to.equal(manager.ids.member);
+      expect(await manager.getUserMenu('U1')).to.equal('member');
+
+      await manager.unlink('U1');
+
+      expect(await manager.getUserMenu('U1')).to.equal(undefined);
+    });
+
+    it('should find synced menus without syncing again', async () => {
+      await new RichMenuManager(client, {menus: [menu('member')]}).sync();
+
+      const manager = new RichMenuManager(client, {menus: [menu('member')]});
+
+      await manager.link('U1', 'member');
+
+      expect(emulator.userRichMenus.U1).to.equal(manager.ids.member);
+    });
+
+    it('should reject unknown and unsynced menus', async () => {
+      const manager = new RichMenuManager(client, {menus: [menu('member')]});
+
+      await expect(manager.link('U1', 'admin')).to.be.rejectedWith('Unknown rich menu admin');
+      await expect(manager.link('U1', 'member')).to.be.rejectedWith('Rich menu member is not synced');
+    });
+  });
+});
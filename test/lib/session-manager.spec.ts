@@ -0,0 +1,101 @@
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {BotEvent} from '../../lib/event-types';
+import {MemoryStore} from '../../lib/memory-store';
+import {SessionData} from '../../lib/session';
+import {SessionManager} from '../../lib/session-manager';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+describe('SessionManager', () => {
+  let userEvent: BotEvent = {type: 'follow', replyToken: 'r', source: {type: 'user', userId: 'U1'}, timestamp: 1},
+    groupEvent: BotEvent = {type: 'join', replyToken: 'r', source: {type: 'group', groupId: 'G1'}, timestamp: 1};
+
+  describe('getSourceKey', () => {
+
+    it('should key user, group and room sources by their ids', () => {
+      expect(SessionManager.getSourceKey({type: 'user', userId: 'U1'})).to.equal('user:U1');
+      expect(SessionManager.getSourceKey({type: 'group', groupId: 'G1', userId: 'U1'})).to.equal('group:G1');
+      expect(SessionManager.getSourceKey({type: 'room', roomId: 'R1', userId: 'U1'})).to.equal('room:R1');
+    });
+
+  });
+
+  describe('load and save', () => {
+    let manager: SessionManager;
+
+    before(async () => {
+      let session;
+
+      manager = new SessionManager();
+      session = await manager.load(userEvent, 'c1');
+      session.set('step', 2);
+      await manager.save(session);
+    });
+
+    it('should restore data of the same source', async () => {
+      let session = await manager.load(userEvent, 'c1');
+
+      expect(session.get('step')).to.equal(2);
+    });
+
+    it('should not share data between sources', async () => {
+      let session = await manager.load(groupEvent, 'c1');
+
+      expect(session.get('step', 0)).to.equal(0);
+    });
+
+    it('should not share data between channels', async () => {
+      let session = await manager.load(userEvent, 'c2');
+
+      expect(session.get('step', 0)).to.equal(0);
+    });
+
+  });
+
+  describe('when session is destroyed', () => {
+    let store: MemoryStore<SessionData>,
+      stubDelete: SinonStub;
+
+    before(async () => {
+      let manager, session;
+
+      store = new MemoryStore<SessionData>();
+      stubDelete = sinon.stub(store, 'delete').resolves();
+      manager = new SessionManager({store});
+      session = await manager.load(userEvent, 'c1');
+      session.destroy();
+      await manager.save(session);
+    });
+
+    it('should delete session from store', () => {
+      expect(stubDelete.getCall(0).args[0]).to.equal('c1:user:U1');
+    });
+
+  });
+
+  describe('when ttl and key resolver are provided', () => {
+    let store: MemoryStore<SessionData>,
+      stubSet: SinonStub;
+
+    before(async () => {
+      let manager;
+
+      store = new MemoryStore<SessionData>();
+      stubSet = sinon.stub(store, 'set').resolves();
+      manager = new SessionManager({getKey: (event, channelId) => channelId + ':custom:' + event.type, store, ttl: 1000});
+      await manager.save(await manager.load(userEvent, 'c1'));
+    });
+
+    it('should save with custom key and ttl', () => {
+      expect(stubSet.getCall(0).args[0]).to.equal('c1:custom:follow');
+      expect(stubSet.getCall(0).args[2]).to.equal(1000);
+    });
+
+  });
+
+});
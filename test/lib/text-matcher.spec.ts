@@ -0,0 +1,173 @@
+import * as LINEBot from '@line/bot-sdk';
+import * as chai from 'chai';
+import * as ChaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {EventContext} from '../../lib/event-context';
+import {TextEvent, TextMatcher} from '../../lib/text-matcher';
+
+chai.use(ChaiAsPromised);
+
+const expect = chai.expect;
+
+function textEvent(text: string): TextEvent {
+  return {
+    message: {id: '1', text, type: 'text'},
+    replyToken: 'replyToken',
+    source: {type: 'user', userId: 'U1'},
+    timestamp: 1,
+    type: 'message'
+  };
+}
+
+describe('TextMatcher', () => {
+  let context = {client: {} as LINEBot.Client, reply: () => Promise.resolve()} as any as EventContext;
+
+  describe('parseArgs', () => {
+
+    it('should split arguments by whitespace', () => {
+      expect(TextMatcher.parseArgs('3  latte')).to.deep.equal(['3', 'latte']);
+    });
+
+    it('should keep quoted arguments together', () => {
+      expect(TextMatcher.parseArgs('"iced latte" \'no sugar\' 2')).to.deep.equal(['iced latte', 'no sugar', '2']);
+    });
+
+  });
+
+  describe('keyword', () => {
+    let matcher: TextMatcher;
+
+    before(() => {
+      matcher = new TextMatcher().keyword(['hello', 'hi'], () => undefined);
+    });
+
+    it('should match any keyword ignoring case and surrounding spaces', () => {
+      let result = matcher.match(textEvent('  Hi '));
+
+      expect(result && result.match.type).to.equal('keyword');
+      expect(result && result.match.keyword).to.equal('hi');
+    });
+
+    it('should not match other text', () => {
+      expect(matcher.match(textEvent('hi there'))).to.be.undefined;
+    });
+
+    describe('when case sensitive', () => {
+
+      it('should not match different case', () => {
+        let sensitive = new TextMatcher().keyword('Hello', () => undefined, {caseSensitive: true});
+
+        expect(sensitive.match(textEvent('hello'))).to.be.undefined;
+        expect(sensitive.match(textEvent('Hello'))).not.to.be.undefined;
+      });
+
+    });
+
+  });
+
+  describe('command', () => {
+    let matcher: TextMatcher;
+
+    before(() => {
+      matcher = new TextMatcher()
+        .command('order', () => undefined)
+        .command('help', () => undefined, {prefix: '!'});
+    });
+
+    it('should parse command arguments', () => {
+      let result = matcher.match(textEvent('/order 3 latte'));
+
+      expect(result && result.match.command).to.equal('order');
+      expect(result && result.match.args).to.deep.equal(['3', 'latte']);
+      expect(result && result.match.argsText).to.equal('3 latte');
+    });
+
+    it('should match command without arguments', () => {
+      let result = matcher.match(textEvent('/ORDER'));
+
+      expect(result && result.match.args).to.deep.equal([]);
+    });
+
+    it('should not match command as a prefix of another word', () => {
+      expect(matcher.match(textEvent('/orders'))).to.be.undefined;
+    });
+
+    it('should support custom prefix', () => {
+      expect(matcher.match(textEvent('!help'))).not.to.be.undefined;
+      expect(matcher.match(textEvent('/help'))).to.be.undefined;
+    });
+
+  });
+
+  describe('pattern', () => {
+
+    it('should provide capture groups', () => {
+      let matcher = new TextMatcher().pattern(/^track (\d+)$/i, () => undefined),
+        result = matcher.match(textEvent('Track 12345'));
+
+      expect(result && result.match.type).to.equal('pattern');
+      expect(result && result.match.match && result.match.match[1]).to.equal('12345');
+    });
+
+    it('should match repeatedly with global patterns', () => {
+      let matcher = new TextMatcher().pattern(/\d+/g, () => undefined);
+
+      expect(matcher.match(textEvent('a 1'))).not.to.be.undefined;
+      expect(matcher.match(textEvent('a 1'))).not.to.be.undefined;
+    });
+
+  });
+
+  describe('priority', () => {
+
+    it('should use the highest priority rule first', () => {
+      let low = sinon.stub(),
+        high = sinon.stub(),
+        matcher = new TextMatcher()
+          .pattern(/.*/, low)
+          .keyword('menu', high, {priority: 10}),
+        result = matcher.match(textEvent('menu'));
+
+      expect(result && result.handler).to.equal(high);
+    });
+
+    it('should use registration order for equal priority', () => {
+      let first = sinon.stub(),
+        second = sinon.stub(),
+        matcher = new TextMatcher().pattern(/.*/, first).pattern(/.*/, second),
+        result = matcher.match(textEvent('anything'));
+
+      expect(result && result.handler).to.equal(first);
+    });
+
+  });
+
+  describe('handle', () => {
+
+    describe('when nothing matches and fallback is set', () => {
+      let fallback: SinonStub;
+
+      before(() => {
+        fallback = sinon.stub();
+        return new TextMatcher().keyword('hello', () => undefined).fallback(fallback).handle(textEvent('bye'), context);
+      });
+
+      it('should call fallback handler with context', () => {
+        expect(fallback.getCall(0).args[0].type).to.equal('fallback');
+        expect(fallback.getCall(0).args[1]).to.equal(context);
+      });
+
+    });
+
+    describe('when nothing matches and fallback is not set', () => {
+
+      it('should resolve false', () => {
+        return expect(new TextMatcher().handle(textEvent('bye'), context)).to.eventually.be.false;
+      });
+
+    });
+
+  });
+
+});
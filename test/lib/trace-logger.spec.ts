@@ -0,0 +1,122 @@
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import {SinonStub} from 'sinon';
+import {Logger} from '../../lib/logger';
+import {TraceLogger} from '../../lib/trace-logger';
+
+const expect = chai.expect;
+
+describe('TraceLogger', () => {
+  let logger: Logger,
+    trace: TraceLogger,
+    userId = 'U' + '0123456789abcdef'.repeat(2);
+
+  beforeEach(() => {
+    logger = {debug: sinon.stub(), error: sinon.stub(), info: sinon.stub(), warn: sinon.stub()};
+    trace = new TraceLogger({logger});
+  });
+
+  describe('log', () => {
+
+    describe('when the level is below the configured level', () => {
+
+      it('should not write the entry', () => {
+        trace.debug('Hidden');
+        trace.info('Shown');
+
+        expect((logger.debug as SinonStub).called).to.be.false;
+        expect((logger.info as SinonStub).calledWith('Shown', {})).to.be.true;
+      });
+
+      it('should write nothing when silent', () => {
+        trace.level = 'silent';
+        trace.error('Hidden');
+
+        expect((logger.error as SinonStub).called).to.be.false;
+      });
+    });
+
+    describe('when fields contain errors', () => {
+
+      it('should serialize the error', () => {
+        trace.error('Failed', {error: Object.assign(new Error('Not found'), {statusCode: 404})});
+
+        const fields = (logger.error as SinonStub).getCall(0).args[1];
+
+        expect(fields.error).to.include({message: 'Not found', statusCode: 404});
+        expect(fields.error.stack).to.be.a('string');
+      });
+    });
+
+    describe('when the logger throws', () => {
+
+      it('should swallow the error', () => {
+        (logger.info as SinonStub).throws(new Error('Disk full'));
+
+        expect(() => trace.info('Hello')).not.to.throw();
+      });
+    });
+  });
+
+  describe('sanitize', () => {
+
+    describe('when redaction is enabled', () => {
+
+      it('should redact tokens and secrets', () => {
+        expect(TraceLogger.sanitize({channelAccessToken: 'abc', headers: {Authorization: 'Bearer abc'}, replyToken: 'r'}))
+          .to.deep.equal({channelAccessToken: '[REDACTED]', headers: {Authorization: '[REDACTED]'}, replyToken: '[REDACTED]'});
+      });
+
+      it('should mask user IDs in fields and strings', () => {
+        const masked = TraceLogger.maskId(userId);
+        const result = TraceLogger.sanitize({path: 'profile/' + userId, source: {userId}, to: [userId]});
+
+        expect(masked).to.match(/^U#[0-9a-f]{10}$/);
+        expect(result).to.deep.equal({path: 'profile/' + masked, source: {userId: masked}, to: [masked]});
+      });
+    });
+
+    describe('when redaction is disabled', () => {
+
+      it('should keep values', () => {
+        expect(TraceLogger.sanitize({token: 'abc', userId}, false)).to.deep.equal({token: 'abc', userId});
+      });
+    });
+
+    describe('when values are nested deeply', () => {
+
+      it('should cut them off', () => {
+        expect(TraceLogger.sanitize({a: {b: {c: {d: {e: {f: 1}}}}}})).to.deep.equal({a: {b: {c: {d: {e: '[Object]'}}}}});
+      });
+    });
+  });
+
+  describe('run', () => {
+
+    describe('when entries are written inside the callback', () => {
+
+      it('should add the correlation fields across async calls', async () => {
+        await trace.run({requestId: 'r1'}, () => trace.run({eventId: 'e1'}, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          expect(trace.correlationId).to.equal('e1');
+          trace.info('Handled');
+        }));
+
+        expect((logger.info as SinonStub).calledWith('Handled', {eventId: 'e1', requestId: 'r1'})).to.be.true;
+        expect(trace.correlationId).to.be.undefined;
+      });
+
+      it('should keep concurrent callbacks apart', async () => {
+        const delay = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+        await Promise.all(['e1', 'e2'].map((eventId) => trace.run({eventId}, async () => {
+          await delay();
+          trace.info(eventId);
+        })));
+
+        expect((logger.info as SinonStub).args).to.deep.equal([['e1', {eventId: 'e1'}], ['e2', {eventId: 'e2'}]]);
+      });
+    });
+  });
+
+});
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { WebhookEvents } from '../../lib/webhook-events';
+
+describe('WebhookEvents', () => {
+
+  describe('text', () => {
+    it('should build a replyable text message event from the default user', () => {
+      let event = WebhookEvents.text('hi');
+
+      expect(event.type).to.equal('message');
+      expect(event.message).to.include({text: 'hi', type: 'text'});
+      expect(event.source).to.deep.equal({type: 'user', userId: WebhookEvents.defaultUserId});
+      expect(event.replyToken).to.be.a('string');
+      expect(event.timestamp).to.be.closeTo(Date.now(), 1000);
+    });
+  });
+
+  describe('when options are provided', () => {
+    it('should use the given source, timestamp and reply token', () => {
+      let event = WebhookEvents.follow({replyToken: 'r1', source: WebhookEvents.group('G1', 'U1'), timestamp: 1});
+
+      expect(event).to.deep.equal({
+        replyToken: 'r1',
+        source: {groupId: 'G1', type: 'group', userId: 'U1'},
+        timestamp: 1,
+        type: 'follow'
+      });
+    });
+  });
+
+  describe('message types', () => {
+    it('should build every message type', () => {
+      expect(WebhookEvents.image().message.type).to.equal('image');
+      expect(WebhookEvents.video().message.type).to.equal('video');
+      expect(WebhookEvents.audio().message.type).to.equal('audio');
+      expect(WebhookEvents.file('a.pdf', 10).message).to.include({fileName: 'a.pdf', fileSize: '10', type: 'file'});
+      expect(WebhookEvents.location('Home', 'Bangkok', 13.7, 100.5).message).to.include({latitude: 13.7, type: 'location'});
+      expect(WebhookEvents.sticker('1', '2').message).to.include({packageId: '1', stickerId: '2', type: 'sticker'});
+    });
+
+    it('should give every message a unique id', () => {
+      expect(WebhookEvents.text('a').message.id).not.to.equal(WebhookEvents.text('b').message.id);
+    });
+  });
+
+  describe('non-message events', () => {
+    it('should build replyable events with reply tokens', () => {
+      expect(WebhookEvents.join().replyToken).to.be.a('string');
+      expect(WebhookEvents.postback('buy', {date: '2018-12-01'}).postback).to.deep.equal({data: 'buy', params: {date: '2018-12-01'}});
+      expect(WebhookEvents.beacon('d41d8cd98f').beacon).to.deep.equal({hwid: 'd41d8cd98f', type: 'enter'});
+      expect(WebhookEvents.memberJoined(['U1']).joined.members).to.deep.equal([{type: 'user', userId: 'U1'}]);
+    });
+
+    it('should build unreplyable events without reply tokens', () => {
+      expect(WebhookEvents.unfollow()).not.to.have.property('replyToken');
+      expect(WebhookEvents.leave()).not.to.have.property('replyToken');
+      expect(WebhookEvents.memberLeft(['U1'])).to.include({type: 'memberLeft'}).and.not.to.have.property('replyToken');
+    });
+  });
+
+});
@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ApiEmulator } from '../../lib/api-emulator';
+import { BotServer } from '../../lib/bot-server';
+import { BotServerOptions } from '../../lib/bot-server-options';
+import { WebhookEvents } from '../../lib/webhook-events';
+import { WebhookSimulator } from '../../lib/webhook-simulator';
+
+describe('WebhookSimulator', () => {
+  let server: BotServer,
+    simulator: WebhookSimulator,
+    options: BotServerOptions = {
+      cert: BotServer.defaultSSLCert,
+      channelAccessToken: 'test',
+      channelSecret: 'test',
+      key: BotServer.defaultSSLKey,
+      logging: {level: 'silent'},
+      port: 1234
+    };
+
+  beforeEach(() => {
+    server = new BotServer(options);
+    server.setWebhook('/webhook');
+    simulator = new WebhookSimulator(server, {destination: 'Ubot'});
+  });
+
+  describe('sign', () => {
+    it('should compute the LINE signature', () => {
+      expect(WebhookSimulator.sign('{}', 'test')).to.equal('X1hjuYBa1OZulUomD5yrPy6VcYeY3sC7SKZVGViT0Q4=');
+    });
+  });
+
+  describe('send', () => {
+
+    it('should deliver signed events and return the outbound calls', async () => {
+      let handler = sinon.spy((match: any, context: any) => context.reply({text: 'pong', type: 'text'}));
+
+      server.onKeyword('ping', handler);
+
+      let result = await simulator.send(WebhookEvents.text('ping', {replyToken: 'r1'}));
+
+      expect(result.status).to.equal(200);
+      expect(handler.calledOnce).to.be.true;
+      expect(handler.getCall(0).args[1].destination).to.equal('Ubot');
+      expect(result.calls).to.deep.equal([{
+        body: {messages: [{text: 'pong', type: 'text'}], replyToken: 'r1'},
+        channel: 'default',
+        method: 'POST',
+        path: 'message/reply'
+      }]);
+    });
+
+    it('should only return the calls made for that request', async () => {
+      server.onFollow((event, context) => context.push({text: 'welcome', type: 'text'}));
+
+      await simulator.send(WebhookEvents.follow({timestamp: 1}));
+      let result = await simulator.send(WebhookEvents.follow({timestamp: 1}));
+
+      expect(result.calls.length).to.equal(1);
+      expect(simulator.pushes.length).to.equal(2);
+      expect(simulator.pushes[0].to).to.equal(WebhookEvents.defaultUserId);
+    });
+
+    describe('when signature is invalid', () => {
+      it('should be rejected by the webhook', async () => {
+        let handler = sinon.stub();
+
+        server.onAny(handler);
+
+        let result = await simulator.send(WebhookEvents.text('hi'), 'invalid');
+
+        expect(result.status).not.to.equal(200);
+        expect(handler.called).to.be.false;
+      });
+    });
+  });
+
+  describe('when passthrough is enabled', () => {
+    let emulator: ApiEmulator;
+
+    beforeEach(async () => {
+      emulator = new ApiEmulator();
+      server = new BotServer({...options, apiBaseURL: await emulator.start()});
+      server.setWebhook('/callback');
+      simulator = new WebhookSimulator(server, {endpoint: '/callback', passthrough: true});
+    });
+
+    afterEach(() => emulator.stop());
+
+    it('should forward the calls to the API', async () => {
+      server.onKeyword('hi', (match, context) => context.reply({text: 'hello', type: 'text'}));
+
+      let result = await simulator.send(WebhookEvents.text('hi', {replyToken: 'r1'}));
+
+      expect(result.calls.length).to.equal(1);
+      expect(emulator.replies).to.deep.equal([{messages: [{text: 'hello', type: 'text'}], replyToken: 'r1'}]);
+    });
+  });
+
+});